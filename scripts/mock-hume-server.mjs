@@ -0,0 +1,111 @@
+// Offline stand-in for the two Hume endpoints cloud prosody uses:
+//   POST /v0/auth/token        -> a fixed access token (point HUME_API_URL here)
+//   WS   /v0/stream/models     -> prosody predictions (point NEXT_PUBLIC_HUME_STREAM_URL here)
+// Predictions are derived from the loudness of the WAV it is sent, so louder
+// speech reads as excitement and quiet speech as calm or tiredness.
+//
+//   node scripts/mock-hume-server.mjs [port]
+
+import { createServer } from "http";
+import { pathToFileURL } from "url";
+import { WebSocketServer } from "ws";
+
+export const MOCK_ACCESS_TOKEN = "mock-hume-token";
+
+const PROSODY_NAMES = [
+  "Admiration", "Adoration", "Aesthetic Appreciation", "Amusement", "Anger", "Anxiety", "Awe", "Awkwardness",
+  "Boredom", "Calmness", "Concentration", "Confusion", "Contemplation", "Contempt", "Contentment", "Craving",
+  "Desire", "Determination", "Disappointment", "Disgust", "Distress", "Doubt", "Ecstasy", "Embarrassment",
+  "Empathic Pain", "Entrancement", "Envy", "Excitement", "Fear", "Guilt", "Horror", "Interest", "Joy", "Love",
+  "Nostalgia", "Pain", "Pride", "Realization", "Relief", "Romance", "Sadness", "Satisfaction", "Shame",
+  "Surprise (negative)", "Surprise (positive)", "Sympathy", "Tiredness", "Triumph"
+];
+
+// RMS level in dBFS and duration of a 16-bit PCM mono WAV
+function measureWav(bytes) {
+  if (bytes.length < 44 || bytes.toString("ascii", 0, 4) !== "RIFF" || bytes.toString("ascii", 8, 12) !== "WAVE") return null;
+  const sampleRate = bytes.readUInt32LE(24);
+  const count = Math.floor((bytes.length - 44) / 2);
+  let sum = 0;
+  for (let i = 0; i < count; i++) {
+    const sample = bytes.readInt16LE(44 + i * 2) / 0x8000;
+    sum += sample * sample;
+  }
+  return { db: 20 * Math.log10(Math.sqrt(sum / Math.max(1, count)) + 1e-10), seconds: count / sampleRate };
+}
+
+function predict(level) {
+  const arousal = Math.max(0, Math.min(1, (level.db + 50) / 40));
+  const scores = Object.fromEntries(PROSODY_NAMES.map(name => [name, 0.02]));
+  scores.Excitement = 0.1 + 0.7 * arousal;
+  scores.Joy = 0.05 + 0.4 * arousal;
+  scores.Calmness = 0.1 + 0.6 * (1 - arousal);
+  scores.Tiredness = 0.3 * (1 - arousal);
+  scores.Interest = 0.2;
+  return [{
+    time: { begin: 0, end: level.seconds },
+    emotions: PROSODY_NAMES.map(name => ({ name, score: Number(scores[name].toFixed(4)) }))
+  }];
+}
+
+function respond(payload) {
+  const reply = payload.payload_id ? { payload_id: payload.payload_id } : {};
+  if (!payload.models?.prosody) return { ...reply, error: "Only the prosody model is mocked", code: "E0101" };
+  const level = typeof payload.data === "string" ? measureWav(Buffer.from(payload.data, "base64")) : null;
+  if (!level) return { ...reply, error: "Unable to read audio payload", code: "E0202" };
+  if (level.db < -55) return { ...reply, prosody: { warning: "No speech detected.", code: "W0105" } };
+  return { ...reply, prosody: { predictions: predict(level) } };
+}
+
+export function startMockHumeServer(port = 8765) {
+  const server = createServer((req, res) => {
+    if (req.method === "POST" && req.url === "/v0/auth/token") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ access_token: MOCK_ACCESS_TOKEN, token_type: "Bearer", expires_in: 1800 }));
+      return;
+    }
+    res.writeHead(404).end();
+  });
+
+  const sockets = new WebSocketServer({ noServer: true });
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url ?? "", "http://localhost");
+    if (url.pathname !== "/v0/stream/models" || url.searchParams.get("access_token") !== MOCK_ACCESS_TOKEN) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      return;
+    }
+    sockets.handleUpgrade(req, socket, head, ws => {
+      ws.on("message", data => {
+        let payload;
+        try {
+          payload = JSON.parse(String(data));
+        } catch {
+          ws.send(JSON.stringify({ error: "Payload must be JSON", code: "E0100" }));
+          return;
+        }
+        ws.send(JSON.stringify(respond(payload)));
+      });
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, () => {
+      const address = server.address();
+      resolve({
+        port: typeof address === "object" && address ? address.port : port,
+        close: () => new Promise(done => {
+          sockets.clients.forEach(client => client.terminate());
+          sockets.close();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const { port } = await startMockHumeServer(Number(process.argv[2]) || 8765);
+  console.log(`Mock Hume server on :${port}`);
+  console.log(`  HUME_API_URL=http://localhost:${port}`);
+  console.log(`  NEXT_PUBLIC_HUME_STREAM_URL=ws://localhost:${port}/v0/stream/models`);
+}
@@ -1,8 +1,12 @@
 import { NextResponse } from "next/server";
 import { pipeline } from "@xenova/transformers";
+import { mapGoEmotions, type GoEmotionScore } from "@/lib/goEmotions";
 
 export const runtime = "nodejs";
 
+// Any GoEmotions classifier exported for transformers.js (ONNX weights under onnx/)
+const MODEL_ID = process.env.TEXT_EMOTION_MODEL || "SamLowe/roberta-base-go_emotions-onnx";
+
 let classifier: any = null;
 
 async function getClassifier() {
@@ -10,10 +14,9 @@ async function getClassifier() {
 
     console.log("🧠 Loading SmartCare NLP Model...");
 
-    classifier = await pipeline(
-      "sentiment-analysis",
-      "Xenova/distilbert-base-uncased-finetuned-sst-2-english"
-    );
+    classifier = await pipeline("text-classification", MODEL_ID);
+    // GoEmotions labels are independent; without this the pipeline softmaxes them
+    classifier.model.config.problem_type = "multi_label_classification";
 
     console.log("✅ Emotion model loaded");
 
@@ -36,21 +39,25 @@ export async function POST(req: Request) {
 
     const model = await getClassifier();
 
-    const result = await model(text);
+    // topk 0 returns every label, highest first
+    const scores: GoEmotionScore[] = await model(text, { topk: 0 });
 
-    console.log("📊 NLP Result:", result);
+    const mapped = Array.isArray(scores) ? mapGoEmotions(scores) : null;
 
-    if (!result || !result[0]) {
+    console.log("📊 NLP Result:", mapped?.label, mapped?.confidence);
+
+    if (!mapped) {
       throw new Error("Model returned empty result");
     }
 
-    const sentiment = result[0];
-
     return NextResponse.json({
       result: {
-        label: sentiment.label,
-        score: sentiment.score,
-        engine: "SMARTCARE_NLP_v5"
+        emotion: mapped.emotion,
+        confidence: mapped.confidence,
+        label: mapped.label,
+        emotions: mapped.emotions,
+        scores,
+        engine: "SMARTCARE_NLP_v6"
       }
     });
 
@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 
+// Overridable so cloud prosody can run against scripts/mock-hume-server.mjs offline
+const HUME_API_URL = process.env.HUME_API_URL || 'https://api.hume.ai';
+
 export async function GET() {
   const apiKey = process.env.HUME_API_KEY;
   const secretKey = process.env.HUME_SECRET_KEY;
@@ -10,7 +13,7 @@ export async function GET() {
 
   try {
     const authString = Buffer.from(`${apiKey}:${secretKey}`).toString('base64');
-    const response = await fetch('https://api.hume.ai/v0/auth/token', {
+    const response = await fetch(`${HUME_API_URL}/v0/auth/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -22,6 +25,10 @@ export async function GET() {
     });
 
     const data = await response.json();
+    if (!response.ok || !data.access_token) {
+      console.error('Hume Auth Error:', data);
+      return NextResponse.json({ error: 'Failed to fetch Hume access token' }, { status: 502 });
+    }
     return NextResponse.json({ accessToken: data.access_token });
   } catch (error) {
     console.error('Hume Auth Error:', error);
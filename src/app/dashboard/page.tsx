@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { Loader2, User } from "lucide-react";
@@ -25,9 +25,14 @@ const MobileNav = dynamic(() => import("@/components/dashboard/MobileNav"), { ss
 const SessionHistory = dynamic(() => import("@/components/dashboard/SessionHistory"), { ssr: false });
 const AnalyticsOverview = dynamic(() => import("@/components/dashboard/AnalyticsOverview"), { ssr: false });
 const PremiumUpgradeModal = dynamic(() => import("@/components/dashboard/PremiumUpgradeModal"), { ssr: false });
-import { getFinalEmotion } from "@/lib/emotionFusion";
+import { getFinalEmotion, FusionResult, CORE_EMOTION_AFFECT, type AffectPoint, type CoreEmotion, type EmotionData } from "@/lib/emotionFusion";
+import { modalityRegistry } from "@/lib/modalityRegistry";
+import { fusionWeightStore } from "@/lib/fusionWeights";
+import { heartRateBaselineStore } from "@/lib/heartRateBaselineStore";
+import { confidenceCalibrationStore } from "@/lib/confidenceCalibrationStore";
 import { useBiometrics } from "@/context/BiometricContext";
 import { sessionService } from "@/lib/sessionService";
+import type { ActionUnitSummary } from "@/lib/actionUnits";
 
 export default function DashboardPage() {
   const [user, setUser] = useState<any>(null);
@@ -41,11 +46,9 @@ export default function DashboardPage() {
   const router = useRouter();
 
   // Multi-modal state
-  const [detectionData, setDetectionData] = useState({
-    face: "" as any,
-    voice: "" as any,
-    text: "" as any,
-    heartRate: "N/A" as number | string
+  const [detectionData, setDetectionData] = useState<EmotionData>({
+    signals: {},
+    heartRate: "N/A"
   });
 
   const [fusionResult, setFusionResult] = useState({
@@ -56,10 +59,22 @@ export default function DashboardPage() {
       "Sadness": 70,
       "Anger": 8,
       "Neutral": 12
-    } as Record<string, number>
+    } as Record<string, number>,
+    contributions: {} as FusionResult["contributions"],
+    explanation: null as FusionResult["explanation"] | null,
+    affect: null as AffectPoint | null
   });
 
-  const { bpm, lastUpdated: heartRateTimestamp } = useBiometrics();
+  const [fusionWeights, setFusionWeights] = useState(() => fusionWeightStore.getWeights());
+  const [analysisCount, setAnalysisCount] = useState(0);
+  const [lastSessionId, setLastSessionId] = useState<string | null>(null);
+  const actionUnitSummary = useRef<ActionUnitSummary | null>(null);
+
+  const { bpm, lastUpdated: heartRateTimestamp, respirationRate, respirationRegularity, respirationUpdated } = useBiometrics();
+
+  useEffect(() => {
+    fusionWeightStore.ready.then(() => setFusionWeights(fusionWeightStore.getWeights()));
+  }, []);
 
   useEffect(() => {
     const fetchUser = async () => {
@@ -80,7 +95,13 @@ export default function DashboardPage() {
   };
 
   const updateDetection = (type: string, value: any) => {
-    setDetectionData(prev => ({ ...prev, [type]: value }));
+    if (type === 'heartRate') {
+      setDetectionData(prev => ({ ...prev, heartRate: value }));
+    } else if (type === 'actionUnits') {
+      actionUnitSummary.current = value;
+    } else {
+      setDetectionData(prev => ({ ...prev, signals: { ...prev.signals, [type]: value } }));
+    }
   };
 
   const performAnalysis = async () => {
@@ -90,43 +111,43 @@ export default function DashboardPage() {
       const result = getFinalEmotion({
         ...detectionData,
         heartRate: bpm || "N/A",
-        heartRateTimestamp: heartRateTimestamp || undefined
-      });
-      
-      const emotions = ["Joy", "Sadness", "Anger", "Fear", "Anxiety", "Neutral", "Awe"];
-      const probabilities: Record<string, number> = {};
+        heartRateTimestamp: heartRateTimestamp || undefined,
+        heartRateBaseline: heartRateBaselineStore.getBaseline(),
+        respirationRate: respirationRate ?? undefined,
+        respirationRegularity: respirationRegularity ?? undefined,
+        respirationTimestamp: respirationUpdated ?? undefined
+      }, fusionWeightStore.getWeights());
+      const confidence = confidenceCalibrationStore.calibrate(result);
       
-      emotions.forEach(e => {
-        if (e === result.finalEmotion) {
-          probabilities[e] = result.confidence;
-        } else {
-          probabilities[e] = Math.floor((100 - result.confidence) / (emotions.length - 1));
-        }
-      });
-
       const finalResult = {
         finalEmotion: result.finalEmotion,
-        confidence: result.confidence,
-        probabilities
+        confidence,
+        probabilities: result.probabilities,
+        contributions: result.contributions,
+        explanation: result.explanation,
+        affect: result.affect
       };
 
       setFusionResult(finalResult);
+      setAnalysisCount(prev => prev + 1);
+      setLastSessionId(null);
 
       if (user?.id) {
-        // Extract raw labels for Supabase for better searchability
-        const faceLabel = typeof detectionData.face === 'string' ? detectionData.face : detectionData.face?.emotion || "";
-        const voiceLabel = typeof detectionData.voice === 'string' ? detectionData.voice : detectionData.voice?.emotion || "";
-        const textLabel = typeof detectionData.text === 'string' ? detectionData.text : detectionData.text || "";
-
-        await sessionService.saveSession({
+        const saved = await sessionService.saveSession({
           user_id: user.id,
-          face_emotion: faceLabel,
-          voice_emotion: voiceLabel,
-          text_sentiment: textLabel,
+          ...sessionService.toSignalColumns(detectionData),
           heart_rate: Number(detectionData.heartRate) || 0,
           final_emotion: result.finalEmotion,
-          confidence: result.confidence
+          confidence,
+          raw_confidence: result.confidence,
+          valence: result.affect.valence,
+          arousal: result.affect.arousal,
+          agreement: result.explanation.agreement,
+          conflict_pattern: result.explanation.conflict?.pattern ?? null,
+          action_units: actionUnitSummary.current
         });
+        setLastSessionId(saved.data?.[0]?.id ?? null);
+        if (Number(detectionData.heartRate) > 0) heartRateBaselineStore.refresh();
       }
 
       setIsAnalyzing(false);
@@ -134,6 +155,27 @@ export default function DashboardPage() {
     }, 600);
   };
 
+  const recordFeedback = async (confirmedEmotion: string) => {
+    if (!lastSessionId) return;
+    await sessionService.recordFeedback(lastSessionId, confirmedEmotion);
+    await confidenceCalibrationStore.refresh();
+  };
+
+  const handleCorrection = async (emotion: CoreEmotion) => {
+    const updated = await fusionWeightStore.applyCorrection(fusionResult.contributions, emotion);
+    setFusionWeights(updated);
+    await recordFeedback(emotion);
+  };
+
+  const handleConfirm = async () => {
+    await recordFeedback(fusionResult.finalEmotion);
+  };
+
+  const handleResetWeights = async () => {
+    const defaults = await fusionWeightStore.reset();
+    setFusionWeights(defaults);
+  };
+
   const startSession = () => {
     setShowTherapy(true);
     setTimeout(() => {
@@ -148,7 +190,10 @@ export default function DashboardPage() {
       probabilities: {
         "Joy": 100,
         "Neutral": 0
-      }
+      },
+      contributions: {},
+      explanation: null,
+      affect: CORE_EMOTION_AFFECT.Joy
     });
     setShowResults(true);
     setShowTherapy(false); // Hide the detection grid if it's open
@@ -310,9 +355,13 @@ export default function DashboardPage() {
                       >
                         <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
                           <ResultsPanel 
+                            key={analysisCount}
                             finalEmotion={fusionResult.finalEmotion} 
                             confidence={fusionResult.confidence}
                             probabilities={fusionResult.probabilities}
+                            contributions={fusionResult.contributions}
+                            onCorrect={handleCorrection}
+                            onConfirm={handleConfirm}
                           />
                           <div className="h-full">
                              <VoiceAssistant currentMood={fusionResult.finalEmotion} />
@@ -322,6 +371,10 @@ export default function DashboardPage() {
                         <FusionExplanation 
                           inputs={detectionData} 
                           finalEmotion={fusionResult.finalEmotion} 
+                          dropped={fusionResult.explanation?.dropped}
+                          agreement={fusionResult.explanation?.agreement}
+                          conflict={fusionResult.explanation?.conflict}
+                          respiration={fusionResult.explanation?.respiration}
                         />
                       </motion.div>
                     )}
@@ -347,7 +400,7 @@ export default function DashboardPage() {
 
                       <div className="grid grid-cols-1 xl:grid-cols-5 gap-8">
                         <div className="xl:col-span-3">
-                          <MusicPlayer emotion={fusionResult.finalEmotion} />
+                          <MusicPlayer emotion={fusionResult.finalEmotion} affect={fusionResult.affect} />
                         </div>
                         <div className="xl:col-span-2">
                            <FeedbackSection />
@@ -421,6 +474,32 @@ export default function DashboardPage() {
                         </div>
                      </div>
 
+                     <div className="p-4 rounded-2xl bg-white/5 border border-white/5 space-y-4">
+                        <div className="flex items-center justify-between">
+                           <span className="text-[10px] font-black text-white/20 uppercase tracking-widest">Fusion Weights</span>
+                           <span className="text-[9px] font-black text-brand-cyan/60 uppercase tracking-widest">
+                              {fusionWeightStore.isPersonalized() ? "Personalized" : "Defaults"}
+                           </span>
+                        </div>
+                        {modalityRegistry.ids().map(modality => (
+                           <div key={modality} className="space-y-1">
+                              <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest">
+                                 <span className="text-white/40">{modality}</span>
+                                 <span className="text-white/60 tabular-nums">{Math.round(fusionWeights[modality] * 100)}%</span>
+                              </div>
+                              <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
+                                 <div className="h-full bg-brand-cyan rounded-full transition-all" style={{ width: `${fusionWeights[modality] * 100}%` }} />
+                              </div>
+                           </div>
+                        ))}
+                        <button
+                          onClick={handleResetWeights}
+                          className="w-full p-3 rounded-xl bg-white/5 border border-white/10 text-white/60 font-black uppercase tracking-widest text-[10px] hover:text-brand-cyan hover:border-brand-cyan/30 transition-all"
+                        >
+                           Reset Weights to Defaults
+                        </button>
+                     </div>
+
                      <div className="space-y-4">
                         <button className="w-full p-4 rounded-xl bg-brand-cyan text-brand-teal font-black uppercase tracking-widest text-xs hover:shadow-[0_0_20px_rgba(0,242,255,0.4)] transition-all">
                            Update Neural signature
@@ -1,19 +1,27 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useSyncExternalStore } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useRouter } from "next/navigation";
-import { ArrowRight, ArrowLeft, Brain, Sparkles, AlertCircle } from "lucide-react";
+import { ArrowRight, ArrowLeft, Brain, Sparkles, AlertCircle, ShieldCheck } from "lucide-react";
 import dynamic from "next/dynamic";
 
 // Dynamic components for browser-only features
 const FaceDetection = dynamic(() => import("@/components/EmotionDetector/FaceDetection"), { ssr: false });
+const NeutralCalibration = dynamic(() => import("@/components/EmotionDetector/NeutralCalibration"), { ssr: false });
+const VoiceCalibration = dynamic(() => import("@/components/EmotionDetector/VoiceCalibration"), { ssr: false });
 const VoiceDetection = dynamic(() => import("@/components/EmotionDetector/VoiceDetection"), { ssr: false });
 const TextAnalysis = dynamic(() => import("@/components/EmotionDetector/TextAnalysis"), { ssr: false });
 const HeartRateMonitor = dynamic(() => import("@/components/EmotionDetector/HeartRateMonitor"), { ssr: false });
-import { getFinalEmotion } from "@/lib/emotionFusion";
+import { getFinalEmotion, type EmotionSignal } from "@/lib/emotionFusion";
+import { fusionWeightStore } from "@/lib/fusionWeights";
+import { heartRateBaselineStore } from "@/lib/heartRateBaselineStore";
+import { useBiometrics } from "@/context/BiometricContext";
+import { confidenceCalibrationStore } from "@/lib/confidenceCalibrationStore";
+import { facePrivacy } from "@/lib/facePrivacy";
+import { textSignal } from "@/lib/textEmotion";
 
-const STEPS = ["introduction", "face", "voice", "text", "biometric", "summary"];
+const STEPS = ["introduction", "calibration", "face", "voice", "text", "biometric", "summary"];
 
 export default function DetectEmotionPage() {
   const [step, setStep] = useState(0);
@@ -21,6 +29,10 @@ export default function DetectEmotionPage() {
     face: string;
     voice: string;
     text: string;
+    voiceSignal?: EmotionSignal; // latest utterance, with its confidence and timestamp
+    textSignal?: EmotionSignal;
+    faceActionUnits?: EmotionSignal;
+    attention?: EmotionSignal;
     heartRate: number;
     finalEmotion: string;
   }>({
@@ -31,6 +43,13 @@ export default function DetectEmotionPage() {
     finalEmotion: ""
   });
   const router = useRouter();
+  const { respirationRate, respirationRegularity, respirationUpdated } = useBiometrics();
+  // Stored on the device, so the server render assumes the default
+  const privacyMode = useSyncExternalStore(
+    listener => facePrivacy.subscribe(listener),
+    () => facePrivacy.getState().settings.enabled,
+    () => false
+  );
 
   const handleNext = () => {
     if (step < STEPS.length - 1) setStep(step + 1);
@@ -42,11 +61,22 @@ export default function DetectEmotionPage() {
   };
 
   const handleFinish = () => {
-    const fusion = getFinalEmotion(results);
+    const fusion = getFinalEmotion(
+      {
+        ...results,
+        signals: { voice: results.voiceSignal, text: results.textSignal, face_au: results.faceActionUnits, attention: results.attention },
+        heartRateBaseline: heartRateBaselineStore.getBaseline(),
+        respirationRate: respirationRate ?? undefined,
+        respirationRegularity: respirationRegularity ?? undefined,
+        respirationTimestamp: respirationUpdated ?? undefined
+      },
+      fusionWeightStore.getWeights()
+    );
     const finalSessionData = {
       ...results,
       final_emotion: fusion.finalEmotion,
-      confidence: fusion.confidence
+      confidence: confidenceCalibrationStore.calibrate(fusion),
+      affect: fusion.affect
     };
     localStorage.setItem("smart_care_session", JSON.stringify(finalSessionData));
     router.push("/therapy");
@@ -96,55 +126,82 @@ export default function DetectEmotionPage() {
                         Our multimodal engine uses sub-perceptual analysis to bridge your biological state with algorithmic synthesis.
                     </p>
                 </div>
-                <div className="p-6 rounded-2xl bg-brand-cyan/5 border border-brand-cyan/10 flex items-center gap-4 text-left max-w-xl mx-auto backdrop-blur-lg">
-                  <Sparkles className="w-8 h-8 text-brand-cyan flex-shrink-0" />
+                <button
+                  onClick={() => facePrivacy.update({ enabled: !privacyMode })}
+                  className="w-full p-6 rounded-2xl bg-brand-cyan/5 border border-brand-cyan/10 flex items-center gap-4 text-left max-w-xl mx-auto backdrop-blur-lg hover:border-brand-cyan/30 transition-all"
+                >
+                  {privacyMode
+                    ? <ShieldCheck className="w-8 h-8 text-brand-mint flex-shrink-0" />
+                    : <Sparkles className="w-8 h-8 text-brand-cyan flex-shrink-0" />}
                   <p className="text-xs font-bold text-white/50 uppercase tracking-[0.2em] leading-relaxed">
-                    Zero-knowledge processing enabled. Your emotional signature remains locally encrypted.
+                    {privacyMode
+                      ? "Face privacy mode on. Camera frames never leave this device or get stored; only derived signals are kept, and each is logged."
+                      : "Face frames are analysed on this device. Tap to turn on privacy mode, which blocks image uploads and logs every derived signal."}
                   </p>
-                </div>
+                </button>
               </div>
             )}
 
             {step === 1 && (
               <div className="space-y-10 text-center w-full max-w-4xl">
                 <div className="space-y-2">
-                    <h2 className="text-3xl font-black text-white tracking-tight">Step 01: Visual Resonance</h2>
+                    <h2 className="text-3xl font-black text-white tracking-tight">Step 01: Neutral Baseline</h2>
+                    <p className="text-[10px] text-brand-cyan font-black uppercase tracking-[0.4em]">Resting expression &amp; voice calibration</p>
+                </div>
+                <div className="premium-card p-4 md:p-8 flex flex-col items-center gap-6">
+                    <NeutralCalibration />
+                    <VoiceCalibration />
+                </div>
+              </div>
+            )}
+
+            {step === 2 && (
+              <div className="space-y-10 text-center w-full max-w-4xl">
+                <div className="space-y-2">
+                    <h2 className="text-3xl font-black text-white tracking-tight">Step 02: Visual Resonance</h2>
                     <p className="text-[10px] text-brand-cyan font-black uppercase tracking-[0.4em]">Micro-expression calibration</p>
                 </div>
                 <div className="premium-card p-4 md:p-8">
-                    <FaceDetection onEmotionDetected={(e) => setResults(prev => ({ ...prev, face: e.emotion }))} />
+                    <FaceDetection
+                      onEmotionDetected={(e) => setResults(prev => ({ ...prev, face: e.emotion }))}
+                      onActionUnitsDetected={(e) => setResults(prev => ({ ...prev, faceActionUnits: e }))}
+                      onAttentionDetected={(e) => setResults(prev => ({ ...prev, attention: e }))}
+                    />
                 </div>
               </div>
             )}
 
-            {step === 2 && (
+            {step === 3 && (
               <div className="space-y-10 text-center w-full max-w-4xl">
                  <div className="space-y-2">
-                    <h2 className="text-3xl font-black text-white tracking-tight">Step 02: Auditory Prosody</h2>
+                    <h2 className="text-3xl font-black text-white tracking-tight">Step 03: Auditory Prosody</h2>
                     <p className="text-[10px] text-brand-cyan font-black uppercase tracking-[0.4em]">Frequency distribution analysis</p>
                 </div>
                 <div className="premium-card p-4 md:p-8">
-                    <VoiceDetection onVoiceEmotionDetected={(e) => setResults(prev => ({ ...prev, voice: e }))} />
+                    <VoiceDetection
+                      onVoiceEmotionDetected={(e) => setResults(prev => ({ ...prev, voice: e.emotion, voiceSignal: e }))}
+                      onTextEmotionDetected={(e, confidence) => setResults(prev => ({ ...prev, text: e, textSignal: textSignal(e, confidence) }))}
+                    />
                 </div>
               </div>
             )}
 
-            {step === 3 && (
+            {step === 4 && (
               <div className="space-y-10 text-center w-full max-w-4xl">
                  <div className="space-y-2">
-                    <h2 className="text-3xl font-black text-white tracking-tight">Step 03: Lexical Sentiment</h2>
+                    <h2 className="text-3xl font-black text-white tracking-tight">Step 04: Lexical Sentiment</h2>
                     <p className="text-[10px] text-brand-cyan font-black uppercase tracking-[0.4em]">Semantic core extraction</p>
                 </div>
                 <div className="premium-card p-4 md:p-8">
-                    <TextAnalysis onTextEmotionDetected={(e) => setResults(prev => ({ ...prev, text: e }))} />
+                    <TextAnalysis onTextEmotionDetected={(e, confidence) => setResults(prev => ({ ...prev, text: e, textSignal: textSignal(e, confidence) }))} />
                 </div>
               </div>
             )}
 
-            {step === 4 && (
+            {step === 5 && (
               <div className="space-y-10 text-center w-full max-w-4xl">
                 <div className="space-y-2">
-                    <h2 className="text-3xl font-black text-white tracking-tight">Step 04: Biometric Coherence</h2>
+                    <h2 className="text-3xl font-black text-white tracking-tight">Step 05: Biometric Coherence</h2>
                     <p className="text-[10px] text-brand-cyan font-black uppercase tracking-[0.4em]">Cardiac rhythm synchronization</p>
                 </div>
                 <div className="premium-card p-4 md:p-8">
@@ -153,7 +210,7 @@ export default function DetectEmotionPage() {
               </div>
             )}
 
-            {step === 5 && (
+            {step === 6 && (
               <div className="text-center space-y-10 max-w-4xl w-full">
                 <motion.div 
                     animate={{ scale: [1, 1.1, 1] }}
@@ -18,6 +18,7 @@ export const metadata: Metadata = {
 };
 
 import { BiometricProvider } from "@/context/BiometricContext";
+import { FusionProvider } from "@/context/FusionContext";
 
 export default function RootLayout({
   children,
@@ -31,7 +32,9 @@ export default function RootLayout({
         suppressHydrationWarning
       >
         <BiometricProvider>
-          {children}
+          <FusionProvider>
+            {children}
+          </FusionProvider>
         </BiometricProvider>
       </body>
     </html>
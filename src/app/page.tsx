@@ -116,7 +116,7 @@ export default function LandingPage() {
           <FeatureCard 
             icon={<Shield className="w-10 h-10" />}
             title="Privacy Protocol"
-            description="Zero-knowledge biometric processing. Your emotional data never leaves the local encryption layer."
+            description="Face analysis runs on your device. In privacy mode no camera frame is stored or sent, and every signal derived from it is logged."
           />
         </div>
       </section>
@@ -3,18 +3,24 @@
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useRouter } from "next/navigation";
-import { Music, Play, Pause, SkipForward, Info, CheckCircle2, HeartPulse, Activity } from "lucide-react";
-import { musicGenerator } from "@/lib/musicGeneration";
+import { Music, Play, Pause, SkipForward, Info, CheckCircle2, HeartPulse, Activity, EyeOff } from "lucide-react";
+import { musicGenerator, selectMoodByAffect } from "@/lib/musicGeneration";
+import { heartRateBaselineStore } from "@/lib/heartRateBaselineStore";
 import dynamic from "next/dynamic";
 import { useBiometrics } from "@/context/BiometricContext";
+import { shouldPauseSession, type AttentionState } from "@/lib/attention";
 
 const VoiceAssistant = dynamic(() => import("@/components/VoiceAssistant"), { ssr: false });
+const AttentionMonitor = dynamic(() => import("@/components/EmotionDetector/AttentionMonitor"), { ssr: false });
 
 export default function TherapyPage() {
   const { bpm } = useBiometrics();
   const [sessionData, setSessionData] = useState<any>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [timer, setTimer] = useState(180); // 3 minutes
+  const [attention, setAttention] = useState<AttentionState | null>(null);
+  // The session clock only runs while the user is actually with it
+  const heldForAttention = isPlaying && attention !== null && shouldPauseSession(attention);
   const router = useRouter();
   const displayBpm = bpm;
 
@@ -25,17 +31,17 @@ export default function TherapyPage() {
 
   useEffect(() => {
     let interval: any;
-    if (isPlaying && timer > 0) {
+    if (isPlaying && !heldForAttention && timer > 0) {
       interval = setInterval(() => setTimer(prev => prev - 1), 1000);
     } else if (timer === 0) {
       handleFinish();
     }
     return () => clearInterval(interval);
-  }, [isPlaying, timer]);
+  }, [isPlaying, heldForAttention, timer]);
 
   useEffect(() => {
     if (isPlaying && displayBpm) {
-      musicGenerator.updateBpm(displayBpm);
+      musicGenerator.updateBpm(displayBpm, heartRateBaselineStore.getBaseline());
     }
   }, [displayBpm, isPlaying]);
 
@@ -43,7 +49,11 @@ export default function TherapyPage() {
     if (isPlaying) {
       musicGenerator.stop();
     } else {
-      musicGenerator.start(sessionData?.final_emotion || sessionData?.face || "Neutral");
+      musicGenerator.start(
+        sessionData?.affect
+          ? selectMoodByAffect(sessionData.affect)
+          : sessionData?.final_emotion || sessionData?.face || "Neutral"
+      );
     }
     setIsPlaying(!isPlaying);
   };
@@ -89,6 +99,7 @@ export default function TherapyPage() {
         </div>
 
         <div className="flex gap-4">
+          <AttentionMonitor onAttentionChange={setAttention} />
 
           <motion.div 
             initial={{ opacity: 0, scale: 0.95 }}
@@ -102,6 +113,12 @@ export default function TherapyPage() {
                   <span className="text-[10px] font-black text-brand-cyan uppercase tracking-widest">{formatTime(timer)} LFT</span>
               </div>
               <div className="text-5xl font-black text-white tabular-nums tracking-tighter text-center">{formatTime(timer)}</div>
+              {heldForAttention && (
+                <div className="flex items-center justify-center gap-2 text-[9px] font-black text-yellow-400 uppercase tracking-widest">
+                  <EyeOff className="w-3 h-3" />
+                  {attention?.status === "Drowsy" ? "Paused — take a slow breath" : "Paused — look back to continue"}
+                </div>
+              )}
               <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden border border-white/5">
                   <motion.div 
                   initial={{ width: "100%" }}
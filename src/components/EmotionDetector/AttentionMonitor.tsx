@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Webcam from "react-webcam";
+import { Eye, EyeOff, RefreshCw } from "lucide-react";
+import { createFaceDetector, type FaceDetector } from "@/lib/faceDetector";
+import { AdaptiveFrameScheduler } from "@/lib/frameScheduler";
+import { AttentionTracker, type AttentionState } from "@/lib/attention";
+import { facePrivacy } from "@/lib/facePrivacy";
+import type { Point } from "@/lib/faceQuality";
+import FaceMesh from "./FaceMesh";
+
+// Blinks last 100-400 ms; the scheduler never backs off past this
+const ATTENTION_MAX_INTERVAL = 200;
+
+interface AttentionMonitorProps {
+  onAttentionChange: (state: AttentionState | null) => void;
+}
+
+// Opt-in camera watch used during therapy. Only landmarks are read; expressions
+// are left to the check-in.
+export default function AttentionMonitor({ onAttentionChange }: AttentionMonitorProps) {
+  const webcamRef = useRef<Webcam>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [detector, setDetector] = useState<FaceDetector | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attention, setAttention] = useState<AttentionState | null>(null);
+  const [privacy, setPrivacy] = useState(() => facePrivacy.getState());
+  const [mesh, setMesh] = useState<{ points: Point[]; width: number; height: number } | null>(null);
+  const showAvatar = privacy.settings.enabled && privacy.settings.avatar;
+  const showAvatarRef = useRef(showAvatar);
+  const onChangeRef = useRef(onAttentionChange);
+
+  useEffect(() => facePrivacy.subscribe(setPrivacy), []);
+  useEffect(() => { showAvatarRef.current = showAvatar; }, [showAvatar]);
+  useEffect(() => { onChangeRef.current = onAttentionChange; }, [onAttentionChange]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let isMounted = true;
+    let created: FaceDetector | null = null;
+    createFaceDetector()
+      .then(ready => {
+        created = ready;
+        if (isMounted) setDetector(ready);
+        else ready.dispose();
+      })
+      .catch(err => {
+        console.error("Attention monitor models load failed:", err);
+        if (isMounted) setError("Face models unavailable");
+      });
+    return () => {
+      isMounted = false;
+      created?.dispose();
+      setDetector(null);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!detector) return;
+
+    const scheduler = new AdaptiveFrameScheduler({ maxInterval: ATTENTION_MAX_INTERVAL });
+    const tracker = new AttentionTracker();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const runDetection = async () => {
+      const video = webcamRef.current?.video;
+      if (video && video.readyState === 4) {
+        try {
+          const started = performance.now();
+          const analysis = await detector.detect(video, "face-api");
+          if (stopped) return;
+          const now = Date.now();
+          const state = tracker.update(analysis?.landmarks ?? null, now);
+          setAttention(state);
+          onChangeRef.current(state);
+          facePrivacy.record("attention", now);
+          if (showAvatarRef.current) {
+            setMesh(analysis && { points: analysis.landmarks, width: analysis.frameWidth, height: analysis.frameHeight });
+          }
+
+          const finished = performance.now();
+          scheduler.observe({ faceFound: analysis !== null, box: analysis?.box }, finished - started, finished);
+        } catch (err) {
+          console.error("Attention detection error:", err);
+        }
+      }
+      if (stopped) return;
+      timer = setTimeout(runDetection, scheduler.nextDelay(document.visibilityState === "hidden"));
+    };
+
+    runDetection();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [detector]);
+
+  const toggle = () => {
+    if (enabled) {
+      setAttention(null);
+      onAttentionChange(null);
+    }
+    setError(null);
+    setEnabled(!enabled);
+  };
+
+  return (
+    <div className="p-4 rounded-[2rem] glass-morphism border-white/5 flex flex-col gap-3 min-w-[180px]">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-[10px] font-black text-white/30 uppercase tracking-[0.3em]">Attention Guard</span>
+        <button
+          onClick={toggle}
+          className={`p-2 rounded-xl border transition-all ${
+            enabled ? "bg-brand-cyan/10 text-brand-cyan border-brand-cyan/30" : "text-white/30 border-white/10 hover:text-brand-cyan"
+          }`}
+          title={enabled ? "Stop watching attention" : "Pause the session when you look away or doze off"}
+        >
+          {enabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {enabled && (
+        <div className="relative w-full h-24 rounded-xl overflow-hidden bg-black border border-white/10">
+          <Webcam
+            ref={webcamRef}
+            audio={false}
+            videoConstraints={{ width: 320, height: 240, facingMode: "user" }}
+            className={`absolute inset-0 w-full h-full object-cover ${showAvatar ? "opacity-0" : "grayscale opacity-40"}`}
+          />
+          {showAvatar && mesh && <FaceMesh points={mesh.points} width={mesh.width} height={mesh.height} />}
+          {!detector && !error && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <RefreshCw className="w-5 h-5 text-brand-cyan animate-spin" />
+            </div>
+          )}
+        </div>
+      )}
+
+      {error ? (
+        <span className="text-[9px] font-black text-red-400 uppercase tracking-widest">{error}</span>
+      ) : enabled && attention && (
+        <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest">
+          <span className={attention.status === "Engaged" ? "text-brand-mint" : "text-yellow-400"}>
+            {attention.status}
+          </span>
+          <span className="text-white/30 tabular-nums">{attention.blinkRate ?? "--"} blinks/min</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,100 +2,329 @@
 
 import { useEffect, useRef, useState } from "react";
 import Webcam from "react-webcam";
-import * as tf from "@tensorflow/tfjs";
-import * as faceapi from "@vladmandic/face-api";
 import { motion, AnimatePresence } from "framer-motion";
-import { Camera, AlertCircle, RefreshCw, Activity } from "lucide-react";
+import { Camera, AlertCircle, RefreshCw, Activity, HeartPulse, Eye, ScanFace, ShieldCheck, UserRound } from "lucide-react";
+import type { EmotionSignal } from "@/lib/emotionFusion";
+import type { ExpressionProbabilities } from "@/lib/mlModels/ferModel";
+import type { ExpressionModel, FaceAnalysis } from "@/lib/faceInference";
+import { createFaceDetector, type FaceDetector } from "@/lib/faceDetector";
+import { AdaptiveFrameScheduler } from "@/lib/frameScheduler";
+import { inferenceMetrics } from "@/lib/inferenceMetrics";
+import { assessFaceQuality, FACE_QUALITY_HINTS, MIN_FACE_QUALITY, type FaceQuality, type Point } from "@/lib/faceQuality";
+import { PulseTracker, sampleSkinColor, skinRegions, MIN_RPPG_QUALITY } from "@/lib/rppg";
+import { useBiometrics } from "@/context/BiometricContext";
+import {
+  ActionUnitTracker,
+  ACTION_UNIT_NAMES,
+  estimateActionUnits,
+  interpretActionUnits,
+  type ActionUnit,
+  type ActionUnitIntensities,
+  type ActionUnitPattern,
+  type ActionUnitSummary
+} from "@/lib/actionUnits";
+import { ATTENTION_FRAME_INTERVAL, AttentionTracker, attentionSignal, type AttentionState } from "@/lib/attention";
+import { applyFaceBaseline } from "@/lib/faceBaseline";
+import { faceBaselineStore } from "@/lib/faceBaselineStore";
+import { facePrivacy } from "@/lib/facePrivacy";
+import FaceMesh from "./FaceMesh";
 
-export default function FaceDetection({ onEmotionDetected }: { onEmotionDetected?: (data: { emotion: string; confidence: number }) => void }) {
+const MODEL_OPTIONS: { id: ExpressionModel; label: string }[] = [
+  { id: "face-api", label: "Face-API" },
+  { id: "fer", label: "FER" },
+  { id: "compare", label: "Compare" }
+];
+
+const emotionMap: Record<string, string> = {
+  neutral: "Neutral",
+  happy: "Happy",
+  sad: "Sad",
+  angry: "Angry",
+  fearful: "Fearful",
+  disgusted: "Disgusted",
+  surprised: "Surprised"
+};
+
+const RPPG_SAMPLE_INTERVAL = 33; // ms, ~30 fps skin-colour sampling
+const RPPG_LANDMARK_MAX_AGE = 1000; // ms before a lost face restarts the pulse window
+const STABLE_MAX_INTERVAL = 1000; // ms between detections once the face has settled
+const PULSE_MAX_INTERVAL = 400; // keeps landmarks fresh enough for the camera pulse
+
+const SHOWN_ACTION_UNITS = 4;
+const MIN_SHOWN_INTENSITY = 0.2;
+
+const topExpression = (expressions: ExpressionProbabilities) =>
+  Object.entries(expressions).reduce((a, b) => a[1] > b[1] ? a : b);
+
+interface FaceDetectionProps {
+  onEmotionDetected?: (data: EmotionSignal) => void;
+  onActionUnitsDetected?: (data: EmotionSignal, summary: ActionUnitSummary) => void;
+  onAttentionDetected?: (data: EmotionSignal, state: AttentionState) => void;
+}
+
+export default function FaceDetection({ onEmotionDetected, onActionUnitsDetected, onAttentionDetected }: FaceDetectionProps) {
   const webcamRef = useRef<Webcam>(null);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const [detector, setDetector] = useState<FaceDetector | null>(null);
+  const isLoaded = detector !== null;
   const [emotion, setEmotion] = useState<string>("Detecting...");
   const [confidence, setConfidence] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
+  const [expressionModel, setExpressionModel] = useState<ExpressionModel>("face-api");
+  const [ferStatus, setFerStatus] = useState<"idle" | "loading" | "ready" | "unavailable">("idle");
+  const [comparison, setComparison] = useState<{ faceApi: string; fer: string; agreement: number; frames: number } | null>(null);
+  const comparisonStats = useRef({ frames: 0, agreements: 0 });
+  const [quality, setQuality] = useState<FaceQuality | null>(null);
+  const latestLandmarks = useRef<{ points: Point[]; at: number } | null>(null);
+  const { connectionType, signalQuality, bpm, startCameraPulse, disconnect, reportCameraPulse } = useBiometrics();
+  const cameraPulseActive = connectionType === "camera";
+  const onEmotionRef = useRef(onEmotionDetected);
+  const expressionModelRef = useRef(expressionModel);
+  const cameraPulseRef = useRef(cameraPulseActive);
+  const onActionUnitsRef = useRef(onActionUnitsDetected);
+  const actionUnitTracker = useRef<ActionUnitTracker | null>(null);
+  const [actionUnits, setActionUnits] = useState<{ units: ActionUnitIntensities; pattern: ActionUnitPattern } | null>(null);
+  const onAttentionRef = useRef(onAttentionDetected);
+  const attentionTracker = useRef<AttentionTracker | null>(null);
+  const [attention, setAttention] = useState<AttentionState | null>(null);
+  const [hasBaseline, setHasBaseline] = useState(false);
+  const [privacy, setPrivacy] = useState(() => facePrivacy.getState());
+  const [mesh, setMesh] = useState<{ points: Point[]; width: number; height: number } | null>(null);
+  const showAvatar = privacy.settings.enabled && privacy.settings.avatar;
 
   useEffect(() => {
     let isMounted = true;
-    const loadModels = async () => {
-      try {
-        await tf.ready();
-        const MODEL_URL = "/models";
-        
-        // Use tinyFaceDetector for better performance in browser
-        await Promise.all([
-          faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-          faceapi.nets.faceExpressionNet.loadFromUri(MODEL_URL),
-          faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-        ]);
-        
-        if (isMounted) setIsLoaded(true);
-      } catch (err) {
+    let created: FaceDetector | null = null;
+    createFaceDetector()
+      .then(ready => {
+        created = ready;
+        if (isMounted) setDetector(ready);
+        else ready.dispose();
+      })
+      .catch(err => {
         console.error("Face-api models load failed:", err);
         if (isMounted) setError("Neural Models Unavailable. Ensure /public/models contains required face-api data.");
-      }
+      });
+    return () => {
+      isMounted = false;
+      created?.dispose();
     };
-    loadModels();
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+    faceBaselineStore.ready.then(() => {
+      if (isMounted) setHasBaseline(faceBaselineStore.getBaseline() !== null);
+    });
     return () => { isMounted = false; };
   }, []);
 
+  useEffect(() => facePrivacy.subscribe(setPrivacy), []);
+
+  // The detection loop reads these through refs so prop and toggle changes don't restart it
+  useEffect(() => { onEmotionRef.current = onEmotionDetected; }, [onEmotionDetected]);
+  useEffect(() => { expressionModelRef.current = expressionModel; }, [expressionModel]);
+  useEffect(() => { cameraPulseRef.current = cameraPulseActive; }, [cameraPulseActive]);
+  useEffect(() => { onActionUnitsRef.current = onActionUnitsDetected; }, [onActionUnitsDetected]);
+  useEffect(() => { onAttentionRef.current = onAttentionDetected; }, [onAttentionDetected]);
+
+  const selectModel = (model: ExpressionModel) => {
+    setExpressionModel(model);
+    comparisonStats.current = { frames: 0, agreements: 0 };
+    setComparison(null);
+    if (model !== "face-api" && ferStatus === "idle" && detector) {
+      setFerStatus("loading");
+      detector.loadFer().then(available => setFerStatus(available ? "ready" : "unavailable"));
+    }
+  };
+
+  const handleAnalysis = (analysis: FaceAnalysis | null, timestamp: number) => {
+    handleAttention(analysis?.landmarks ?? null, timestamp);
+    if (showAvatar) setMesh(analysis && { points: analysis.landmarks, width: analysis.frameWidth, height: analysis.frameHeight });
+    if (!analysis) {
+      setEmotion("Scanning...");
+      setConfidence(0);
+      setQuality(null);
+      return null;
+    }
+
+    const faceQuality = assessFaceQuality({
+      box: analysis.box,
+      frameWidth: analysis.frameWidth,
+      detectionScore: analysis.score,
+      landmarks: analysis.landmarks,
+      brightness: analysis.brightness
+    });
+    setQuality(faceQuality);
+    latestLandmarks.current = { points: analysis.landmarks, at: timestamp };
+
+    const model = expressionModelRef.current;
+    const ferPrediction = analysis.fer;
+
+    if (model === "compare" && ferPrediction) {
+      const faceApiLabel = topExpression(analysis.expressions)[0];
+      const stats = comparisonStats.current;
+      stats.frames += 1;
+      if (faceApiLabel === ferPrediction.expression) stats.agreements += 1;
+      setComparison({
+        faceApi: emotionMap[faceApiLabel] || "Neutral",
+        fer: emotionMap[ferPrediction.expression] || "Neutral",
+        agreement: Math.round((stats.agreements / stats.frames) * 100),
+        frames: stats.frames
+      });
+    }
+
+    // Own FER model when selected and loaded; in compare mode face-api stays the signal of record.
+    // The user's resting reading for that model is taken out before anything is reported.
+    const baseline = faceBaselineStore.getBaseline();
+    const expressions = model === "fer" && ferPrediction
+      ? applyFaceBaseline(ferPrediction.probabilities, baseline?.fer ?? null)
+      : applyFaceBaseline(analysis.expressions, baseline?.expressions ?? null);
+    const [rawEmotion, score] = topExpression(expressions);
+    const mappedEmotion = emotionMap[rawEmotion] || "Neutral";
+
+    setEmotion(mappedEmotion);
+    setConfidence(Math.round(score * 100));
+
+    // Poor captures are withheld; usable ones count for less the worse they are
+    const onEmotion = onEmotionRef.current;
+    if (onEmotion && score > 0.55 && faceQuality.score >= MIN_FACE_QUALITY) {
+      onEmotion({ 
+        emotion: mappedEmotion, 
+        confidence: score * faceQuality.score,
+        timestamp
+      });
+      facePrivacy.record("face_expression", timestamp);
+    }
+
+    if (faceQuality.score >= MIN_FACE_QUALITY) handleActionUnits(analysis.landmarks, faceQuality.score, timestamp);
+    return mappedEmotion;
+  };
+
+  const handleActionUnits = (landmarks: Point[], qualityScore: number, timestamp: number) => {
+    const reading = estimateActionUnits(landmarks, faceBaselineStore.getBaseline()?.geometry ?? undefined);
+    if (!reading) return;
+
+    if (!actionUnitTracker.current) actionUnitTracker.current = new ActionUnitTracker();
+    const smoothed = actionUnitTracker.current.update(reading, timestamp);
+    const pattern = interpretActionUnits(smoothed);
+    setActionUnits({ units: smoothed.intensities, pattern });
+
+    const onActionUnits = onActionUnitsRef.current;
+    if (onActionUnits) {
+      onActionUnits(
+        { emotion: pattern.label, confidence: pattern.confidence * qualityScore, timestamp },
+        actionUnitTracker.current.summary()
+      );
+      facePrivacy.record("action_units", timestamp);
+    }
+  };
+
+  // Runs on every frame, face or not: losing the face is part of looking away
+  const handleAttention = (landmarks: Point[] | null, timestamp: number) => {
+    if (!attentionTracker.current) attentionTracker.current = new AttentionTracker();
+    const state = attentionTracker.current.update(landmarks, timestamp);
+    setAttention(state);
+
+    const onAttention = onAttentionRef.current;
+    const signal = attentionSignal(state, timestamp);
+    if (onAttention && signal) {
+      onAttention(signal, state);
+      facePrivacy.record("attention", timestamp);
+    }
+  };
+
+  const handleAnalysisRef = useRef(handleAnalysis);
+  useEffect(() => { handleAnalysisRef.current = handleAnalysis; });
+
   useEffect(() => {
-    if (!isLoaded) return;
+    if (!detector) return;
 
-    let interval: NodeJS.Timeout;
+    const scheduler = new AdaptiveFrameScheduler();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
 
     const runDetection = async () => {
-      if (webcamRef.current && webcamRef.current.video?.readyState === 4) {
+      const video = webcamRef.current?.video;
+      if (video && video.readyState === 4) {
         try {
-          const video = webcamRef.current.video;
-
-          const detection = await faceapi
-            .detectSingleFace(video, new faceapi.TinyFaceDetectorOptions({ inputSize: 224, scoreThreshold: 0.4 }))
-            .withFaceExpressions();
-
-          if (detection) {
-            const expressions = detection.expressions;
-            // Filter out expressions with very low probability
-            const bestMatch = Object.entries(expressions).reduce((a, b) => a[1] > b[1] ? a : b);
-
-            const rawEmotion = bestMatch[0];
-            const score = bestMatch[1];
-
-            const emotionMap: Record<string, string> = {
-              neutral: "Neutral",
-              happy: "Happy",
-              sad: "Sad",
-              angry: "Angry",
-              fearful: "Fearful",
-              disgusted: "Disgusted",
-              surprised: "Surprised"
-            };
-
-            const mappedEmotion = emotionMap[rawEmotion] || "Neutral";
-
-            setEmotion(mappedEmotion);
-            setConfidence(Math.round(score * 100));
-
-            if (onEmotionDetected && score > 0.55) {
-              onEmotionDetected({ 
-                emotion: mappedEmotion, 
-                confidence: score,
-                timestamp: Date.now() 
-              });
-            }
-          } else {
-            setEmotion("Scanning...");
-            setConfidence(0);
-          }
+          const started = performance.now();
+          const analysis = await detector.detect(video, expressionModelRef.current);
+          if (stopped) return;
+          const expression = handleAnalysisRef.current(analysis, Date.now());
+
+          const finished = performance.now();
+          scheduler.observe({ faceFound: analysis !== null, expression: expression ?? undefined, box: analysis?.box }, finished - started, finished);
+          inferenceMetrics.report("face", scheduler.stats(finished), detector.runtime);
         } catch (err) {
           console.error("Detection error:", err);
+          // The worker crashed and the main thread could not load the models either
+          if (!detector.available) {
+            if (!stopped) setError("Neural Models Unavailable. Ensure /public/models contains required face-api data.");
+            return;
+          }
         }
       }
+      if (stopped) return;
+      // The camera pulse samples skin between detections and needs recent landmarks;
+      // attention needs every blink, so it holds the fast pace while a consumer is mounted
+      scheduler.setMaxInterval(
+        onAttentionRef.current ? ATTENTION_FRAME_INTERVAL : cameraPulseRef.current ? PULSE_MAX_INTERVAL : STABLE_MAX_INTERVAL
+      );
+      timer = setTimeout(runDetection, scheduler.nextDelay(document.visibilityState === "hidden"));
     };
 
-    interval = setInterval(runDetection, 150); // Doubled frequency for maximum responsiveness
+    // Pick the pace back up as soon as the tab is visible again
+    const handleVisibility = () => {
+      if (document.visibilityState !== "visible" || timer === undefined) return;
+      clearTimeout(timer);
+      timer = undefined;
+      runDetection();
+    };
 
-    return () => clearInterval(interval);
-  }, [isLoaded, onEmotionDetected]);
+    runDetection();
+    document.addEventListener("visibilitychange", handleVisibility);
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      document.removeEventListener("visibilitychange", handleVisibility);
+      inferenceMetrics.clear("face");
+    };
+  }, [detector]);
+
+  // Skin colour is sampled faster than the detector runs, reusing its latest landmarks
+  useEffect(() => {
+    if (!isLoaded || !cameraPulseActive) return;
+
+    const tracker = new PulseTracker();
+    const canvas = document.createElement("canvas");
+
+    const sample = setInterval(() => {
+      const video = webcamRef.current?.video;
+      const landmarks = latestLandmarks.current;
+      if (!video || video.readyState !== 4 || !landmarks || Date.now() - landmarks.at > RPPG_LANDMARK_MAX_AGE) {
+        tracker.reset();
+        return;
+      }
+      const color = sampleSkinColor(video, skinRegions(landmarks.points), canvas);
+      if (color) tracker.push({ t: performance.now(), ...color });
+    }, RPPG_SAMPLE_INTERVAL);
+
+    const estimate = setInterval(() => {
+      const pulse = tracker.estimate();
+      if (!pulse) {
+        reportCameraPulse(null, 0);
+        return;
+      }
+      reportCameraPulse(pulse.quality >= MIN_RPPG_QUALITY ? pulse.bpm : null, pulse.quality);
+      if (pulse.quality >= MIN_RPPG_QUALITY) facePrivacy.record("camera_pulse");
+    }, 1000);
+
+    return () => {
+      clearInterval(sample);
+      clearInterval(estimate);
+    };
+  }, [isLoaded, cameraPulseActive, reportCameraPulse]);
 
   return (
     <div 
@@ -110,25 +339,43 @@ export default function FaceDetection({ onEmotionDetected }: { onEmotionDetected
           </div>
         ) : (
           <>
+            {/* Frames go to the on-device detector only; the avatar hides the image but keeps the feed */}
             <Webcam
               ref={webcamRef}
               audio={false}
-              screenshotFormat="image/jpeg"
               videoConstraints={{
                 width: 640,
                 height: 480,
                 facingMode: "user"
               }}
-              className="absolute inset-0 w-full h-full object-cover grayscale opacity-60 transition-all group-hover:grayscale-0 group-hover:opacity-100"
+              className={`absolute inset-0 w-full h-full object-cover transition-all ${
+                showAvatar ? "opacity-0" : "grayscale opacity-60 group-hover:grayscale-0 group-hover:opacity-100"
+              }`}
             />
+            {showAvatar && mesh && <FaceMesh points={mesh.points} width={mesh.width} height={mesh.height} />}
 
             <div className="absolute top-3 left-3 z-20">
               <div className="px-3 py-1 rounded-full glass-morphism text-[10px] font-bold text-brand-cyan flex items-center gap-1 border border-brand-cyan/20">
-                <div className="w-1.5 h-1.5 rounded-full bg-brand-cyan animate-pulse" />
-                NEURAL FEED ACTIVE
+                {privacy.settings.enabled ? (
+                  <ShieldCheck className="w-3 h-3 text-brand-mint" />
+                ) : (
+                  <div className="w-1.5 h-1.5 rounded-full bg-brand-cyan animate-pulse" />
+                )}
+                {privacy.settings.enabled ? "ON-DEVICE ONLY" : "NEURAL FEED ACTIVE"}
               </div>
             </div>
 
+            {quality && quality.issues.length > 0 && (
+              <div className="absolute top-3 right-3 z-20">
+                <div className={`px-3 py-1 rounded-full glass-morphism text-[10px] font-bold flex items-center gap-1 border ${
+                  quality.score < MIN_FACE_QUALITY ? "text-red-400 border-red-500/30" : "text-yellow-400 border-yellow-500/30"
+                }`}>
+                  <AlertCircle className="w-3 h-3" />
+                  {FACE_QUALITY_HINTS[quality.issues[0]]}
+                </div>
+              </div>
+            )}
+
             <div className="absolute bottom-3 right-3 z-20">
               <AnimatePresence mode="wait">
                 <motion.div
@@ -166,12 +413,157 @@ export default function FaceDetection({ onEmotionDetected }: { onEmotionDetected
         )}
       </div>
 
-      <div className="w-full grid grid-cols-2 gap-4">
+      <div className="w-full flex flex-col gap-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] font-bold text-white/20 uppercase tracking-widest">Expression Model</span>
+          <div className="flex gap-1 p-1 rounded-full bg-white/5 border border-white/5">
+            {MODEL_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => selectModel(option.id)}
+                title={option.id !== "face-api" && ferStatus === "unavailable" ? "FER weights not installed — Face-API is used instead" : undefined}
+                className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${
+                  expressionModel === option.id
+                    ? "bg-brand-cyan text-brand-teal"
+                    : option.id !== "face-api" && ferStatus === "unavailable" ? "text-yellow-400/60 line-through" : "text-white/40 hover:text-brand-cyan"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] font-bold text-white/20 uppercase tracking-widest">Privacy Mode</span>
+          <div className="flex gap-1">
+            {privacy.settings.enabled && (
+              <button
+                onClick={() => facePrivacy.update({ avatar: !privacy.settings.avatar })}
+                className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1 border transition-all ${
+                  privacy.settings.avatar ? "bg-brand-mint/20 text-brand-mint border-brand-mint/30" : "text-white/40 border-white/10 hover:text-brand-mint"
+                }`}
+              >
+                <UserRound className="w-3 h-3" />
+                Avatar
+              </button>
+            )}
+            <button
+              onClick={() => facePrivacy.update({ enabled: !privacy.settings.enabled })}
+              className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1 border transition-all ${
+                privacy.settings.enabled ? "bg-brand-mint/20 text-brand-mint border-brand-mint/30" : "text-white/40 border-white/10 hover:text-brand-mint"
+              }`}
+            >
+              <ShieldCheck className="w-3 h-3" />
+              {privacy.settings.enabled ? "On-device only" : "Off"}
+            </button>
+          </div>
+        </div>
+        {privacy.settings.enabled && (
+          <p className="text-[9px] font-bold uppercase tracking-widest text-white/30">
+            No frames stored or sent • {Object.keys(privacy.audit.signals).length} signal types derived
+            {privacy.audit.blocked.length > 0 && ` • ${privacy.audit.blocked.length} image uploads blocked`}
+          </p>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] font-bold text-white/20 uppercase tracking-widest">Camera Pulse</span>
+          <button
+            onClick={cameraPulseActive ? disconnect : startCameraPulse}
+            className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1 border transition-all ${
+              cameraPulseActive ? "bg-red-500/20 text-red-400 border-red-500/30" : "text-white/40 border-white/10 hover:text-brand-cyan"
+            }`}
+          >
+            <HeartPulse className="w-3 h-3" />
+            {cameraPulseActive
+              ? `${bpm ?? "--"} BPM • Signal ${Math.round((signalQuality ?? 0) * 100)}%`
+              : "Estimate from camera"}
+          </button>
+        </div>
+        {cameraPulseActive && bpm === null && (
+          <p className="text-[9px] font-bold uppercase tracking-widest text-white/30">
+            Hold still in even light — the first reading takes about ten seconds
+          </p>
+        )}
+        {actionUnits && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-[10px] font-bold text-white/20 uppercase tracking-widest">
+              Action Units • <span className="text-brand-mint">{actionUnits.pattern.label}</span>
+            </span>
+            <div className="flex gap-2">
+              {(Object.entries(actionUnits.units) as [ActionUnit, number][])
+                .filter(([, intensity]) => intensity >= MIN_SHOWN_INTENSITY)
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, SHOWN_ACTION_UNITS)
+                .map(([unit, intensity]) => (
+                  <div key={unit} title={ACTION_UNIT_NAMES[unit]} className="flex items-center gap-1">
+                    <span className="text-[9px] font-black text-white/40 tabular-nums">{unit}</span>
+                    <div className="w-8 h-1 rounded-full bg-white/10 overflow-hidden">
+                      <div className="h-full bg-brand-mint" style={{ width: `${Math.round(intensity * 100)}%` }} />
+                    </div>
+                  </div>
+                ))}
+            </div>
+          </div>
+        )}
+        {hasBaseline && (
+          <div className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-brand-mint/70">
+            <ScanFace className="w-3 h-3" />
+            Personal neutral baseline applied
+          </div>
+        )}
+        {attention && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-[10px] font-bold text-white/20 uppercase tracking-widest flex items-center gap-1">
+              <Eye className="w-3 h-3" />
+              Attention • <span className={attention.status === "Engaged" ? "text-brand-mint" : "text-yellow-400"}>{attention.status}</span>
+            </span>
+            <span className="text-[9px] font-black text-white/40 uppercase tracking-widest tabular-nums">
+              Blinks {attention.blinkRate ?? "--"}/min • Eyes closed {Math.round(attention.perclos * 100)}%
+            </span>
+          </div>
+        )}
+        {expressionModel !== "face-api" && ferStatus !== "ready" && (
+          <p className="text-[9px] font-bold uppercase tracking-widest text-yellow-400/80">
+            {ferStatus === "loading"
+              ? "Loading FER model..."
+              : "FER weights not installed at /models/fer/model.json — showing Face-API expressions (see README, Models)"}
+          </p>
+        )}
+        {expressionModel === "compare" && comparison && (
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-2 rounded-lg bg-white/5 border border-white/5">
+              <span className="text-[8px] font-black text-white/20 uppercase tracking-widest block">Face-API</span>
+              <span className="text-xs font-black text-brand-cyan uppercase">{comparison.faceApi}</span>
+            </div>
+            <div className="p-2 rounded-lg bg-white/5 border border-white/5">
+              <span className="text-[8px] font-black text-white/20 uppercase tracking-widest block">FER</span>
+              <span className="text-xs font-black text-brand-mint uppercase">{comparison.fer}</span>
+            </div>
+            <div className="p-2 rounded-lg bg-white/5 border border-white/5">
+              <span className="text-[8px] font-black text-white/20 uppercase tracking-widest block">Agreement</span>
+              <span className="text-xs font-black text-white tabular-nums">{comparison.agreement}% <span className="text-white/20">/ {comparison.frames}</span></span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="w-full grid grid-cols-3 gap-4">
         <div className="p-4 rounded-xl bg-white/5 border border-white/5 relative overflow-hidden">
           <div className="absolute top-0 left-0 w-full h-1 bg-brand-cyan/20" />
           <span className="text-[10px] font-bold text-white/20 uppercase block mb-1 tracking-tighter">Certainty index</span>
           <div className="text-2xl font-black text-brand-cyan tabular-nums tracking-tighter">{confidence}%</div>
         </div>
+        <div className="p-4 rounded-xl bg-white/5 border border-white/5 relative overflow-hidden">
+          <div className="absolute top-0 left-0 w-full h-1 bg-yellow-400/20" />
+          <span className="text-[10px] font-bold text-white/20 uppercase block mb-1 tracking-tighter">Capture quality</span>
+          <div className={`text-2xl font-black tabular-nums tracking-tighter ${
+            !quality ? "text-white/20" : quality.score < MIN_FACE_QUALITY ? "text-red-400" : "text-white"
+          }`}>
+            {quality ? `${Math.round(quality.score * 100)}%` : "--"}
+          </div>
+          {quality && quality.score < MIN_FACE_QUALITY && (
+            <span className="text-[8px] font-black text-red-400/80 uppercase tracking-widest">Reading withheld</span>
+          )}
+        </div>
         <div className="p-4 rounded-xl bg-white/5 border border-white/5 relative overflow-hidden">
           <div className="absolute top-0 left-0 w-full h-1 bg-brand-mint/20" />
           <span className="text-[10px] font-bold text-white/20 uppercase block mb-1 tracking-tighter">Dominant Mood</span>
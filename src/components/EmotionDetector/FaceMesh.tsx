@@ -0,0 +1,53 @@
+"use client";
+
+import type { Point } from "@/lib/faceQuality";
+
+// 68-point contours: [first, last, closed]
+const CONTOURS: [number, number, boolean][] = [
+  [0, 16, false], // jaw
+  [17, 21, false], // brows
+  [22, 26, false],
+  [27, 30, false], // nose bridge
+  [31, 35, false], // nostrils
+  [36, 41, true], // eyes
+  [42, 47, true],
+  [48, 59, true], // outer lips
+  [60, 67, true] // inner lips
+];
+
+interface FaceMeshProps {
+  points: Point[];
+  width: number; // frame size the landmarks were measured in
+  height: number;
+}
+
+// Landmark avatar drawn in place of the camera image in face privacy mode
+export default function FaceMesh({ points, width, height }: FaceMeshProps) {
+  if (points.length < 68) return null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid slice"
+      className="absolute inset-0 w-full h-full"
+    >
+      {CONTOURS.map(([first, last, closed]) => {
+        const path = points.slice(first, last + 1).map(point => `${point.x},${point.y}`).join(" ");
+        const Shape = closed ? "polygon" : "polyline";
+        return (
+          <Shape
+            key={first}
+            points={path}
+            fill="none"
+            stroke="rgba(0, 242, 255, 0.7)"
+            strokeWidth={Math.max(1, width / 320)}
+            strokeLinejoin="round"
+          />
+        );
+      })}
+      {points.map((point, i) => (
+        <circle key={i} cx={point.x} cy={point.y} r={Math.max(1, width / 400)} fill="rgba(0, 255, 204, 0.8)" />
+      ))}
+    </svg>
+  );
+}
@@ -1,7 +1,34 @@
 import { motion, AnimatePresence } from "framer-motion";
-import { useBiometrics } from "@/context/BiometricContext";
+import { useBiometrics, type ConnectionType } from "@/context/BiometricContext";
 import { useEffect, useState, useRef } from "react";
 import { Watch, Activity } from "lucide-react";
+import { classifyHeartRate, type HeartRateZone } from "@/lib/heartRateBaseline";
+import { heartRateBaselineStore } from "@/lib/heartRateBaselineStore";
+import { MIN_RPPG_QUALITY } from "@/lib/rppg";
+
+const CONNECTION_LABELS: Record<ConnectionType, string> = {
+  none: 'DISCONNECTED',
+  manual: 'MANUAL',
+  simulated: 'SIMULATED',
+  camera: 'CAMERA'
+};
+
+const INPUT_MODE_LABELS: Record<ConnectionType, string> = {
+  none: 'None',
+  manual: 'Manual Pulse',
+  simulated: 'Simulated',
+  camera: 'Camera Pulse'
+};
+
+const adviceFor = (zone: HeartRateZone) => {
+  if (zone === "elevated" || zone === "critical") {
+    return "Elevated Heart Rate Detected: High Stress Signal. Initiating calming harmonic overlay.";
+  }
+  if (zone === "low") {
+    return "Low Heart Rate Detected: Deep Relaxation or Lethargy. Adjusting tempo for cognitive engagement.";
+  }
+  return "Heart Rate Nominal: Maintaining current therapeutic resonance.";
+};
 
 export default function HeartRateMonitor({ onHeartRateDetected }: { onHeartRateDetected?: (bpm: number) => void }) {
   const { 
@@ -9,6 +36,7 @@ export default function HeartRateMonitor({ onHeartRateDetected }: { onHeartRateD
     lastUpdated,
     connectionType, 
     isConnected, 
+    signalQuality,
     disconnect, 
     simulate,
     setBpmManual 
@@ -17,6 +45,11 @@ export default function HeartRateMonitor({ onHeartRateDetected }: { onHeartRateD
   const [manualBpm, setManualBpm] = useState<string>("");
   const [advice, setAdvice] = useState<string>("");
   const [isStale, setIsStale] = useState(false);
+  const [baseline, setBaseline] = useState(() => heartRateBaselineStore.getBaseline());
+
+  useEffect(() => {
+    heartRateBaselineStore.ready.then(() => setBaseline(heartRateBaselineStore.getBaseline()));
+  }, []);
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -27,6 +60,15 @@ export default function HeartRateMonitor({ onHeartRateDetected }: { onHeartRateD
     return () => clearInterval(interval);
   }, [lastUpdated]);
 
+  // Camera readings arrive from FaceDetection; each one is reported once, like a manual entry
+  const reportedReading = useRef<number | null>(null);
+  useEffect(() => {
+    if (connectionType !== 'camera' || bpm === null || lastUpdated === null) return;
+    if (reportedReading.current === lastUpdated) return;
+    reportedReading.current = lastUpdated;
+    if (onHeartRateDetected) onHeartRateDetected(bpm);
+  }, [connectionType, bpm, lastUpdated, onHeartRateDetected]);
+
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const val = parseInt(manualBpm);
@@ -38,15 +80,13 @@ export default function HeartRateMonitor({ onHeartRateDetected }: { onHeartRateD
   };
 
   const processBpmRules = (val: number) => {
-    if (val > 100) {
-      setAdvice("Elevated Heart Rate Detected: High Stress Signal. Initiating calming harmonic overlay.");
-    } else if (val < 60) {
-      setAdvice("Low Heart Rate Detected: Deep Relaxation or Lethargy. Adjusting tempo for cognitive engagement.");
-    } else {
-      setAdvice("Heart Rate Nominal: Maintaining current therapeutic resonance.");
-    }
+    setAdvice(adviceFor(classifyHeartRate(val, baseline)));
   };
 
+  const shownAdvice = connectionType === 'camera' && bpm !== null
+    ? adviceFor(classifyHeartRate(bpm, baseline))
+    : advice;
+
   return (
     <div 
       suppressHydrationWarning
@@ -60,7 +100,7 @@ export default function HeartRateMonitor({ onHeartRateDetected }: { onHeartRateD
         <div className="flex items-center gap-2">
           <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-brand-mint shadow-[0_0_8px_#00ffcc]' : 'bg-red-500'}`} />
           <span className="text-[10px] font-bold text-white/40 tracking-widest">
-            {connectionType === 'manual' ? 'MANUAL' : connectionType === 'simulated' ? 'SIMULATED' : 'DISCONNECTED'}
+            {CONNECTION_LABELS[connectionType]}
           </span>
         </div>
       </div>
@@ -132,13 +172,13 @@ export default function HeartRateMonitor({ onHeartRateDetected }: { onHeartRateD
           </form>
 
           <AnimatePresence>
-            {advice && (
+            {shownAdvice && (
               <motion.div
                 initial={{ opacity: 0, x: 20 }}
                 animate={{ opacity: 1, x: 0 }}
                 className="p-4 rounded-xl bg-brand-cyan/10 border border-brand-cyan/20 text-[10px] font-bold text-brand-cyan leading-relaxed uppercase italic"
               >
-                {advice}
+                {shownAdvice}
               </motion.div>
             )}
           </AnimatePresence>
@@ -150,8 +190,15 @@ export default function HeartRateMonitor({ onHeartRateDetected }: { onHeartRateD
           <span className="text-[10px] text-white/30 uppercase tracking-widest">Input Mode</span>
           <span className="text-sm font-bold text-white flex items-center gap-2">
             <Activity className="w-3 h-3 text-brand-cyan" />
-            {connectionType === 'manual' ? 'Manual Pulse' : connectionType === 'simulated' ? 'Simulated' : 'None'}
+            {INPUT_MODE_LABELS[connectionType]}
           </span>
+          {connectionType === 'camera' && (
+            <span className={`text-[9px] font-black uppercase tracking-widest ${
+              (signalQuality ?? 0) >= MIN_RPPG_QUALITY ? 'text-brand-mint' : 'text-yellow-400'
+            }`}>
+              Signal quality {Math.round((signalQuality ?? 0) * 100)}%
+            </span>
+          )}
         </div>
         <div className="p-4 rounded-xl bg-white/5 border border-white/5 flex flex-col gap-1">
           <button 
@@ -171,6 +218,9 @@ export default function HeartRateMonitor({ onHeartRateDetected }: { onHeartRateD
 
       <p className="text-center text-[10px] text-white/20 italic">
         * Manual heart rate entry enables cognitive rules for therapeutic intervention.
+        {baseline.sampleCount > 0
+          ? ` Rules are relative to your resting baseline of ${baseline.restingBpm} BPM (${baseline.sampleCount} readings).`
+          : " Using population defaults until enough readings build your personal baseline."}
       </p>
     </div>
   );
@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Webcam from "react-webcam";
+import { CheckCircle2, RefreshCw, ScanFace } from "lucide-react";
+import { createFaceDetector, type FaceDetector } from "@/lib/faceDetector";
+import { assessFaceQuality, FACE_QUALITY_HINTS, MIN_FACE_QUALITY, type FaceQuality } from "@/lib/faceQuality";
+import { CALIBRATION_DURATION, computeFaceBaseline, type BaselineFrame, type FaceBaseline } from "@/lib/faceBaseline";
+import { faceBaselineStore } from "@/lib/faceBaselineStore";
+import { facePrivacy } from "@/lib/facePrivacy";
+import type { Point } from "@/lib/faceQuality";
+import FaceMesh from "./FaceMesh";
+
+const CALIBRATION_FRAME_INTERVAL = 150; // ms
+
+type CalibrationPhase = "idle" | "capturing" | "done" | "failed";
+
+// Captures a few seconds of the user's resting face so FaceDetection can subtract it
+export default function NeutralCalibration() {
+  const webcamRef = useRef<Webcam>(null);
+  const [detector, setDetector] = useState<FaceDetector | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [phase, setPhase] = useState<CalibrationPhase>("idle");
+  const [progress, setProgress] = useState(0);
+  const [quality, setQuality] = useState<FaceQuality | null>(null);
+  const [existing, setExisting] = useState<FaceBaseline | null>(null);
+  const [privacy, setPrivacy] = useState(() => facePrivacy.getState());
+  const [mesh, setMesh] = useState<{ points: Point[]; width: number; height: number } | null>(null);
+  const showAvatar = privacy.settings.enabled && privacy.settings.avatar;
+
+  useEffect(() => {
+    let isMounted = true;
+    faceBaselineStore.ready.then(() => {
+      if (isMounted) setExisting(faceBaselineStore.getBaseline());
+    });
+    return () => { isMounted = false; };
+  }, []);
+
+  useEffect(() => facePrivacy.subscribe(setPrivacy), []);
+
+  useEffect(() => {
+    let isMounted = true;
+    let created: FaceDetector | null = null;
+    createFaceDetector()
+      .then(async ready => {
+        created = ready;
+        if (!isMounted) return ready.dispose();
+        // The FER model gets its own baseline when it is present
+        await ready.loadFer();
+        if (isMounted) setDetector(ready);
+      })
+      .catch(err => {
+        console.error("Calibration models load failed:", err);
+        if (isMounted) setError("Neural Models Unavailable. Ensure /public/models contains required face-api data.");
+      });
+    return () => {
+      isMounted = false;
+      created?.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!detector || phase !== "capturing") return;
+
+    const frames: BaselineFrame[] = [];
+    const started = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const capture = async () => {
+      const video = webcamRef.current?.video;
+      if (video && video.readyState === 4) {
+        try {
+          const analysis = await detector.detect(video, "compare");
+          if (stopped) return;
+          setMesh(analysis && { points: analysis.landmarks, width: analysis.frameWidth, height: analysis.frameHeight });
+          if (analysis) {
+            const faceQuality = assessFaceQuality({
+              box: analysis.box,
+              frameWidth: analysis.frameWidth,
+              detectionScore: analysis.score,
+              landmarks: analysis.landmarks,
+              brightness: analysis.brightness
+            });
+            setQuality(faceQuality);
+            // Only clean frames describe the resting face
+            if (faceQuality.score >= MIN_FACE_QUALITY) {
+              frames.push({ expressions: analysis.expressions, fer: analysis.fer?.probabilities, landmarks: analysis.landmarks });
+            }
+          }
+        } catch (err) {
+          console.error("Calibration frame error:", err);
+        }
+      }
+      if (stopped) return;
+
+      const elapsed = Date.now() - started;
+      setProgress(Math.min(1, elapsed / CALIBRATION_DURATION));
+      if (elapsed < CALIBRATION_DURATION) {
+        timer = setTimeout(capture, CALIBRATION_FRAME_INTERVAL);
+        return;
+      }
+
+      const baseline = computeFaceBaseline(frames);
+      if (!baseline) {
+        setPhase("failed");
+        return;
+      }
+      await faceBaselineStore.save(baseline);
+      facePrivacy.record("face_baseline");
+      setExisting(baseline);
+      setPhase("done");
+    };
+
+    capture();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [detector, phase]);
+
+  const startCapture = () => {
+    setProgress(0);
+    setQuality(null);
+    setPhase("capturing");
+  };
+
+  const clearBaseline = async () => {
+    await faceBaselineStore.clear();
+    setExisting(null);
+    setPhase("idle");
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 md:gap-6 p-4 md:p-6 glass-morphism border border-white/10 w-full max-w-2xl">
+      <div className="relative w-full h-[180px] md:h-[320px] bg-black rounded-2xl overflow-hidden border border-white/10">
+        {!detector && !error ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-brand-teal/50 backdrop-blur-md z-40">
+            <RefreshCw className="w-8 h-8 text-brand-cyan animate-spin mb-4" />
+            <span className="text-xs font-bold text-brand-cyan tracking-widest uppercase">Initializing Bio-Scanner...</span>
+          </div>
+        ) : (
+          <Webcam
+            ref={webcamRef}
+            audio={false}
+            videoConstraints={{ width: 640, height: 480, facingMode: "user" }}
+            className={`absolute inset-0 w-full h-full object-cover ${showAvatar ? "opacity-0" : "grayscale opacity-60"}`}
+          />
+        )}
+        {showAvatar && mesh && <FaceMesh points={mesh.points} width={mesh.width} height={mesh.height} />}
+
+        {phase === "capturing" && (
+          <div className="absolute bottom-0 left-0 w-full h-1.5 bg-white/10 z-20">
+            <div className="h-full bg-brand-cyan transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        )}
+
+        {phase === "capturing" && quality && quality.issues.length > 0 && (
+          <div className="absolute top-3 right-3 z-20 px-3 py-1 rounded-full glass-morphism text-[10px] font-bold text-yellow-400 border border-yellow-500/30">
+            {FACE_QUALITY_HINTS[quality.issues[0]]}
+          </div>
+        )}
+
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center bg-red-900/40 backdrop-blur-md z-50 p-8 text-center">
+            <p className="font-bold text-sm tracking-tight text-white">{error}</p>
+          </div>
+        )}
+      </div>
+
+      <p className="text-[10px] text-white/40 leading-relaxed font-bold uppercase tracking-widest text-center">
+        {phase === "capturing"
+          ? "Relax your face and look at the camera..."
+          : phase === "failed"
+            ? "Couldn't see your face clearly enough — try again in better light"
+            : "Relax your face and look at the camera for five seconds so we can learn your resting expression"}
+      </p>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={startCapture}
+          disabled={!detector || phase === "capturing"}
+          className="px-6 py-3 rounded-2xl bg-brand-cyan text-brand-teal font-black text-xs uppercase tracking-widest flex items-center gap-2 disabled:opacity-30 transition-all"
+        >
+          <ScanFace className="w-4 h-4" />
+          {existing ? "Recalibrate" : "Capture Neutral Face"}
+        </button>
+        {existing && phase !== "capturing" && (
+          <button
+            onClick={clearBaseline}
+            className="px-4 py-3 rounded-2xl border border-white/10 text-white/40 font-black text-[10px] uppercase tracking-widest hover:text-red-400 transition-all"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {existing && phase !== "capturing" && (
+        <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-brand-mint">
+          <CheckCircle2 className="w-4 h-4" />
+          Baseline from {existing.frames} frames{existing.fer ? " • FER included" : ""}
+        </div>
+      )}
+    </div>
+  );
+}
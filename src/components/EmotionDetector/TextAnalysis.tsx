@@ -4,17 +4,19 @@ import { useState, useRef, useEffect } from "react";
 import { MessageSquare, Send, BrainCircuit } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { detectCrisis } from "@/lib/clinicalSafety";
+import { analyzeTextEmotion, type TextEmotionResult } from "@/lib/textEmotion";
 import CrisisAlertModal from "@/components/CrisisAlertModal";
 
 export default function TextAnalysis({
   onTextEmotionDetected,
 }: {
-  onTextEmotionDetected?: (emotion: string) => void;
+  onTextEmotionDetected?: (emotion: string, confidence: number | null, scores: TextEmotionResult["scores"]) => void;
 }) {
 
   const [text, setText] = useState("");
   const [emotion, setEmotion] = useState<string | null>(null);
   const [confidence, setConfidence] = useState<number | null>(null);
+  const [scores, setScores] = useState<TextEmotionResult["scores"]>(null);
   const [engine, setEngine] = useState<string>("NEURAL NLP");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isCrisisModalOpen, setIsCrisisModalOpen] = useState(false);
@@ -41,150 +43,20 @@ export default function TextAnalysis({
 
     try {
 
-      const res = await fetch("/api/emotion/text", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({ text }),
-        signal: abortControllerRef.current.signal
-      });
+      const result = await analyzeTextEmotion(text, abortControllerRef.current.signal);
 
-      const data = await res.json();
-
-      console.log("API response:", data);
-
-      if (!res.ok || data.error) {
-        throw new Error(data.error || "Neural analysis failed");
-      }
-
-      const result = data.result;
-
-      if (!result) {
-        throw new Error("Incomplete result data");
-      }
-
-      const label = result.label;
-      const score = result.score;
-
-      setConfidence(Math.round(score * 100));
-      setEngine(result.engine || "NEURAL NLP");
-
-      const emotionMap: Record<string, string> = {
-        POSITIVE: "Happy",
-        NEGATIVE: "Sad",
-        sadness: "Sad",
-        joy: "Happy",
-        love: "Love",
-        anger: "Angry",
-        fear: "Anxious",
-        surprise: "Surprised"
-      };
-
-      let finalEmotion = emotionMap[label] || "Neutral";
-
-      // Refinement: If logic is NEGATIVE but contains anger keywords, promote to Angry
-      if (finalEmotion === "Sad") {
-        const angerKeywords = ["angry", "mad", "hate", "frustrated", "annoyed", "furious", "stupid"];
-        if (angerKeywords.some(word => text.toLowerCase().includes(word))) {
-          finalEmotion = "Angry";
-        }
-      }
-
-      setEmotion(finalEmotion);
+      setEmotion(result.emotion);
+      setConfidence(result.confidence === null ? null : Math.round(result.confidence * 100));
+      setEngine(result.engine);
+      setScores(result.scores);
 
       if (onTextEmotionDetected) {
-        onTextEmotionDetected(finalEmotion);
+        onTextEmotionDetected(result.emotion, result.confidence, result.scores);
       }
 
     } catch (err: any) {
       if (err.name === 'AbortError') return;
-      console.error("Neural NLP Error. Accessing Lexical Guardrails.", err);
-
-      const input = text.toLowerCase();
-      let fallbackEmotion = "Equilibrium";
-
-      const keywordMap: Array<{ words: string[]; emotion: string }> = [
-
-        {
-          words: [
-            "happy",
-            "joy",
-            "wonderful",
-            "great",
-            "excited",
-            "love",
-            "good",
-            "best",
-            "amazing"
-          ],
-          emotion: "Happy"
-        },
-
-        {
-          words: [
-            "sad",
-            "unhappy",
-            "overwhelmed",
-            "alone",
-            "cry",
-            "depressed",
-            "miserable"
-          ],
-          emotion: "Sad"
-        },
-
-        {
-          words: [
-            "angry",
-            "mad",
-            "annoyed",
-            "frustrated",
-            "hate",
-            "furious"
-          ],
-          emotion: "Angry"
-        },
-
-        {
-          words: [
-            "scared",
-            "fear",
-            "anxious",
-            "worried",
-            "nervous",
-            "panic"
-          ],
-          emotion: "Anxious"
-        },
-
-        {
-          words: [
-            "surprise",
-            "wow",
-            "unbelievable"
-          ],
-          emotion: "Surprised"
-        }
-      ];
-
-      for (const group of keywordMap) {
-
-        if (group.words.some(word => input.includes(word))) {
-          fallbackEmotion = group.emotion;
-          break;
-        }
-
-      }
-
-      setEmotion(fallbackEmotion);
-      setConfidence(null);
-      setEngine("LEXICAL_ENGINE_v1");
-
-      if (onTextEmotionDetected) {
-        onTextEmotionDetected(fallbackEmotion);
-      }
-
+      console.error("Text analysis failed:", err);
     } finally {
 
       setIsAnalyzing(false);
@@ -266,6 +138,16 @@ export default function TextAnalysis({
               </span>
             )}
 
+            {scores && (
+              <span className="text-white/50 text-xs">
+                {Object.entries(scores)
+                  .sort((a, b) => b[1] - a[1])
+                  .slice(0, 3)
+                  .map(([name, score]) => `${name} ${Math.round(score * 100)}%`)
+                  .join(" • ")}
+              </span>
+            )}
+
             <span className="text-white/40 text-xs">
               Source: {engine}
             </span>
@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CheckCircle2, Mic, Square } from "lucide-react";
+import { VoiceFeatureExtractor } from "@/lib/voiceFeatures";
+import { UtteranceSegmenter, type Utterance } from "@/lib/voiceActivity";
+import { CALIBRATION_SPEECH, computeVoiceBaseline, READING_PASSAGE, type VoiceBaseline } from "@/lib/voiceBaseline";
+import { voiceBaselineStore } from "@/lib/voiceBaselineStore";
+
+const FFT_SIZE = 2048;
+const MAX_CALIBRATION_TIME = 45000; // ms before giving up on reaching enough speech
+
+type CalibrationPhase = "idle" | "recording" | "done" | "failed";
+
+interface Microphone {
+  id: string;
+  label: string;
+}
+
+// Records a neutral reading of a short passage so VoiceDetection can judge the
+// user's voice against itself on this microphone
+export default function VoiceCalibration() {
+  const [phase, setPhase] = useState<CalibrationPhase>("idle");
+  const [progress, setProgress] = useState(0);
+  const [microphone, setMicrophone] = useState<Microphone | null>(null);
+  const [existing, setExisting] = useState<VoiceBaseline | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+  const finishEarlyRef = useRef<(() => void) | null>(null);
+  useEffect(() => {
+    let isMounted = true;
+    voiceBaselineStore.ready.then(() => {
+      const saved = voiceBaselineStore.list();
+      if (isMounted && saved.length > 0) setExisting(saved[saved.length - 1]);
+    });
+    return () => {
+      isMounted = false;
+      stopRef.current?.();
+    };
+  }, []);
+
+  const finish = async (utterances: Utterance[], device: Microphone) => {
+    const baseline = computeVoiceBaseline(utterances, device);
+    if (!baseline) {
+      setPhase("failed");
+      return;
+    }
+    await voiceBaselineStore.save(baseline);
+    setExisting(baseline);
+    setPhase("done");
+  };
+
+  const startCalibration = async () => {
+    setError(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      setError("Microphone access is needed to calibrate your voice.");
+      return;
+    }
+
+    const track = stream.getAudioTracks()[0];
+    const device = { id: track.getSettings().deviceId || "default", label: track.label };
+    setMicrophone(device);
+    setExisting(voiceBaselineStore.getBaseline(device.id));
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = FFT_SIZE;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+
+    const extractor = new VoiceFeatureExtractor(audioContext.sampleRate);
+    const segmenter = new UtteranceSegmenter();
+    const frame = new Float32Array(analyser.fftSize);
+    const utterances: Utterance[] = [];
+    const started = Date.now();
+    let animationFrame = 0;
+    let speechMs = 0;
+
+    const stop = () => {
+      cancelAnimationFrame(animationFrame);
+      stream.getTracks().forEach(t => t.stop());
+      audioContext.close();
+      stopRef.current = null;
+      finishEarlyRef.current = null;
+    };
+
+    const complete = () => {
+      const pending = segmenter.flush(Date.now());
+      if (pending) utterances.push(pending);
+      stop();
+      finish(utterances, device);
+    };
+
+    const listen = () => {
+      const now = Date.now();
+      analyser.getFloatTimeDomainData(frame);
+      const utterance = segmenter.push(extractor.push(frame, now));
+      if (utterance) {
+        utterances.push(utterance);
+        speechMs += utterance.end - utterance.start;
+        setProgress(Math.min(1, speechMs / CALIBRATION_SPEECH));
+      }
+      if (speechMs >= CALIBRATION_SPEECH || now - started >= MAX_CALIBRATION_TIME) {
+        complete();
+        return;
+      }
+      animationFrame = requestAnimationFrame(listen);
+    };
+
+    setProgress(0);
+    setPhase("recording");
+    stopRef.current = () => {
+      stop();
+      setPhase("idle");
+    };
+    // Reading aloud can stop early; whatever was said may already be enough
+    finishEarlyRef.current = complete;
+    animationFrame = requestAnimationFrame(listen);
+  };
+
+  const clearBaseline = async () => {
+    if (!existing) return;
+    await voiceBaselineStore.clear(existing.deviceId);
+    setExisting(null);
+    setPhase("idle");
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 md:gap-6 p-4 md:p-6 glass-morphism border border-white/10 w-full max-w-2xl">
+      <div className="relative w-full p-5 md:p-6 rounded-2xl bg-black/40 border border-white/10 overflow-hidden">
+        <p className={`text-sm md:text-base leading-relaxed text-left transition-all ${phase === "recording" ? "text-white" : "text-white/50"}`}>
+          {READING_PASSAGE}
+        </p>
+        {phase === "recording" && (
+          <div className="absolute bottom-0 left-0 w-full h-1.5 bg-white/10">
+            <div className="h-full bg-brand-cyan transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        )}
+      </div>
+
+      <p className="text-[10px] text-white/40 leading-relaxed font-bold uppercase tracking-widest text-center">
+        {error
+          ? error
+          : phase === "recording"
+            ? "Read the passage aloud in your normal speaking voice..."
+            : phase === "failed"
+              ? "Not enough clear speech was heard — try again a little closer to the microphone"
+              : "Read the passage in your normal voice so we can learn how you sound on this microphone"}
+      </p>
+
+      <div className="flex items-center gap-3">
+        {phase === "recording" ? (
+          <button
+            onClick={() => finishEarlyRef.current?.()}
+            className="px-6 py-3 rounded-2xl bg-red-500/20 text-red-400 font-black text-xs uppercase tracking-widest flex items-center gap-2 transition-all"
+          >
+            <Square className="w-4 h-4" />
+            Finished Reading
+          </button>
+        ) : (
+          <button
+            onClick={startCalibration}
+            className="px-6 py-3 rounded-2xl bg-brand-cyan text-brand-teal font-black text-xs uppercase tracking-widest flex items-center gap-2 transition-all"
+          >
+            <Mic className="w-4 h-4" />
+            {existing ? "Recalibrate Voice" : "Record Neutral Voice"}
+          </button>
+        )}
+        {existing && phase !== "recording" && (
+          <button
+            onClick={clearBaseline}
+            className="px-4 py-3 rounded-2xl border border-white/10 text-white/40 font-black text-[10px] uppercase tracking-widest hover:text-red-400 transition-all"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {existing && phase !== "recording" && (
+        <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-brand-mint">
+          <CheckCircle2 className="w-4 h-4" />
+          Voice baseline from {Math.round(existing.speechMs / 1000)}s of speech
+          {(microphone?.label || existing.deviceLabel) ? ` • ${microphone?.label || existing.deviceLabel}` : ""}
+        </div>
+      )}
+    </div>
+  );
+}
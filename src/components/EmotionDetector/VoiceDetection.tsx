@@ -1,83 +1,338 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { Mic, MicOff, BarChart2, Activity } from "lucide-react";
+import { Mic, MicOff, BarChart2, Cloud, Captions, Wind } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { MEL_FILTERS, VoiceFeatureExtractor, type VoiceFeatures } from "@/lib/voiceFeatures";
+import { UtteranceSegmenter, utteranceSignal, vocalIntensity, type Utterance } from "@/lib/voiceActivity";
+import { classifyVoice, loadVoiceModel, SILENT_LABEL, type VoiceModel } from "@/lib/mlModels/voiceModel";
+import { AudioHistory } from "@/lib/audioClip";
+import { CloudProsodyClient, MAX_CLOUD_CLIP, prosodySignal, type CloudProsodyStatus } from "@/lib/humeProsody";
+import { createSpeechRecognizer, type SpeechRecognizer } from "@/lib/speechRecognizer";
+import { analyzeTextEmotion, type TextEmotionResult } from "@/lib/textEmotion";
+import type { VoiceBaseline } from "@/lib/voiceBaseline";
+import { voiceBaselineStore } from "@/lib/voiceBaselineStore";
+import { breathLevel, IRREGULAR_BREATHING, MIN_RESPIRATION_QUALITY, RespirationTracker } from "@/lib/respiration";
+import { useBiometrics } from "@/context/BiometricContext";
+import { detectCrisis } from "@/lib/clinicalSafety";
+import type { EmotionSignal } from "@/lib/emotionFusion";
+import CrisisAlertModal from "@/components/CrisisAlertModal";
 
-export default function VoiceDetection({ onVoiceEmotionDetected }: { onVoiceEmotionDetected?: (emotion: string) => void }) {
+const FFT_SIZE = 2048; // ~43 ms at 48 kHz: several glottal cycles even for low voices
+const DISPLAY_INTERVAL = 100; // ms between meter redraws
+const BAND_FLOOR = -10; // log mel energy shown as an empty bar
+const BAND_RANGE = 20;
+const RESPIRATION_INTERVAL = 2000; // ms between respiration estimates
+const CAPTURE_BUFFER = 4096; // samples per raw-audio callback
+
+const MAX_TRANSCRIPT = 600; // characters of the check-in kept for text analysis
+
+type TranscriptStatus = "off" | "loading" | "ready" | "unavailable";
+
+const TRANSCRIPT_STATUS_LABELS: Record<TranscriptStatus, string> = {
+  off: "Off",
+  loading: "Loading model",
+  ready: "Whisper",
+  unavailable: "Unavailable"
+};
+
+const CLOUD_STATUS_LABELS: Record<CloudProsodyStatus, string> = {
+  idle: "Off",
+  connecting: "Connecting",
+  open: "Hume",
+  error: "Unavailable",
+  closed: "Off"
+};
+
+// Emits one signal per utterance found by the voice activity detector and, once
+// the user opts in, transcribes each utterance so the check-in also yields a text emotion
+export default function VoiceDetection({ onVoiceEmotionDetected, onTextEmotionDetected }: {
+  onVoiceEmotionDetected?: (signal: EmotionSignal) => void;
+  onTextEmotionDetected?: (emotion: string, confidence: number | null, transcript: string) => void;
+}) {
   const [isRecording, setIsRecording] = useState(false);
   const [volume, setVolume] = useState(0);
+  const [bands, setBands] = useState<number[]>(() => new Array(MEL_FILTERS).fill(0));
   const [emotion, setEmotion] = useState("Calm");
+  const [confidence, setConfidence] = useState(0);
+  const [features, setFeatures] = useState<VoiceFeatures | null>(null);
+  const [speaking, setSpeaking] = useState(false);
+  const [utterances, setUtterances] = useState(0);
+  const [cloudMode, setCloudMode] = useState(false);
+  const [cloudStatus, setCloudStatus] = useState<CloudProsodyStatus>("idle");
+  const [source, setSource] = useState<"local" | "cloud">("local");
+  const [transcribing, setTranscribing] = useState(false);
+  const [transcriptStatus, setTranscriptStatus] = useState<TranscriptStatus>("off");
+  const [transcript, setTranscript] = useState("");
+  const [textEmotion, setTextEmotion] = useState<TextEmotionResult | null>(null);
+  const [isCrisisModalOpen, setIsCrisisModalOpen] = useState(false);
+  const [baselineApplied, setBaselineApplied] = useState(false);
+  const { respirationRate, respirationRegularity, respirationQuality, reportRespiration } = useBiometrics();
   const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const modelRef = useRef<VoiceModel | null>(null);
+  const baselineRef = useRef<VoiceBaseline | null>(null);
+  const segmenterRef = useRef<UtteranceSegmenter | null>(null);
+  const historyRef = useRef<AudioHistory | null>(null);
+  const cloudRef = useRef<CloudProsodyClient | null>(null);
+  const recognizerRef = useRef<Promise<SpeechRecognizer> | null>(null);
+  const transcriptRef = useRef("");
+  const transcribingRef = useRef(transcribing);
+  const textAbortRef = useRef<AbortController | null>(null);
+  const onVoiceEmotionDetectedRef = useRef(onVoiceEmotionDetected);
+  const onTextEmotionDetectedRef = useRef(onTextEmotionDetected);
+
+  useEffect(() => {
+    onVoiceEmotionDetectedRef.current = onVoiceEmotionDetected;
+    onTextEmotionDetectedRef.current = onTextEmotionDetected;
+  }, [onVoiceEmotionDetected, onTextEmotionDetected]);
+
+  // Read from the audio loop, which keeps the closure it started with
+  useEffect(() => {
+    transcribingRef.current = transcribing;
+  }, [transcribing]);
+
+  // The breathing channel goes quiet with the panel
+  useEffect(() => () => reportRespiration(null, null, null), [reportRespiration]);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadVoiceModel().then(model => {
+      if (isMounted) modelRef.current = model;
+    });
+    return () => {
+      isMounted = false;
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      audioContextRef.current?.close();
+      cloudRef.current?.close();
+      textAbortRef.current?.abort();
+      recognizerRef.current?.then(recognizer => recognizer.dispose(), () => {});
+    };
+  }, []);
+
+  // Whisper loads on first use and is kept for later recordings
+  const loadRecognizer = () => {
+    if (!recognizerRef.current) {
+      setTranscriptStatus("loading");
+      recognizerRef.current = createSpeechRecognizer();
+      recognizerRef.current.then(
+        () => setTranscriptStatus("ready"),
+        err => {
+          console.warn("[VoiceDetection] Speech-to-text unavailable:", err);
+          recognizerRef.current = null;
+          setTranscriptStatus("unavailable");
+        }
+      );
+    }
+    return recognizerRef.current;
+  };
+
+  const toggleTranscribing = () => {
+    if (!transcribing && isRecording) loadRecognizer();
+    setTranscribing(!transcribing);
+  };
+
+  // The whole check-in so far goes through crisis screening and text emotion,
+  // since single utterances are often too short to read
+  const handleTranscript = async (text: string) => {
+    if (!text) return;
+    const previous = transcriptRef.current;
+    const full = `${previous} ${text}`.trim().slice(-MAX_TRANSCRIPT);
+    transcriptRef.current = full;
+    setTranscript(full);
+
+    if (detectCrisis(full) && !detectCrisis(previous)) {
+      setIsCrisisModalOpen(true);
+    }
+
+    textAbortRef.current?.abort();
+    const controller = new AbortController();
+    textAbortRef.current = controller;
+    try {
+      const result = await analyzeTextEmotion(full, controller.signal);
+      setTextEmotion(result);
+      onTextEmotionDetectedRef.current?.(result.emotion, result.confidence, full);
+    } catch (err) {
+      if (!(err instanceof Error && err.name === "AbortError")) console.error("Transcript analysis failed:", err);
+    }
+  };
+
+  const startCloud = () => {
+    const client = new CloudProsodyClient({ onStatus: status => setCloudStatus(status) });
+    cloudRef.current = client;
+    client.connect().catch(err => console.warn("[CloudProsody] Falling back to on-device prosody:", err));
+  };
+
+  const stopCloud = () => {
+    cloudRef.current?.close();
+    cloudRef.current = null;
+    setCloudStatus("idle");
+  };
+
+  const toggleCloud = () => {
+    if (cloudMode) stopCloud();
+    else if (isRecording) startCloud();
+    setCloudMode(!cloudMode);
+  };
 
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
+
+      // Baselines are per microphone: gain and frequency response differ between devices
+      await voiceBaselineStore.ready;
+      const deviceId = stream.getAudioTracks()[0]?.getSettings().deviceId || "default";
+      baselineRef.current = voiceBaselineStore.getBaseline(deviceId);
+      setBaselineApplied(baselineRef.current !== null);
       
       const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
       const analyser = audioContext.createAnalyser();
       const source = audioContext.createMediaStreamSource(stream);
       source.connect(analyser);
       
-      analyser.fftSize = 256;
+      analyser.fftSize = FFT_SIZE;
       audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
       setIsRecording(true);
 
-      const updateVolume = () => {
-        const dataArray = new Uint8Array(analyser.frequencyBinCount);
-        analyser.getByteFrequencyData(dataArray);
-        
-        let sum = 0;
-        let frequencyVariance = 0;
-        for (let i = 0; i < dataArray.length; i++) {
-          sum += dataArray[i];
-          if (i > 0) frequencyVariance += Math.abs(dataArray[i] - dataArray[i-1]);
-        }
-        const average = sum / dataArray.length;
-        const jitter = frequencyVariance / dataArray.length;
-        
-        setVolume(average);
-
-        // Prosody analysis based on Energy (volume) + Jitter (spectral change)
-        if (average > 10) {
-          if (jitter > 30 && average > 40) {
-            setEmotion("Excited");
-          } else if (jitter > 20) {
-            setEmotion("Stressed");
-          } else if (average > 30) {
-            setEmotion("Energetic");
-          } else {
-            setEmotion("Calm");
-          }
-          
-          if (onVoiceEmotionDetected) {
-            const currentEmotion = average > 40 && jitter > 30 ? "Excited" : (jitter > 20 ? "Stressed" : "Calm");
-            onVoiceEmotionDetected(currentEmotion);
+      // Raw audio is kept briefly so whole utterances can go to cloud prosody
+      const history = new AudioHistory(audioContext.sampleRate);
+      historyRef.current = history;
+      const capture = audioContext.createScriptProcessor(CAPTURE_BUFFER, 1, 1);
+      const mute = audioContext.createGain();
+      mute.gain.value = 0;
+      capture.onaudioprocess = event => history.push(event.inputBuffer.getChannelData(0), Date.now());
+      source.connect(capture);
+      capture.connect(mute);
+      mute.connect(audioContext.destination);
+      if (cloudMode) startCloud();
+      transcriptRef.current = "";
+      setTranscript("");
+      setTextEmotion(null);
+      if (transcribing) loadRecognizer();
+
+      const extractor = new VoiceFeatureExtractor(audioContext.sampleRate);
+      const segmenter = new UtteranceSegmenter();
+      segmenterRef.current = segmenter;
+      const frame = new Float32Array(analyser.fftSize);
+      // Breath sounds are only audible, and only unambiguous, between utterances
+      const breathing = new RespirationTracker();
+      let lastDisplay = 0;
+      let lastRespiration = 0; // set on the first tick so the first estimate waits a full interval
+
+      const analyze = () => {
+        const now = Date.now();
+        if (!lastRespiration) lastRespiration = now;
+        analyser.getFloatTimeDomainData(frame);
+        const current = extractor.push(frame, now);
+        const utterance = segmenter.push(current);
+        if (utterance) handleUtterance(utterance);
+        if (!segmenter.isSpeaking() && current.f0 === null) breathing.push({ t: now, level: breathLevel(current) });
+
+        if (now - lastRespiration >= RESPIRATION_INTERVAL) {
+          lastRespiration = now;
+          const estimate = breathing.estimate();
+          if (estimate) {
+            const trusted = estimate.quality >= MIN_RESPIRATION_QUALITY;
+            reportRespiration(trusted ? estimate.rate : null, trusted ? estimate.regularity : null, estimate.quality);
           }
-        } else {
-          setEmotion("Silent");
         }
 
-        animationFrameRef.current = requestAnimationFrame(updateVolume);
+        if (now - lastDisplay >= DISPLAY_INTERVAL) {
+          lastDisplay = now;
+          setVolume(vocalIntensity(current.energy));
+          setBands(current.melEnergies.map(band => Math.max(0, Math.min(1, (band - BAND_FLOOR) / BAND_RANGE))));
+          setSpeaking(segmenter.isSpeaking());
+        }
+
+        animationFrameRef.current = requestAnimationFrame(analyze);
       };
-      updateVolume();
+      animationFrameRef.current = requestAnimationFrame(analyze);
     } catch (err) {
       console.error("Error accessing microphone:", err);
     }
   };
 
+  const emit = (signal: EmotionSignal, from: "local" | "cloud") => {
+    setEmotion(signal.emotion);
+    setConfidence(signal.confidence);
+    setSource(from);
+    onVoiceEmotionDetectedRef.current?.(signal);
+  };
+
+  // Cloud prosody is preferred when it answers; the on-device label stands in otherwise
+  const handleUtterance = (utterance: Utterance) => {
+    const prediction = classifyVoice(utterance.features, modelRef.current ?? undefined, baselineRef.current);
+    setFeatures(utterance.features);
+    if (prediction.label === SILENT_LABEL) {
+      setEmotion(prediction.label);
+      return;
+    }
+    setUtterances(count => count + 1);
+    const local = utteranceSignal(utterance, prediction);
+
+    const history = historyRef.current;
+    const recognizer = recognizerRef.current;
+    if (transcribingRef.current && recognizer && history) {
+      const clip = history.slice(utterance.start, utterance.end);
+      recognizer
+        .then(ready => ready.transcribe(clip, history.sampleRate))
+        .then(handleTranscript)
+        .catch(err => {
+          console.warn("[VoiceDetection] Transcription failed:", err);
+          // A recognizer that lost its worker and could not reload is dropped; the toggle retries
+          recognizer.then(ready => {
+            if (ready.available || recognizerRef.current !== recognizer) return;
+            recognizerRef.current = null;
+            setTranscriptStatus("unavailable");
+          }, () => {});
+        });
+    }
+
+    const cloud = cloudRef.current;
+    if (!cloud || cloud.status !== "open" || !history) {
+      emit(local, "local");
+      return;
+    }
+    const clip = history.slice(utterance.start, utterance.end, MAX_CLOUD_CLIP);
+    cloud.analyze(clip, history.sampleRate).then(emotions => {
+      const signal = emotions ? prosodySignal(emotions, utterance.end, local.intensity) : null;
+      if (signal) emit(signal, "cloud");
+      else emit(local, "local");
+    }).catch(err => {
+      console.warn("[VoiceDetection] Cloud prosody failed:", err);
+      setCloudStatus("error");
+      emit(local, "local");
+    });
+  };
+
   const stopRecording = () => {
     if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+    const pending = segmenterRef.current?.flush(Date.now());
+    if (pending) handleUtterance(pending);
+    segmenterRef.current = null;
+    historyRef.current = null;
+    stopCloud();
     if (streamRef.current) streamRef.current.getTracks().forEach(track => track.stop());
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
     setIsRecording(false);
     setVolume(0);
+    setBands(new Array(MEL_FILTERS).fill(0));
+    setSpeaking(false);
+    reportRespiration(null, null, null);
   };
 
+  const readouts = [
+    { label: "Pitch", value: features?.pitchMean ? `${Math.round(features.pitchMean)} Hz` : "—" },
+    { label: "Jitter", value: features?.jitter != null ? `${(features.jitter * 100).toFixed(1)}%` : "—" },
+    { label: "Shimmer", value: features?.shimmer != null ? `${(features.shimmer * 100).toFixed(1)}%` : "—" },
+    { label: "Brightness", value: features ? `${Math.round(features.centroid)} Hz` : "—" },
+    { label: "Rate", value: features ? `${features.speakingRate.toFixed(1)} syl/s` : "—" }
+  ];
+
   return (
     <div 
       suppressHydrationWarning
@@ -98,14 +353,14 @@ export default function VoiceDetection({ onVoiceEmotionDetected }: { onVoiceEmot
 
       <div className="relative h-32 md:h-48 w-full bg-white/5 rounded-2xl overflow-hidden border border-white/5 flex items-center justify-center">
         <div className="flex items-center gap-1">
-          {Array.from({ length: 40 }).map((_, i) => (
+          {bands.map((level, i) => (
             <motion.div 
               key={i}
               animate={{ 
-                height: isRecording ? [10, Math.random() * (40 + (volume * 100)), 10] : 10,
-                opacity: isRecording ? [0.3, 1, 0.3] : 0.2
+                height: isRecording ? 10 + level * 110 : 10,
+                opacity: isRecording ? 0.3 + level * 0.7 : 0.2
               }}
-              transition={{ repeat: Infinity, duration: 0.5, delay: i * 0.05 }}
+              transition={{ duration: DISPLAY_INTERVAL / 1000 }}
               className="w-1.5 rounded-full bg-brand-cyan"
             />
           ))}
@@ -115,6 +370,16 @@ export default function VoiceDetection({ onVoiceEmotionDetected }: { onVoiceEmot
             <span className="text-white/30 text-xs font-bold uppercase tracking-widest">Microphone Inactive</span>
           </div>
         )}
+        {isRecording && (
+          <div className={`absolute top-3 left-3 px-3 py-1 rounded-full glass-morphism text-[10px] font-bold uppercase tracking-widest border ${speaking ? 'text-brand-mint border-brand-mint/30' : 'text-white/30 border-white/10'}`}>
+            {speaking ? "Speech detected" : "Listening"} • {utterances} {utterances === 1 ? "utterance" : "utterances"}
+          </div>
+        )}
+        {isRecording && baselineApplied && (
+          <div className="absolute top-3 right-3 px-3 py-1 rounded-full glass-morphism text-[10px] font-bold uppercase tracking-widest border text-brand-cyan border-brand-cyan/30">
+            Personal voice baseline
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-2 gap-4 w-full">
@@ -133,17 +398,96 @@ export default function VoiceDetection({ onVoiceEmotionDetected }: { onVoiceEmot
               className="text-lg font-bold text-brand-cyan"
             >
               {emotion.toUpperCase()}
+              {emotion !== SILENT_LABEL && confidence > 0 && (
+                <span className="ml-2 text-[10px] font-bold text-white/30">
+                  {Math.round(confidence * 100)}%{source === "cloud" ? " • Cloud" : ""}
+                </span>
+              )}
             </motion.div>
           </AnimatePresence>
         </div>
       </div>
 
+      <div className="flex items-center justify-between gap-2 w-full">
+        <span className="text-[10px] font-bold text-white/20 uppercase tracking-widest">
+          Cloud Prosody{cloudMode ? " — utterance audio is sent to Hume" : ""}
+        </span>
+        <button
+          onClick={toggleCloud}
+          className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1 border transition-all ${
+            cloudStatus === "error"
+              ? "text-yellow-400 border-yellow-500/30"
+              : cloudMode ? "bg-brand-mint/20 text-brand-mint border-brand-mint/30" : "text-white/40 border-white/10 hover:text-brand-mint"
+          }`}
+        >
+          <Cloud className="w-3 h-3" />
+          {cloudMode ? (isRecording ? CLOUD_STATUS_LABELS[cloudStatus] : "On") : "Off"}
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 w-full">
+        <span className="text-[10px] font-bold text-white/20 uppercase tracking-widest">
+          Transcript{transcribing ? " — transcribed on-device" : ""}
+        </span>
+        <button
+          onClick={toggleTranscribing}
+          className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1 border transition-all ${
+            transcriptStatus === "unavailable" && transcribing
+              ? "text-yellow-400 border-yellow-500/30"
+              : transcribing ? "bg-brand-mint/20 text-brand-mint border-brand-mint/30" : "text-white/40 border-white/10 hover:text-brand-mint"
+          }`}
+        >
+          <Captions className="w-3 h-3" />
+          {transcribing ? (transcriptStatus === "off" ? "On" : TRANSCRIPT_STATUS_LABELS[transcriptStatus]) : "Off"}
+        </button>
+      </div>
+
+      {transcript && (
+        <div className="w-full p-4 rounded-xl bg-black/40 border border-white/10 flex flex-col gap-2">
+          <p className="text-sm text-white/70 leading-relaxed">{transcript}</p>
+          {textEmotion && (
+            <span className="text-[10px] font-black uppercase tracking-widest text-brand-cyan">
+              Text: {textEmotion.emotion}
+              {textEmotion.confidence !== null ? ` • ${Math.round(textEmotion.confidence * 100)}%` : ""} • {textEmotion.engine}
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-5 gap-2 w-full">
+        {readouts.map(({ label, value }) => (
+          <div key={label} className="p-2 rounded-lg bg-white/5 border border-white/5 text-center">
+            <span className="text-[9px] font-bold text-white/20 uppercase block">{label}</span>
+            <span className="text-xs font-bold text-white/70">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 w-full p-3 rounded-xl bg-white/5 border border-white/5">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-white/20 uppercase tracking-widest">
+          <Wind className="w-3 h-3" />
+          Breathing
+        </span>
+        <span className="text-xs font-bold text-white/70">
+          {!isRecording
+            ? "—"
+            : respirationRate !== null && respirationQuality !== null && respirationQuality >= MIN_RESPIRATION_QUALITY
+              ? `${respirationRate} /min${respirationRegularity !== null ? ` • ${respirationRegularity >= IRREGULAR_BREATHING ? "regular" : "irregular"}` : ""}`
+              : `Listening between utterances${respirationQuality !== null ? ` • signal ${Math.round(respirationQuality * 100)}%` : ""}`}
+        </span>
+      </div>
+
       <div className="flex items-start gap-3 w-full p-4 rounded-xl bg-white/5 border border-white/5">
         <BarChart2 className="w-5 h-5 text-brand-cyan mt-1" />
         <p className="text-sm text-white/50 leading-relaxed">
-          Proprietary algorithms analyze spectral centroid and pitch jitter to determine emotional valence in speech patterns.
+          Pitch (YIN), cycle-to-cycle jitter and shimmer, spectral brightness and flux, MFCCs and speaking rate are measured on-device for each utterance the voice activity detector finds, and each utterance is scored once by a lightweight classifier. With cloud prosody on, each utterance is also scored by Hume&apos;s prosody model, and the on-device label is used whenever the cloud doesn&apos;t answer.
         </p>
       </div>
+
+      <CrisisAlertModal
+        isOpen={isCrisisModalOpen}
+        onClose={() => setIsCrisisModalOpen(false)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
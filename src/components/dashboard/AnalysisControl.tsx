@@ -2,11 +2,14 @@
 
 import { motion } from "framer-motion";
 import { Sparkles, Brain, Loader2 } from "lucide-react";
+import { useFusion } from "@/context/FusionContext";
 
 export default function AnalysisControl({ onAnalyze, isAnalyzing }: { 
   onAnalyze: () => void;
   isAnalyzing: boolean;
 }) {
+  const { state: liveState } = useFusion();
+
   return (
     <div className="flex flex-col items-center gap-6 py-10 w-full relative">
       <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-px bg-gradient-to-r from-transparent via-white/10 to-transparent" />
@@ -35,7 +38,12 @@ export default function AnalysisControl({ onAnalyze, isAnalyzing }: {
       </button>
 
       <div className="flex items-center gap-3 text-white/20 text-[10px] font-black uppercase tracking-[0.4em]">
-        Multimodal Fusion Engine <div className="w-1 h-1 rounded-full bg-brand-cyan" /> Ready to process
+        Multimodal Fusion Engine <div className={`w-1 h-1 rounded-full bg-brand-cyan ${liveState ? 'animate-pulse' : ''}`} />
+        {liveState ? (
+          <span className="text-brand-cyan/60 tabular-nums">Live: {liveState.finalEmotion} {liveState.confidence}%</span>
+        ) : (
+          "Ready to process"
+        )}
       </div>
     </div>
   );
@@ -1,14 +1,17 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { Calendar, TrendingUp, History, Download, Loader2 } from "lucide-react";
+import { Calendar, TrendingUp, History, Download, Loader2, Crosshair, Gauge } from "lucide-react";
 import { useEffect, useState } from "react";
 import { authService } from "@/lib/authService";
 import { sessionService } from "@/lib/sessionService";
+import { confidenceCalibrationStore } from "@/lib/confidenceCalibrationStore";
+import { MIN_CALIBRATION_SAMPLES } from "@/lib/confidenceCalibration";
 
 export default function AnalyticsOverview() {
   const [sessions, setSessions] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [reliability, setReliability] = useState(() => confidenceCalibrationStore.getReliability());
 
   useEffect(() => {
     const loadData = async () => {
@@ -16,6 +19,8 @@ export default function AnalyticsOverview() {
       if (user) {
         const historyData = await sessionService.getRecentSessions(user.id);
         setSessions(historyData);
+        await confidenceCalibrationStore.ready;
+        setReliability(confidenceCalibrationStore.getReliability());
       }
       setIsLoading(false);
     };
@@ -42,6 +47,12 @@ export default function AnalyticsOverview() {
     { day: "Sun", value: 75, mood: "Calm" },
   ];
 
+  const affectPoints = sessions.filter(s => typeof s.valence === 'number' && typeof s.arousal === 'number');
+  const conflictSessions = sessions.filter(s => s.conflict_pattern);
+  const maskingCount = conflictSessions.filter(s => s.conflict_pattern === 'masking').length;
+  const reliabilityBins = reliability.calibrated.bins.filter(bin => bin.count > 0);
+  const labelledCount = reliability.raw.sampleCount;
+
   if (isLoading) return (
     <div className="flex items-center justify-center p-20">
       <Loader2 className="w-8 h-8 text-brand-cyan animate-spin" />
@@ -161,6 +172,119 @@ export default function AnalyticsOverview() {
           </div>
         </div>
       </div>
+
+      {/* Valence / Arousal Map */}
+      <div className="premium-card p-8 space-y-6 lg:col-span-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Crosshair className="w-5 h-5 text-brand-cyan" />
+            <h3 className="text-sm font-black text-white uppercase tracking-widest">Affect Map</h3>
+          </div>
+          <span className="text-[10px] text-white/20 font-bold uppercase tracking-widest">Valence × Arousal</span>
+        </div>
+
+        <div className="relative w-full max-w-md mx-auto aspect-square rounded-2xl bg-white/5 border border-white/5 overflow-hidden">
+          <div className="absolute left-1/2 top-0 bottom-0 w-px bg-white/10" />
+          <div className="absolute top-1/2 left-0 right-0 h-px bg-white/10" />
+          <span className="absolute top-3 left-3 text-[8px] font-black text-red-400/40 uppercase tracking-widest">Tense</span>
+          <span className="absolute top-3 right-3 text-[8px] font-black text-brand-mint/40 uppercase tracking-widest">Excited</span>
+          <span className="absolute bottom-3 left-3 text-[8px] font-black text-brand-cyan/40 uppercase tracking-widest">Depleted</span>
+          <span className="absolute bottom-3 right-3 text-[8px] font-black text-white/30 uppercase tracking-widest">Calm</span>
+
+          {affectPoints.map((item, i) => (
+            <motion.div
+              key={item.id || i}
+              initial={{ opacity: 0, scale: 0 }}
+              animate={{ opacity: 1 - i * (0.7 / Math.max(affectPoints.length, 1)), scale: 1 }}
+              transition={{ delay: i * 0.05 }}
+              title={`${item.final_emotion} • V ${item.valence} / A ${item.arousal}`}
+              className={`absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full ${i === 0 ? 'bg-brand-cyan shadow-[0_0_12px_rgba(0,242,255,0.6)]' : 'bg-white/60'}`}
+              style={{
+                left: `${((item.valence + 1) / 2) * 100}%`,
+                top: `${(1 - (item.arousal + 1) / 2) * 100}%`
+              }}
+            />
+          ))}
+
+          {affectPoints.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-[10px] text-white/20 font-bold uppercase tracking-widest">
+              No affect data yet
+            </div>
+          )}
+        </div>
+
+        <div className="pt-4 border-t border-white/5 flex items-center justify-center gap-8 text-[10px] font-black uppercase tracking-widest">
+          <span className="text-white/20">
+            Conflicted Readings <span className="text-yellow-400 tabular-nums ml-1">{conflictSessions.length}/{sessions.length}</span>
+          </span>
+          <span className="text-white/20">
+            Possible Masking <span className="text-red-400 tabular-nums ml-1">{maskingCount}</span>
+          </span>
+        </div>
+      </div>
+
+      {/* Confidence Reliability */}
+      <div className="premium-card p-8 space-y-6 lg:col-span-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Gauge className="w-5 h-5 text-brand-mint" />
+            <h3 className="text-sm font-black text-white uppercase tracking-widest">Confidence Reliability</h3>
+          </div>
+          <span className="text-[10px] text-white/20 font-bold uppercase tracking-widest">
+            {confidenceCalibrationStore.isCalibrated()
+              ? `Calibrated on ${labelledCount} confirmed readings`
+              : `Collecting feedback ${labelledCount}/${MIN_CALIBRATION_SAMPLES}`}
+          </span>
+        </div>
+
+        <div className="space-y-3">
+          {reliabilityBins.map(bin => (
+            <div key={bin.from} className="grid grid-cols-[5rem_1fr_5rem] items-center gap-4">
+              <span className="text-[10px] font-black text-white/40 uppercase tracking-widest tabular-nums">
+                {bin.from}–{bin.to}%
+              </span>
+              <div className="relative h-3 rounded-full bg-white/5 overflow-hidden">
+                <motion.div
+                  initial={{ width: 0 }}
+                  animate={{ width: `${bin.accuracy}%` }}
+                  transition={{ duration: 1, ease: "circOut" }}
+                  className="absolute inset-y-0 left-0 bg-brand-mint/60 rounded-full"
+                />
+                <div
+                  className="absolute inset-y-0 w-0.5 bg-brand-cyan shadow-[0_0_8px_rgba(0,242,255,0.6)]"
+                  style={{ left: `${bin.meanConfidence}%` }}
+                  title={`Claimed ${bin.meanConfidence}%`}
+                />
+              </div>
+              <span className="text-[10px] font-black text-white/60 tabular-nums text-right">
+                {bin.accuracy}% <span className="text-white/20">of {bin.count}</span>
+              </span>
+            </div>
+          ))}
+
+          {reliabilityBins.length === 0 && (
+            <div className="py-8 text-center text-[10px] text-white/20 font-bold uppercase tracking-widest">
+              Confirm or correct readings to measure reliability
+            </div>
+          )}
+        </div>
+
+        <div className="pt-4 border-t border-white/5 flex flex-wrap items-center justify-center gap-8 text-[10px] font-black uppercase tracking-widest">
+          <span className="text-white/20">
+            <span className="inline-block w-2 h-2 rounded-full bg-brand-mint/60 mr-2" />Actually right
+          </span>
+          <span className="text-white/20">
+            <span className="inline-block w-2 h-0.5 bg-brand-cyan mr-2 align-middle" />Claimed confidence
+          </span>
+          <span className="text-white/20">
+            Calibration Error
+            <span className="text-white/60 tabular-nums ml-1">{reliability.raw.expectedCalibrationError}</span>
+            <span className="text-white/20 mx-1">→</span>
+            <span className="text-brand-mint tabular-nums">{reliability.calibrated.expectedCalibrationError} pts</span>
+            <span className="text-white/20 ml-1">held out</span>
+          </span>
+        </div>
+      </div>
     </div>
   );
 }
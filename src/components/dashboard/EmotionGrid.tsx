@@ -5,10 +5,14 @@ import FaceDetection from "@/components/EmotionDetector/FaceDetection";
 import VoiceDetection from "@/components/EmotionDetector/VoiceDetection";
 import TextAnalysis from "@/components/EmotionDetector/TextAnalysis";
 import HeartRateMonitor from "@/components/EmotionDetector/HeartRateMonitor";
+import { useFusion } from "@/context/FusionContext";
+import { textSignal } from "@/lib/textEmotion";
 
 export default function EmotionGrid({ onDetectionUpdate }: { 
   onDetectionUpdate: (type: string, value: any) => void 
 }) {
+  const { ingest } = useFusion();
+
   return (
     <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 md:gap-6 w-full h-full overflow-y-auto custom-scrollbar pr-2">
       <motion.div 
@@ -17,7 +21,21 @@ export default function EmotionGrid({ onDetectionUpdate }: {
         className="space-y-2 h-fit"
       >
         <span className="text-[10px] font-black text-brand-cyan uppercase tracking-[0.4em] px-2">Visual Resonance</span>
-        <FaceDetection onEmotionDetected={(e) => onDetectionUpdate('face', e.emotion)} />
+        <FaceDetection
+          onEmotionDetected={(e) => {
+            onDetectionUpdate('face', e.emotion);
+            ingest('face', e);
+          }}
+          onActionUnitsDetected={(e, summary) => {
+            onDetectionUpdate('face_au', e);
+            onDetectionUpdate('actionUnits', summary);
+            ingest('face_au', e);
+          }}
+          onAttentionDetected={(e) => {
+            onDetectionUpdate('attention', e);
+            ingest('attention', e);
+          }}
+        />
       </motion.div>
 
       <motion.div 
@@ -27,7 +45,17 @@ export default function EmotionGrid({ onDetectionUpdate }: {
         className="space-y-2 h-fit"
       >
         <span className="text-[10px] font-black text-brand-cyan uppercase tracking-[0.4em] px-2">Auditory Prosody</span>
-        <VoiceDetection onVoiceEmotionDetected={(e) => onDetectionUpdate('voice', e)} />
+        <VoiceDetection
+          onVoiceEmotionDetected={(signal) => {
+            onDetectionUpdate('voice', signal);
+            ingest('voice', signal);
+          }}
+          onTextEmotionDetected={(e, confidence) => {
+            const signal = textSignal(e, confidence);
+            onDetectionUpdate('text', signal);
+            ingest('text', signal);
+          }}
+        />
       </motion.div>
 
       <motion.div 
@@ -37,7 +65,11 @@ export default function EmotionGrid({ onDetectionUpdate }: {
         className="space-y-2 h-fit"
       >
         <span className="text-[10px] font-black text-brand-cyan uppercase tracking-[0.4em] px-2">Lexical Sentiment</span>
-        <TextAnalysis onTextEmotionDetected={(e) => onDetectionUpdate('text', e)} />
+        <TextAnalysis onTextEmotionDetected={(e, confidence) => {
+          const signal = textSignal(e, confidence);
+          onDetectionUpdate('text', signal);
+          ingest('text', signal);
+        }} />
       </motion.div>
 
       <motion.div 
@@ -1,24 +1,46 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { Network, ArrowRight, Camera, Mic, MessageSquare, Activity } from "lucide-react";
+import { Network, ArrowRight, Camera, Mic, MessageSquare, Activity, AlertTriangle, Radio, Wind, type LucideIcon } from "lucide-react";
+import { getModalitySignal, type ConflictReport, type DropReason, type EmotionData, type EmotionSignal, type Modality } from "@/lib/emotionFusion";
+import { modalityRegistry } from "@/lib/modalityRegistry";
+
+const DROP_REASON_LABELS: Record<DropReason, string> = {
+  absent: "Absent",
+  expired: "Expired",
+  below_threshold: "Below Threshold"
+};
+
+// Presentation for known modalities; newly registered ones fall back to a generic style
+const MODALITY_STYLES: Record<Modality, { icon: LucideIcon; color: string }> = {
+  face: { icon: Camera, color: "text-brand-cyan" },
+  voice: { icon: Mic, color: "text-brand-mint" },
+  text: { icon: MessageSquare, color: "text-purple-400" }
+};
+
+const DEFAULT_STYLE = { icon: Radio, color: "text-white/60" };
 
 interface FusionExplanationProps {
-  inputs: {
-    face: string;
-    voice: string;
-    text: string;
-    heartRate: number | string;
-  };
+  inputs: EmotionData;
   finalEmotion: string;
+  dropped?: Partial<Record<Modality, DropReason>>;
+  agreement?: number;
+  conflict?: ConflictReport | null;
+  respiration?: string;
 }
 
-export default function FusionExplanation({ inputs, finalEmotion }: FusionExplanationProps) {
+const labelOf = (input: string | EmotionSignal | undefined) => typeof input === "string" ? input : input?.emotion;
+
+export default function FusionExplanation({ inputs, finalEmotion, dropped = {}, agreement, conflict, respiration }: FusionExplanationProps) {
   const sources = [
-    { label: "Face Visuals", value: inputs.face || "Calibrating...", icon: Camera, color: "text-brand-cyan" },
-    { label: "Voice Prosody", value: inputs.voice || "Silent", icon: Mic, color: "text-brand-mint" },
-    { label: "Text Sentiment", value: inputs.text || "Neutral", icon: MessageSquare, color: "text-purple-400" },
-    { label: "Cardiac Rhythm", value: typeof inputs.heartRate === 'number' ? `${inputs.heartRate} BPM` : inputs.heartRate, icon: Activity, color: "text-red-400" },
+    ...modalityRegistry.list().map(definition => ({
+      label: definition.label,
+      value: labelOf(getModalitySignal(inputs, definition.id)) || definition.placeholder,
+      ...(MODALITY_STYLES[definition.id] || DEFAULT_STYLE),
+      dropReason: dropped[definition.id]
+    })),
+    { label: "Cardiac Rhythm", value: typeof inputs.heartRate === 'number' ? `${inputs.heartRate} BPM` : inputs.heartRate, icon: Activity, color: "text-red-400", dropReason: undefined },
+    ...(respiration ? [{ label: "Respiration", value: respiration, icon: Wind, color: "text-brand-mint", dropReason: undefined }] : []),
   ];
 
   return (
@@ -33,8 +55,32 @@ export default function FusionExplanation({ inputs, finalEmotion }: FusionExplan
           <h3 className="text-xl font-black text-white tracking-tighter uppercase italic leading-none">Emotion Fusion</h3>
           <p className="text-[10px] text-white/30 font-bold uppercase tracking-[0.3em]">Explainable AI Decision Path</p>
         </div>
+        {agreement !== undefined && (
+          <div className="ml-auto flex flex-col items-end">
+            <span className="text-[10px] font-black text-white/20 uppercase tracking-widest">Modality Agreement</span>
+            <span className={`text-xl font-black tabular-nums ${conflict ? 'text-yellow-400' : 'text-brand-mint'}`}>{agreement}%</span>
+          </div>
+        )}
       </div>
 
+      {conflict && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className={`relative z-10 flex items-start gap-4 p-5 rounded-2xl border ${
+            conflict.level === "high" ? "bg-red-500/10 border-red-500/30" : "bg-yellow-500/10 border-yellow-500/30"
+          }`}
+        >
+          <AlertTriangle className={`w-5 h-5 mt-0.5 flex-shrink-0 ${conflict.level === "high" ? "text-red-400" : "text-yellow-400"}`} />
+          <div className="space-y-1">
+            <span className={`text-[10px] font-black uppercase tracking-widest ${conflict.level === "high" ? "text-red-400" : "text-yellow-400"}`}>
+              {conflict.level} conflict • {conflict.pattern}
+            </span>
+            <p className="text-sm text-white/70 font-medium">{conflict.description}</p>
+          </div>
+        </motion.div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 items-center relative z-10">
         <div className="lg:col-span-2 space-y-6">
           {sources.map((source, i) => (
@@ -43,7 +89,7 @@ export default function FusionExplanation({ inputs, finalEmotion }: FusionExplan
               initial={{ opacity: 0, x: -20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: i * 0.1 }}
-              className="flex items-center gap-4 p-4 rounded-2xl bg-white/5 border border-white/5 group hover:bg-white/10 transition-all"
+              className={`flex items-center gap-4 p-4 rounded-2xl bg-white/5 border border-white/5 group hover:bg-white/10 transition-all ${source.dropReason ? 'opacity-40' : ''}`}
             >
               <div className={`p-2.5 rounded-xl bg-white/5 ${source.color} group-hover:bg-white/20 transition-all`}>
                 <source.icon className="w-5 h-5" />
@@ -51,6 +97,11 @@ export default function FusionExplanation({ inputs, finalEmotion }: FusionExplan
               <div className="flex flex-col">
                 <span className="text-[10px] font-black text-white/20 uppercase tracking-widest leading-none mb-1">{source.label}</span>
                 <span className="text-sm font-bold text-white uppercase">{source.value}</span>
+                {source.dropReason && (
+                  <span className="text-[9px] font-black text-red-400/80 uppercase tracking-widest mt-1">
+                    Excluded: {DROP_REASON_LABELS[source.dropReason]}
+                  </span>
+                )}
               </div>
               <div className="ml-auto w-1 h-8 rounded-full bg-white/5 overflow-hidden">
                 <motion.div
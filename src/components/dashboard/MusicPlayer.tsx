@@ -3,13 +3,15 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Play, Pause, SkipForward, Volume2, Music, Sparkles, Heart, Activity } from "lucide-react";
-import { musicGenerator, MOOD_MAPPINGS } from "@/lib/musicGeneration";
+import { musicGenerator, MOOD_MAPPINGS, selectMoodByAffect } from "@/lib/musicGeneration";
+import type { AffectPoint } from "@/lib/emotionFusion";
 
 interface MusicPlayerProps {
   emotion: string;
+  affect?: AffectPoint | null;
 }
 
-export default function MusicPlayer({ emotion }: MusicPlayerProps) {
+export default function MusicPlayer({ emotion, affect }: MusicPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0);
   const [volume, setVolume] = useState(0.8);
@@ -19,7 +21,8 @@ export default function MusicPlayer({ emotion }: MusicPlayerProps) {
   const [duration, setDuration] = useState(30); // Default for AI, 60 for local synth
   
   const audioRef = useRef<HTMLAudioElement>(null);
-  const params = MOOD_MAPPINGS[emotion] || MOOD_MAPPINGS["Neutral"];
+  const mood = affect ? selectMoodByAffect(affect) : emotion;
+  const params = MOOD_MAPPINGS[mood] || MOOD_MAPPINGS["Neutral"];
 
   const togglePlayback = useCallback(async () => {
     const newState = !isPlaying;
@@ -30,7 +33,7 @@ export default function MusicPlayer({ emotion }: MusicPlayerProps) {
         await audioRef.current.play();
       } else {
         musicGenerator.setVolume(volume);
-        await musicGenerator.start(emotion);
+        await musicGenerator.start(mood);
       }
     } else {
       if (aiAudioUrl && audioRef.current) {
@@ -40,7 +43,7 @@ export default function MusicPlayer({ emotion }: MusicPlayerProps) {
       }
     }
     setIsPlaying(newState);
-  }, [isPlaying, aiAudioUrl, volume, emotion]);
+  }, [isPlaying, aiAudioUrl, volume, mood]);
 
   // 1. Progress Tracking Engine
   useEffect(() => {
@@ -1,16 +1,25 @@
 "use client";
 
+import { useState } from "react";
 import { motion } from "framer-motion";
-import { TrendingUp, Award, Activity } from "lucide-react";
+import { TrendingUp, Award, Activity, Layers, Check } from "lucide-react";
+import { CORE_EMOTIONS, type CoreEmotion, type FusionResult } from "@/lib/emotionFusion";
 
 interface ResultsPanelProps {
   finalEmotion: string;
   confidence: number;
   probabilities: Record<string, number>;
+  contributions?: FusionResult["contributions"];
+  onCorrect?: (emotion: CoreEmotion) => void;
+  onConfirm?: () => void;
 }
 
-export default function ResultsPanel({ finalEmotion, confidence, probabilities }: ResultsPanelProps) {
+export default function ResultsPanel({ finalEmotion, confidence, probabilities, contributions = {}, onCorrect, onConfirm }: ResultsPanelProps) {
+  const [correctedTo, setCorrectedTo] = useState<CoreEmotion | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+  const feedbackGiven = confirmed || correctedTo !== null;
   const emotions = Object.entries(probabilities).sort((a, b) => b[1] - a[1]);
+  const modalities = Object.entries(contributions).sort((a, b) => (b[1]?.share || 0) - (a[1]?.share || 0));
 
   return (
     <div className="space-y-6 w-full h-full">
@@ -69,7 +78,7 @@ export default function ResultsPanel({ finalEmotion, confidence, probabilities }
             <Activity className="w-4 h-4 text-brand-cyan" />
             Probability Distribution
           </h3>
-          <span className="text-[10px] text-white/20 font-bold uppercase tracking-widest">Across 7 Dimensions</span>
+          <span className="text-[10px] text-white/20 font-bold uppercase tracking-widest">Across {emotions.length} Dimensions</span>
         </div>
 
         <div className="space-y-4">
@@ -92,6 +101,71 @@ export default function ResultsPanel({ finalEmotion, confidence, probabilities }
             </div>
           ))}
         </div>
+
+        {modalities.length > 0 && (
+          <div className="pt-6 border-t border-white/5 space-y-3">
+            <h4 className="text-[10px] font-black text-white/40 uppercase tracking-widest flex items-center gap-2">
+              <Layers className="w-3 h-3 text-brand-mint" />
+              Modality Contribution
+            </h4>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {modalities.map(([modality, contribution]) => contribution && (
+                <div key={modality} className="p-3 rounded-xl bg-white/5 border border-white/5 flex flex-col gap-1">
+                  <span className="text-[9px] font-black text-white/20 uppercase tracking-widest">{modality}</span>
+                  <span className="text-xs font-bold text-white uppercase truncate">{contribution.label} → {contribution.coreEmotion}</span>
+                  <span className="text-[10px] font-black text-brand-mint tabular-nums">{contribution.share}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {onCorrect && (
+          <div className="pt-6 border-t border-white/5 space-y-3">
+            <h4 className="text-[10px] font-black text-white/40 uppercase tracking-widest">
+              {confirmed
+                ? "Thanks — confirmed readings calibrate future confidence"
+                : correctedTo ? "Fusion weights recalibrated" : "Not quite right? Select how you actually feel"}
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {onConfirm && (
+                <button
+                  onClick={() => {
+                    setConfirmed(true);
+                    onConfirm();
+                  }}
+                  disabled={feedbackGiven}
+                  className={`px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest border transition-all flex items-center gap-1 ${
+                    confirmed
+                      ? "bg-brand-mint/20 border-brand-mint text-brand-mint"
+                      : "bg-brand-cyan/10 border-brand-cyan/30 text-brand-cyan hover:bg-brand-cyan/20 disabled:opacity-30"
+                  }`}
+                >
+                  <Check className="w-3 h-3" />
+                  {finalEmotion} is right
+                </button>
+              )}
+              {CORE_EMOTIONS.filter(e => e !== finalEmotion).map(emotion => (
+                <button
+                  key={emotion}
+                  onClick={() => {
+                    setCorrectedTo(emotion);
+                    onCorrect(emotion);
+                  }}
+                  disabled={feedbackGiven}
+                  className={`px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest border transition-all flex items-center gap-1 ${
+                    correctedTo === emotion
+                      ? "bg-brand-mint/20 border-brand-mint text-brand-mint"
+                      : "bg-white/5 border-white/5 text-white/40 hover:text-brand-cyan hover:border-brand-cyan/30 disabled:opacity-30 disabled:hover:text-white/40"
+                  }`}
+                >
+                  {correctedTo === emotion && <Check className="w-3 h-3" />}
+                  {emotion}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </motion.div>
     </div>
   );
@@ -5,6 +5,16 @@ import { sessionService } from "@/lib/sessionService";
 import { authService } from "@/lib/authService";
 import { motion } from "framer-motion";
 import { History, Calendar, Heart, Activity, Clock } from "lucide-react";
+import { ACTION_UNIT_NAMES, type ActionUnit, type ActionUnitSummary } from "@/lib/actionUnits";
+
+// Strongest average action units of a session, for a one-line review
+const topActionUnits = (summary: ActionUnitSummary | null | undefined, count = 3) =>
+  summary && summary.frames > 0
+    ? (Object.entries(summary.mean) as [ActionUnit, number][])
+        .filter(([, mean]) => mean >= 0.1)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, count)
+    : [];
 
 export default function SessionHistory() {
   const [sessions, setSessions] = useState<any[]>([]);
@@ -55,11 +65,27 @@ export default function SessionHistory() {
               <div>
                 <h4 className="text-lg font-black text-white italic uppercase tracking-tight">
                   {session.final_emotion} <span className="text-white/20 not-italic text-xs ml-2">Resonance</span>
+                  {session.conflict_pattern && (
+                    <span className="ml-3 px-2 py-0.5 rounded-full bg-yellow-500/10 border border-yellow-500/30 text-yellow-400 not-italic text-[9px] tracking-widest align-middle">
+                      {session.conflict_pattern}
+                    </span>
+                  )}
                 </h4>
                 <div className="flex items-center gap-4 mt-1 text-[10px] font-bold text-white/40 uppercase tracking-widest">
                    <span className="flex items-center gap-1"><Calendar className="w-3 h-3" /> {new Date(session.created_at).toLocaleDateString()}</span>
                    <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {new Date(session.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
                 </div>
+                {topActionUnits(session.action_units).length > 0 && (
+                  <div className="flex items-center gap-3 mt-2 text-[9px] font-black uppercase tracking-widest">
+                    <Activity className="w-3 h-3 text-brand-mint" />
+                    {topActionUnits(session.action_units).map(([unit, mean]) => (
+                      <span key={unit} title={ACTION_UNIT_NAMES[unit]} className="text-white/40">
+                        {unit} <span className="text-brand-mint tabular-nums">{Math.round(mean * 100)}%</span>
+                        <span className="text-white/20"> peak {Math.round(session.action_units.peak[unit] * 100)}%</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
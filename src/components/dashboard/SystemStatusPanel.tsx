@@ -1,11 +1,23 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import { CheckCircle2, ShieldCheck, Cpu, Zap } from "lucide-react";
+import { inferenceMetrics } from "@/lib/inferenceMetrics";
 
 export default function SystemStatusPanel() {
+  const [metrics, setMetrics] = useState(() => inferenceMetrics.getMetrics());
+
+  useEffect(() => inferenceMetrics.subscribe(setMetrics), []);
+
+  const face = metrics.face;
   const systems = [
-    { name: "Visual Core", status: "Active", icon: Cpu, color: "text-brand-cyan" },
+    {
+      name: "Visual Core",
+      status: face ? `${face.fps} FPS • ${face.runtime === "worker" ? "Worker" : "Main Thread"}` : "Idle",
+      icon: Cpu,
+      color: "text-brand-cyan"
+    },
     { name: "Acoustic Engine", status: "Ready", icon: Zap, color: "text-brand-mint" },
     { name: "Neural Fusion", status: "Optimized", icon: ShieldCheck, color: "text-purple-400" },
   ];
@@ -40,7 +52,7 @@ export default function SystemStatusPanel() {
 
       <div className="hidden xl:flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 border border-white/5 text-[9px] font-black text-white/30 uppercase tracking-[0.2em]">
         <div className="w-1.5 h-1.5 rounded-full bg-brand-cyan animate-ping" />
-        Lat: 12ms
+        Lat: {face ? `${face.latency}ms` : "--"}
       </div>
     </div>
   );
@@ -1,17 +1,25 @@
 "use client";
 
-import React, { createContext, useContext, useState, useRef, useEffect } from 'react';
+import React, { createContext, useContext, useState, useRef, useEffect, useCallback } from 'react';
 
-type ConnectionType = 'none' | 'manual' | 'simulated';
+export type ConnectionType = 'none' | 'manual' | 'simulated' | 'camera';
 
 interface BiometricContextType {
   bpm: number | null;
   lastUpdated: number | null;
   connectionType: ConnectionType;
   isConnected: boolean;
+  signalQuality: number | null; // 0..1, only reported by the camera pulse
   disconnect: () => void;
   simulate: () => void;
   setBpmManual: (val: number) => void;
+  startCameraPulse: () => void;
+  reportCameraPulse: (bpm: number | null, quality: number) => void;
+  respirationRate: number | null; // breaths per minute, from breath sounds at the microphone
+  respirationRegularity: number | null; // 0..1
+  respirationQuality: number | null;
+  respirationUpdated: number | null;
+  reportRespiration: (rate: number | null, regularity: number | null, quality: number | null) => void;
 }
 
 const BiometricContext = createContext<BiometricContextType | undefined>(undefined);
@@ -20,6 +28,11 @@ export function BiometricProvider({ children }: { children: React.ReactNode }) {
   const [bpm, setBpm] = useState<number | null>(null);
   const [lastUpdated, setLastUpdated] = useState<number | null>(null);
   const [connectionType, setConnectionType] = useState<ConnectionType>('none');
+  const [signalQuality, setSignalQuality] = useState<number | null>(null);
+  const [respirationRate, setRespirationRate] = useState<number | null>(null);
+  const [respirationRegularity, setRespirationRegularity] = useState<number | null>(null);
+  const [respirationQuality, setRespirationQuality] = useState<number | null>(null);
+  const [respirationUpdated, setRespirationUpdated] = useState<number | null>(null);
   const simulationIntervalRef = useRef<any>(null);
 
   const isConnected = connectionType !== 'none';
@@ -30,24 +43,32 @@ export function BiometricProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  const stopSimulation = () => {
+    if (simulationIntervalRef.current) {
+      clearInterval(simulationIntervalRef.current);
+      simulationIntervalRef.current = null;
+    }
+  };
+
   const setBpmManual = (val: number) => {
+    stopSimulation();
     setConnectionType('manual');
+    setSignalQuality(null);
     setBpm(val);
     setLastUpdated(Date.now());
   };
 
   const disconnect = () => {
-    if (simulationIntervalRef.current) {
-      clearInterval(simulationIntervalRef.current);
-      simulationIntervalRef.current = null;
-    }
+    stopSimulation();
     setConnectionType('none');
+    setSignalQuality(null);
     setBpm(null);
     setLastUpdated(null);
   };
 
   const simulate = () => {
     setConnectionType('simulated');
+    setSignalQuality(null);
     if (simulationIntervalRef.current) clearInterval(simulationIntervalRef.current);
     simulationIntervalRef.current = setInterval(() => {
       const newBpm = 70 + Math.floor(Math.random() * 15);
@@ -56,15 +77,52 @@ export function BiometricProvider({ children }: { children: React.ReactNode }) {
     }, 5000);
   };
 
+  // The camera pulse is estimated by FaceDetection while this source is selected
+  const startCameraPulse = () => {
+    stopSimulation();
+    setConnectionType('camera');
+    setSignalQuality(0);
+    setBpm(null);
+    setLastUpdated(null);
+  };
+
+  // Quality is always reported so the UI can coach the user; bpm only once it is trustworthy
+  const reportCameraPulse = useCallback((val: number | null, quality: number) => {
+    setSignalQuality(quality);
+    if (val !== null) {
+      setBpm(val);
+      setLastUpdated(Date.now());
+    }
+  }, []);
+
+  // Published by VoiceDetection independently of the heart-rate source; a null
+  // quality means the microphone stopped listening
+  const reportRespiration = useCallback((rate: number | null, regularity: number | null, quality: number | null) => {
+    setRespirationQuality(quality);
+    if (rate !== null) {
+      setRespirationRate(rate);
+      setRespirationRegularity(regularity);
+      setRespirationUpdated(Date.now());
+    }
+  }, []);
+
   return (
     <BiometricContext.Provider value={{ 
       bpm, 
       lastUpdated,
       connectionType, 
       isConnected,
+      signalQuality,
       disconnect, 
       simulate,
-      setBpmManual
+      setBpmManual,
+      startCameraPulse,
+      reportCameraPulse,
+      respirationRate,
+      respirationRegularity,
+      respirationQuality,
+      respirationUpdated,
+      reportRespiration
     }}>
       {children}
     </BiometricContext.Provider>
@@ -0,0 +1,57 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { fusionEngine, type FusionState } from '@/lib/fusionEngine';
+import type { EmotionSignal, Modality } from '@/lib/emotionFusion';
+import { useBiometrics } from '@/context/BiometricContext';
+
+interface FusionContextType {
+  state: FusionState | null;
+  ingest: (modality: Modality, signal: EmotionSignal) => void;
+  reset: () => void;
+}
+
+const FusionContext = createContext<FusionContextType | undefined>(undefined);
+
+export function FusionProvider({ children }: { children: React.ReactNode }) {
+  const { bpm, lastUpdated, respirationRate, respirationRegularity, respirationUpdated } = useBiometrics();
+  const [state, setState] = useState<FusionState | null>(() => fusionEngine.getState());
+
+  useEffect(() => fusionEngine.subscribe(setState), []);
+
+  useEffect(() => {
+    if (bpm && lastUpdated) fusionEngine.setHeartRate(bpm, lastUpdated);
+  }, [bpm, lastUpdated]);
+
+  useEffect(() => {
+    if (respirationRate && respirationUpdated) fusionEngine.setRespiration(respirationRate, respirationRegularity, respirationUpdated);
+  }, [respirationRate, respirationRegularity, respirationUpdated]);
+
+  useEffect(() => {
+    const interval = setInterval(() => fusionEngine.refresh(), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const ingest = useCallback((modality: Modality, signal: EmotionSignal) => {
+    fusionEngine.ingest(modality, { ...signal, timestamp: signal.timestamp ?? Date.now() });
+  }, []);
+
+  const reset = useCallback(() => {
+    fusionEngine.reset();
+    setState(null);
+  }, []);
+
+  return (
+    <FusionContext.Provider value={{ state, ingest, reset }}>
+      {children}
+    </FusionContext.Provider>
+  );
+}
+
+export function useFusion() {
+  const context = useContext(FusionContext);
+  if (context === undefined) {
+    throw new Error('useFusion must be used within a FusionProvider');
+  }
+  return context;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  ActionUnitTracker,
+  estimateActionUnits,
+  interpretActionUnits,
+  measureFaceGeometry,
+  type ActionUnitReading
+} from "../actionUnits";
+import type { Point } from "../faceQuality";
+
+// Mean 68-point face at roughly webcam scale, outer eye corners ~106 px apart
+const NEUTRAL: [number, number][] = [
+  [115.8, 147.8], [116.6, 171.4], [119.4, 195.1], [124.4, 218.4], [133.7, 240.1], [148.0, 259.1],
+  [165.1, 275.4], [184.5, 288.7], [206.4, 292.2], [228.3, 288.0], [247.6, 274.5], [264.9, 257.9],
+  [279.0, 238.5], [287.9, 216.3], [292.2, 192.4], [294.1, 168.4], [294.2, 144.4], [132.8, 129.8],
+  [143.6, 120.9], [158.3, 118.5], [173.5, 120.7], [187.9, 126.6], [217.3, 125.6], [232.0, 119.2],
+  [247.5, 116.5], [262.6, 118.6], [274.2, 127.1], [203.1, 143.7], [203.2, 159.2], [203.4, 174.8],
+  [203.6, 190.6], [186.7, 200.8], [195.1, 204.2], [204.1, 206.9], [213.2, 203.8], [221.4, 200.3],
+  [150.5, 146.2], [159.7, 140.5], [171.1, 140.6], [180.7, 147.7], [170.5, 150.0], [159.4, 150.1],
+  [226.3, 146.8], [235.8, 139.3], [247.2, 138.9], [256.6, 144.3], [248.1, 148.4], [237.0, 148.7],
+  [170.6, 229.2], [182.9, 223.8], [195.5, 221.4], [204.5, 223.4], [214.0, 221.1], [227.0, 223.1],
+  [239.9, 227.9], [227.9, 241.0], [215.3, 247.1], [205.1, 248.3], [195.3, 247.5], [182.8, 242.0],
+  [176.0, 230.0], [195.6, 229.0], [204.7, 229.8], [214.2, 228.7], [234.5, 228.8], [214.5, 235.3],
+  [204.8, 236.7], [195.5, 235.7]
+];
+
+// Neutral face with some landmarks shifted by [dx, dy] pixels
+function face(moves: Record<number, [number, number]> = {}): Point[] {
+  return NEUTRAL.map(([x, y], i) => ({ x: x + (moves[i]?.[0] ?? 0), y: y + (moves[i]?.[1] ?? 0) }));
+}
+
+const SMILE = { 48: [-4, -9], 54: [4, -9], 40: [0, -3], 41: [0, -3], 46: [0, -3], 47: [0, -3] } as Record<number, [number, number]>;
+
+describe("estimateActionUnits", () => {
+  it("reads a neutral face as relaxed", () => {
+    const reading = estimateActionUnits(face())!;
+    Object.values(reading.intensities).forEach(value => expect(value).toBeLessThan(0.1));
+    expect(interpretActionUnits(reading).label).toBe("Relaxed");
+  });
+
+  it("tells a smile that reaches the eyes from one that does not", () => {
+    const duchenne = estimateActionUnits(face(SMILE))!;
+    expect(duchenne.intensities.AU12).toBeGreaterThan(0.8);
+    expect(duchenne.intensities.AU6).toBeGreaterThan(0.5);
+    expect(interpretActionUnits(duchenne).label).toBe("Duchenne Smile");
+
+    const social = estimateActionUnits(face({ 48: [-4, -9], 54: [4, -9] }))!;
+    expect(interpretActionUnits(social).label).toBe("Social Smile");
+  });
+
+  it("flags a one-sided smile", () => {
+    const reading = estimateActionUnits(face({ 54: [4, -9] }))!;
+    expect(reading.smileAsymmetry).toBeGreaterThan(0.5);
+    expect(interpretActionUnits(reading).label).toBe("Asymmetric Smile");
+  });
+
+  it("separates a raised-and-drawn inner brow from a plain frown", () => {
+    const distress = estimateActionUnits(face({ 21: [5, -9], 22: [-5, -9] }))!;
+    expect(distress.intensities.AU1).toBeGreaterThan(0.5);
+    expect(interpretActionUnits(distress).label).toBe("Distress Brow");
+
+    const furrow = estimateActionUnits(face({ 21: [5, 6], 22: [-5, 6] }))!;
+    expect(furrow.intensities.AU4).toBeGreaterThan(0.8);
+    expect(furrow.intensities.AU1).toBe(0);
+    expect(interpretActionUnits(furrow).label).toBe("Brow Furrow");
+  });
+
+  it("reads lowered lip corners and an open jaw", () => {
+    expect(interpretActionUnits(estimateActionUnits(face({ 48: [0, 6], 54: [0, 6] }))!).label).toBe("Lip Corner Depression");
+
+    const open = estimateActionUnits(face({ 66: [0, 10], 57: [0, 12], 8: [0, 20] }))!;
+    expect(open.intensities.AU25).toBeGreaterThan(0.5);
+    expect(open.intensities.AU26).toBeGreaterThan(0.5);
+  });
+
+  it("reads a smile on a tilted head the same as on a level one", () => {
+    // Rotated about the eye midpoint, within what the quality gate passes at full score
+    const tilt = (points: Point[], degrees: number) => {
+      const angle = (degrees * Math.PI) / 180;
+      const cx = (points[36].x + points[45].x) / 2;
+      const cy = (points[36].y + points[45].y) / 2;
+      return points.map(({ x, y }) => ({
+        x: cx + (x - cx) * Math.cos(angle) - (y - cy) * Math.sin(angle),
+        y: cy + (x - cx) * Math.sin(angle) + (y - cy) * Math.cos(angle)
+      }));
+    };
+
+    [-10, -5, 5, 10].forEach(degrees => {
+      const reading = estimateActionUnits(tilt(face(SMILE), degrees))!;
+      expect(reading.smileAsymmetry).toBeLessThan(0.1);
+      expect(interpretActionUnits(reading).label).toBe("Duchenne Smile");
+    });
+  });
+
+  it("does not depend on how close the face is to the camera", () => {
+    const near = face(SMILE).map(({ x, y }) => ({ x: x * 2, y: y * 2 }));
+    expect(estimateActionUnits(near)).toEqual(estimateActionUnits(face(SMILE)));
+  });
+
+  it("measures against a personal neutral when given one", () => {
+    const personal = measureFaceGeometry(face({ 48: [-4, -9], 54: [4, -9] }))!;
+    expect(interpretActionUnits(estimateActionUnits(face({ 48: [-4, -9], 54: [4, -9] }), personal)!).label).toBe("Relaxed");
+  });
+
+  it("needs the full landmark set", () => {
+    expect(estimateActionUnits(face().slice(0, 30))).toBeNull();
+  });
+});
+
+describe("ActionUnitTracker", () => {
+  const relaxed = estimateActionUnits(face())!;
+  const smiling = estimateActionUnits(face(SMILE))!;
+
+  it("smooths frame-to-frame jumps", () => {
+    const tracker = new ActionUnitTracker(300);
+    tracker.update(relaxed, 0);
+    const next = tracker.update(smiling, 300);
+    expect(next.intensities.AU12).toBeCloseTo(smiling.intensities.AU12 / 2, 1);
+  });
+
+  it("summarises the session with means, peaks and a per-second timeline", () => {
+    const tracker = new ActionUnitTracker(1);
+    const frames: ActionUnitReading[] = [relaxed, relaxed, smiling, smiling];
+    frames.forEach((reading, i) => tracker.update(reading, i * 500));
+
+    const summary = tracker.summary();
+    expect(summary.frames).toBe(4);
+    expect(summary.peak.AU12).toBe(smiling.intensities.AU12);
+    expect(summary.mean.AU12).toBeCloseTo(smiling.intensities.AU12 / 2, 1);
+    expect(summary.timeline.map(sample => sample.t)).toEqual([0, 1000]);
+
+    tracker.reset();
+    expect(tracker.summary().frames).toBe(0);
+  });
+});
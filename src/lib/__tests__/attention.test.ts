@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  ATTENTION_FRAME_INTERVAL,
+  AttentionTracker,
+  attentionSignal,
+  eyeAspectRatio,
+  shouldPauseSession
+} from "../attention";
+import type { Point } from "../faceQuality";
+import { AdaptiveFrameScheduler } from "../frameScheduler";
+import { estimateHeadPose } from "../headPose";
+
+// Mean 68-point face at roughly webcam scale, outer eye corners ~106 px apart
+const NEUTRAL: [number, number][] = [
+  [115.8, 147.8], [116.6, 171.4], [119.4, 195.1], [124.4, 218.4], [133.7, 240.1], [148.0, 259.1],
+  [165.1, 275.4], [184.5, 288.7], [206.4, 292.2], [228.3, 288.0], [247.6, 274.5], [264.9, 257.9],
+  [279.0, 238.5], [287.9, 216.3], [292.2, 192.4], [294.1, 168.4], [294.2, 144.4], [132.8, 129.8],
+  [143.6, 120.9], [158.3, 118.5], [173.5, 120.7], [187.9, 126.6], [217.3, 125.6], [232.0, 119.2],
+  [247.5, 116.5], [262.6, 118.6], [274.2, 127.1], [203.1, 143.7], [203.2, 159.2], [203.4, 174.8],
+  [203.6, 190.6], [186.7, 200.8], [195.1, 204.2], [204.1, 206.9], [213.2, 203.8], [221.4, 200.3],
+  [150.5, 146.2], [159.7, 140.5], [171.1, 140.6], [180.7, 147.7], [170.5, 150.0], [159.4, 150.1],
+  [226.3, 146.8], [235.8, 139.3], [247.2, 138.9], [256.6, 144.3], [248.1, 148.4], [237.0, 148.7],
+  [170.6, 229.2], [182.9, 223.8], [195.5, 221.4], [204.5, 223.4], [214.0, 221.1], [227.0, 223.1],
+  [239.9, 227.9], [227.9, 241.0], [215.3, 247.1], [205.1, 248.3], [195.3, 247.5], [182.8, 242.0],
+  [176.0, 230.0], [195.6, 229.0], [204.7, 229.8], [214.2, 228.7], [234.5, 228.8], [214.5, 235.3],
+  [204.8, 236.7], [195.5, 235.7]
+];
+
+function face(moves: Record<number, [number, number]> = {}): Point[] {
+  return NEUTRAL.map(([x, y], i) => ({ x: x + (moves[i]?.[0] ?? 0), y: y + (moves[i]?.[1] ?? 0) }));
+}
+
+// Upper lids lowered onto the lower ones
+const CLOSED = face({ 37: [0, 8], 38: [0, 8], 43: [0, 8], 44: [0, 8] });
+// Nose tip pushed sideways as when the head turns
+const TURNED = face({ 30: [25, 0] });
+
+// Feeds one face every `step` ms from `from` until `to`
+function feed(tracker: AttentionTracker, landmarks: Point[] | null, from: number, to: number, step = 100) {
+  let state = tracker.update(landmarks, from);
+  for (let t = from + step; t < to; t += step) state = tracker.update(landmarks, t);
+  return state;
+}
+
+describe("eyeAspectRatio", () => {
+  it("drops toward zero as the lids close", () => {
+    expect(eyeAspectRatio(face())).toBeCloseTo(0.31, 1);
+    expect(eyeAspectRatio(CLOSED)!).toBeLessThan(0.1);
+    expect(eyeAspectRatio([])).toBeNull();
+  });
+});
+
+describe("estimateHeadPose", () => {
+  it("reads a frontal face as level and a shifted nose as a turn", () => {
+    const frontal = estimateHeadPose(face())!;
+    expect(Math.abs(frontal.yaw)).toBeLessThan(3);
+    expect(Math.abs(frontal.pitch)).toBeLessThan(3);
+    expect(Math.abs(frontal.roll)).toBeLessThan(3);
+
+    expect(estimateHeadPose(TURNED)!.yaw).toBeGreaterThan(25);
+    expect(estimateHeadPose(face({ 30: [0, 25] }))!.pitch).toBeGreaterThan(20);
+  });
+});
+
+describe("AttentionTracker", () => {
+  it("counts short closures as blinks once enough fast frames were seen", () => {
+    const tracker = new AttentionTracker();
+    let state = feed(tracker, face(), 0, 2000);
+    expect(state.blinkRate).toBeNull();
+
+    // One 200 ms blink every 4 s for 28 s
+    for (let t = 2000; t < 30000; t += 4000) {
+      feed(tracker, face(), t, t + 3800);
+      state = feed(tracker, CLOSED, t + 3800, t + 4000);
+    }
+    state = tracker.update(face(), 30000);
+    expect(state.blinkRate).toBeGreaterThanOrEqual(14);
+    expect(state.blinkRate).toBeLessThanOrEqual(16);
+    expect(state.status).toBe("Engaged");
+  });
+
+  it("measures the blink rate at the pace the detector actually samples", () => {
+    // As FaceDetection runs it: default scheduler, capped for attention, 40 ms inference
+    const scheduler = new AdaptiveFrameScheduler();
+    scheduler.setMaxInterval(ATTENTION_FRAME_INTERVAL);
+    const tracker = new AttentionTracker();
+    const latency = 40;
+
+    // A 250 ms blink every 4 s for five minutes: 15 per minute
+    let state = tracker.update(face(), 0);
+    for (let t = 0; t < 300000;) {
+      t += scheduler.nextDelay(false) + latency;
+      state = tracker.update(t % 4000 >= 3750 ? CLOSED : face(), t);
+      scheduler.observe({ faceFound: true, expression: "neutral", box: { x: 100, y: 100, width: 180, height: 180 } }, latency, t);
+    }
+    expect(state.blinkRate).toBeGreaterThanOrEqual(14);
+    expect(state.blinkRate).toBeLessThanOrEqual(16);
+  });
+
+  it("does not count blinks when frames arrive too slowly to see them", () => {
+    const tracker = new AttentionTracker();
+    for (let t = 0; t < 40000; t += 1000) tracker.update(t % 4000 === 0 ? CLOSED : face(), t);
+    expect(tracker.state(40000).blinkRate).toBeNull();
+  });
+
+  it("reads a long eye closure as drowsy", () => {
+    const tracker = new AttentionTracker();
+    feed(tracker, face(), 0, 5000);
+    const state = feed(tracker, CLOSED, 5000, 7000);
+    expect(state.eyesClosedFor).toBeGreaterThanOrEqual(1500);
+    expect(state.status).toBe("Drowsy");
+    expect(shouldPauseSession(state)).toBe(true);
+  });
+
+  it("tracks how long the user has looked away, including a lost face", () => {
+    const tracker = new AttentionTracker();
+    feed(tracker, face(), 0, 5000);
+    let state = feed(tracker, TURNED, 5000, 6000);
+    expect(state.lookingAway).toBe(true);
+    expect(state.status).toBe("Engaged");
+
+    state = feed(tracker, null, 6000, 9000);
+    expect(state.awayFor).toBeGreaterThanOrEqual(3000);
+    expect(state.status).toBe("Away");
+    expect(shouldPauseSession(state)).toBe(true);
+
+    state = tracker.update(face(), 9000);
+    expect(state.awayFor).toBe(0);
+    expect(state.status).toBe("Distracted");
+    expect(shouldPauseSession(state)).toBe(false);
+  });
+
+  it("does not mistake a turned head for closed eyes", () => {
+    const tracker = new AttentionTracker();
+    feed(tracker, face(), 0, 5000);
+    const state = feed(tracker, face({ 30: [25, 0], 37: [0, 5], 38: [0, 5], 43: [0, 5], 44: [0, 5] }), 5000, 7000);
+    expect(state.eyesClosedFor).toBe(0);
+    expect(state.perclos).toBe(0);
+  });
+});
+
+describe("attentionSignal", () => {
+  it("reports drowsiness with full confidence during a long closure and nothing while away", () => {
+    const tracker = new AttentionTracker();
+    feed(tracker, face(), 0, 5000);
+    expect(attentionSignal(feed(tracker, CLOSED, 5000, 7000), 7000)).toEqual({ emotion: "Drowsy", confidence: 1, timestamp: 7000 });
+    expect(attentionSignal(feed(tracker, null, 7000, 11000), 11000)).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { AudioHistory, downsample, encodeWav, resample, toBase64 } from "../audioClip";
+
+const RATE = 1000; // one sample per ms keeps the arithmetic readable
+
+describe("AudioHistory", () => {
+  it("cuts a clip out of consecutive chunks", () => {
+    const history = new AudioHistory(RATE);
+    // Chunk i holds the value i for 100 ms ending at (i + 1) * 100
+    for (let i = 0; i < 10; i++) history.push(new Float32Array(100).fill(i), (i + 1) * 100);
+    const clip = history.slice(400, 500);
+    // 150 ms of padding either side
+    expect(clip.length).toBe(400);
+    expect(clip[0]).toBe(2);
+    expect(clip[clip.length - 1]).toBe(6);
+  });
+
+  it("keeps only the most recent audio when a clip is capped", () => {
+    const history = new AudioHistory(RATE);
+    for (let i = 0; i < 10; i++) history.push(new Float32Array(100).fill(i), (i + 1) * 100);
+    const clip = history.slice(0, 900, 300);
+    expect(clip.length).toBe(250);
+    expect(clip[clip.length - 1]).toBe(9);
+  });
+
+  it("forgets audio older than its history", () => {
+    const history = new AudioHistory(RATE, 500);
+    for (let i = 0; i < 10; i++) history.push(new Float32Array(100).fill(i), (i + 1) * 100);
+    expect(history.slice(0, 200)).toHaveLength(0);
+  });
+
+  it("copies the buffers it is handed", () => {
+    const history = new AudioHistory(RATE);
+    const buffer = new Float32Array(100).fill(1);
+    history.push(buffer, 100);
+    buffer.fill(0);
+    expect(history.slice(0, 100)[50]).toBe(1);
+  });
+});
+
+describe("encodeWav", () => {
+  it("writes a 16-bit mono PCM header and clamps samples", () => {
+    const { samples, sampleRate } = downsample(Float32Array.from([0.5, 0.5, 2, 2, -2, -2]), 32000, 16000);
+    expect(sampleRate).toBe(16000);
+    const bytes = encodeWav(samples, sampleRate);
+    const view = new DataView(bytes.buffer);
+    expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe("RIFF");
+    expect(String.fromCharCode(...bytes.subarray(8, 12))).toBe("WAVE");
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(40, true)).toBe(6);
+    expect(view.getInt16(44, true)).toBe(Math.round(0.5 * 0x7fff - 0.5));
+    expect(view.getInt16(46, true)).toBe(0x7fff);
+    expect(view.getInt16(48, true)).toBe(-0x8000);
+    expect(toBase64(bytes).startsWith("UklGR")).toBe(true);
+  });
+});
+
+describe("resample", () => {
+  it("reaches an exact rate from one that isn't a multiple of it", () => {
+    const rate = 44100;
+    const input = Float32Array.from({ length: rate }, (_, i) => Math.sin((2 * Math.PI * 200 * i) / rate));
+    const output = resample(input, rate, 16000);
+    expect(output.length).toBeGreaterThanOrEqual(15999);
+    expect(output.length).toBeLessThanOrEqual(16000);
+    // Still a 200 Hz tone: 400 zero crossings in one second
+    let crossings = 0;
+    for (let i = 1; i < output.length; i++) if ((output[i - 1] < 0) !== (output[i] < 0)) crossings++;
+    expect(Math.abs(crossings - 400)).toBeLessThanOrEqual(2);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCalibration,
+  buildReliabilityReport,
+  crossValidateCalibration,
+  fitCalibration,
+  IDENTITY_CALIBRATION,
+  MIN_CALIBRATION_SAMPLES,
+  type CalibrationSample
+} from "../confidenceCalibration";
+
+// `count` readings at `confidence`, of which `correct` were confirmed by the user
+function samplesAt(confidence: number, count: number, correct: number): CalibrationSample[] {
+  return Array.from({ length: count }, (_, i) => ({ confidence, correct: i < correct }));
+}
+
+describe("fitCalibration", () => {
+  it("stays the identity until enough readings are labelled", () => {
+    const model = fitCalibration(samplesAt(90, MIN_CALIBRATION_SAMPLES - 1, 0));
+    expect(model.knots).toEqual([]);
+    expect(applyCalibration(model, 90)).toBe(90);
+  });
+
+  it("pulls an over-confident fusion down toward observed accuracy", () => {
+    const model = fitCalibration([...samplesAt(60, 20, 10), ...samplesAt(90, 20, 12)]);
+
+    expect(applyCalibration(model, 90)).toBeLessThan(70);
+    expect(applyCalibration(model, 90)).toBeGreaterThan(50);
+  });
+
+  it("produces a non-decreasing map even when accuracy dips", () => {
+    const model = fitCalibration([
+      ...samplesAt(55, 10, 3),
+      ...samplesAt(70, 10, 8),
+      ...samplesAt(80, 10, 5),
+      ...samplesAt(95, 10, 9)
+    ]);
+
+    const mapped = [50, 60, 70, 75, 80, 90, 98].map(c => applyCalibration(model, c));
+    mapped.slice(1).forEach((value, i) => expect(value).toBeGreaterThanOrEqual(mapped[i]));
+  });
+
+  it("never reports certainty, even when every reading was confirmed", () => {
+    const model = fitCalibration(samplesAt(95, MIN_CALIBRATION_SAMPLES, MIN_CALIBRATION_SAMPLES));
+    expect(applyCalibration(model, 95)).toBe(98);
+  });
+});
+
+describe("applyCalibration", () => {
+  it("interpolates between knots and clamps outside them", () => {
+    const model = { knots: [{ confidence: 60, accuracy: 40 }, { confidence: 80, accuracy: 60 }], sampleCount: 40 };
+
+    expect(applyCalibration(model, 70)).toBe(50);
+    expect(applyCalibration(model, 50)).toBe(40);
+    expect(applyCalibration(model, 98)).toBe(60);
+  });
+
+  it("passes confidence through unchanged with the identity model", () => {
+    expect(applyCalibration(IDENTITY_CALIBRATION, 73)).toBe(73);
+  });
+});
+
+describe("crossValidateCalibration", () => {
+  it("scores each reading with a fit that did not see its label", () => {
+    const samples = Array.from({ length: 40 }, (_, i) => ({ confidence: 50 + i, correct: i % 3 !== 0 }));
+    const flipped = samples.map((sample, i) => (i === 20 ? { ...sample, correct: !sample.correct } : sample));
+
+    expect(crossValidateCalibration(flipped)[20].confidence).toBe(crossValidateCalibration(samples)[20].confidence);
+    expect(applyCalibration(fitCalibration(flipped), 70)).not.toBe(applyCalibration(fitCalibration(samples), 70));
+  });
+
+  it("leaves confidences unchanged when the folds are too small to fit", () => {
+    const samples = samplesAt(80, MIN_CALIBRATION_SAMPLES, 10);
+    expect(crossValidateCalibration(samples).map(sample => sample.confidence)).toEqual(samples.map(() => 80));
+  });
+});
+
+describe("buildReliabilityReport", () => {
+  it("compares claimed confidence with accuracy per bin", () => {
+    const report = buildReliabilityReport([...samplesAt(85, 10, 6), ...samplesAt(55, 4, 2)]);
+    const high = report.bins.find(bin => bin.from === 80)!;
+    const low = report.bins.find(bin => bin.from === 50)!;
+
+    expect(high).toMatchObject({ count: 10, meanConfidence: 85, accuracy: 60 });
+    expect(low).toMatchObject({ count: 4, meanConfidence: 55, accuracy: 50 });
+    expect(report.sampleCount).toBe(14);
+    // (10 * 25 + 4 * 5) / 14
+    expect(report.expectedCalibrationError).toBe(19);
+  });
+
+  it("puts 100% confidence in the top bin", () => {
+    const report = buildReliabilityReport(samplesAt(100, 3, 3));
+    expect(report.bins[report.bins.length - 1].count).toBe(3);
+  });
+
+  it("reports zero error with no labelled readings", () => {
+    expect(buildReliabilityReport([]).expectedCalibrationError).toBe(0);
+  });
+});
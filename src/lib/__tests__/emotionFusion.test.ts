@@ -0,0 +1,249 @@
+import { describe, expect, it } from "vitest";
+import {
+  CORE_EMOTIONS,
+  SIGNAL_TTL,
+  getFinalEmotion,
+  type DropReason,
+  type EmotionData,
+  type Modality
+} from "../emotionFusion";
+import { classifyHeartRate, computeHeartRateBaseline } from "../heartRateBaseline";
+
+// Fixed clock: every timestamp in this file is relative to NOW, never Date.now()
+const NOW = 1_700_000_000_000;
+
+interface FusionCase {
+  name: string;
+  data: EmotionData;
+  expected: string;
+  confidence?: number;
+  dropped?: Partial<Record<Modality, DropReason>>;
+}
+
+const cases: FusionCase[] = [
+  {
+    name: "strong face agreement",
+    data: { face: "Happy", text: "Neutral", voice: "Calm", heartRate: 72 },
+    expected: "Joy"
+  },
+  {
+    name: "face outweighs conflicting text",
+    data: { face: "Sad", text: "Joy", voice: "Calm", heartRate: 72 },
+    expected: "Sadness"
+  },
+  {
+    name: "face and text converge",
+    data: { face: "Angry", text: "Anger", voice: "Silence", heartRate: 85 },
+    expected: "Anger"
+  },
+  {
+    name: "text outweighs voice without a face",
+    data: { face: "", text: "Joy", voice: "Unsettled", heartRate: 70 },
+    expected: "Joy"
+  },
+  {
+    name: "voice-only Stressed maps to Anxiety",
+    data: { face: "", text: "", voice: "Stressed", heartRate: 70 },
+    expected: "Anxiety"
+  },
+  {
+    name: "voice-only Excited maps to Joy",
+    data: { face: "", text: "", voice: "Excited", heartRate: 70 },
+    expected: "Joy"
+  },
+  {
+    name: "strong text-only signal is re-normalized to full weight",
+    data: { text: { emotion: "Sad", confidence: 0.9, timestamp: NOW }, heartRate: 70 },
+    expected: "Sadness",
+    confidence: 90,
+    dropped: { face: "absent", voice: "absent" }
+  },
+  {
+    name: "weak face reading is gated out",
+    data: { face: { emotion: "Happy", confidence: 0.2, timestamp: NOW }, text: "Sad", heartRate: 70 },
+    expected: "Sadness",
+    dropped: { face: "below_threshold", voice: "absent" }
+  },
+  {
+    name: "no live modality falls back to Neutral",
+    data: { face: "", text: "", voice: "", heartRate: "N/A" },
+    expected: "Neutral",
+    confidence: 50,
+    dropped: { face: "absent", text: "absent", voice: "absent" }
+  }
+];
+
+describe("getFinalEmotion", () => {
+  it.each(cases)("$name", ({ data, expected, confidence, dropped }) => {
+    const result = getFinalEmotion(data, undefined, NOW);
+
+    expect(result.finalEmotion).toBe(expected);
+    if (confidence !== undefined) expect(result.confidence).toBe(confidence);
+    if (dropped) expect(result.explanation.dropped).toMatchObject(dropped);
+  });
+
+  it("returns probabilities over every core emotion that sum to 100", () => {
+    const result = getFinalEmotion(
+      { face: { emotion: "Happy", confidence: 0.7, timestamp: NOW }, text: "Sad", voice: "Calm", heartRate: 72 },
+      undefined,
+      NOW
+    );
+
+    expect(Object.keys(result.probabilities).sort()).toEqual([...CORE_EMOTIONS].sort());
+    expect(Object.values(result.probabilities).reduce((sum, p) => sum + p, 0)).toBe(100);
+  });
+
+  it("re-normalizes effective weights over live modalities", () => {
+    const result = getFinalEmotion({ face: "", text: "Joy", voice: "Calm", heartRate: 70 }, undefined, NOW);
+    const total = Object.values(result.weights).reduce((sum, w) => sum! + w!, 0)!;
+
+    expect(Object.keys(result.weights).sort()).toEqual(["text", "voice"]);
+    expect(total).toBeCloseTo(1);
+  });
+
+  it("respects caller-supplied base weights", () => {
+    const data: EmotionData = { face: "Sad", text: "Joy", voice: "", heartRate: 70 };
+
+    expect(getFinalEmotion(data, undefined, NOW).finalEmotion).toBe("Sadness");
+    expect(getFinalEmotion(data, { face: 0.2, text: 0.6, voice: 0.2 }, NOW).finalEmotion).toBe("Joy");
+  });
+});
+
+describe("signal TTL", () => {
+  const joyAt = (timestamp: number): EmotionData => ({
+    face: { emotion: "Happy", confidence: 0.9, timestamp },
+    text: "Neutral",
+    voice: "",
+    heartRate: 70
+  });
+
+  it("keeps a reading that is exactly at the TTL", () => {
+    const result = getFinalEmotion(joyAt(NOW - SIGNAL_TTL), undefined, NOW);
+    expect(result.explanation.dropped.face).toBeUndefined();
+    expect(result.finalEmotion).toBe("Joy");
+  });
+
+  it("expires a reading one millisecond past the TTL", () => {
+    const result = getFinalEmotion(joyAt(NOW - SIGNAL_TTL - 1), undefined, NOW);
+    expect(result.explanation.dropped.face).toBe("expired");
+    expect(result.explanation.signals.face).toBe("Signal Expired");
+    expect(result.finalEmotion).toBe("Neutral");
+  });
+
+  it("hands the decision to the remaining live modality once the face expires", () => {
+    const result = getFinalEmotion({
+      face: { emotion: "Happy", confidence: 0.95, timestamp: NOW - 40000 },
+      text: "",
+      voice: { emotion: "Stressed", confidence: 0.8, timestamp: NOW },
+      heartRate: 70
+    }, undefined, NOW);
+
+    expect(result.finalEmotion).toBe("Anxiety");
+    expect(result.confidence).toBe(80);
+    expect(result.explanation.dropped).toMatchObject({ face: "expired", text: "absent" });
+  });
+
+  it("ignores a stale heart-rate spike", () => {
+    const data: EmotionData = { face: "Happy", heartRate: 130, heartRateTimestamp: NOW - SIGNAL_TTL - 1 };
+    expect(getFinalEmotion(data, undefined, NOW).finalEmotion).toBe("Joy");
+    expect(getFinalEmotion({ ...data, heartRateTimestamp: NOW }, undefined, NOW).finalEmotion).toBe("Panic/Distress");
+  });
+});
+
+describe("heart-rate override", () => {
+  it("raises Panic/Distress above the default critical threshold", () => {
+    const result = getFinalEmotion({ face: "Happy", text: "Neutral", voice: "Calm", heartRate: 120 }, undefined, NOW);
+    expect(result.finalEmotion).toBe("Panic/Distress");
+    expect(result.confidence).toBe(95);
+  });
+
+  it("does not flag a high personal resting rate", () => {
+    const result = getFinalEmotion({
+      face: "Happy",
+      heartRate: 115,
+      heartRateBaseline: { restingBpm: 85, spread: 10, sampleCount: 20 }
+    }, undefined, NOW);
+    expect(result.finalEmotion).toBe("Joy");
+  });
+
+  it("flags a smaller rise for a low personal resting rate", () => {
+    const result = getFinalEmotion({
+      face: "Neutral",
+      heartRate: 105,
+      heartRateBaseline: { restingBpm: 55, spread: 8, sampleCount: 20 }
+    }, undefined, NOW);
+    expect(result.finalEmotion).toBe("Panic/Distress");
+  });
+
+  it("does not flag an ordinary rate against a tight low baseline", () => {
+    const baseline = computeHeartRateBaseline([58, 59, 60, 60, 61, 62, 59, 60]);
+    expect(baseline.spread).toBe(5);
+    expect(classifyHeartRate(80, baseline)).not.toBe("critical");
+    const result = getFinalEmotion({ text: "Happy", heartRate: 80, heartRateBaseline: baseline }, undefined, NOW);
+    expect(result.finalEmotion).toBe("Joy");
+  });
+});
+
+describe("attention", () => {
+  const sadText: EmotionData = { text: { emotion: "Sad", confidence: 0.8, timestamp: NOW }, heartRate: "N/A" };
+  const withAttention = (emotion: string, confidence = 0.9): EmotionData => ({
+    ...sadText,
+    signals: { attention: { emotion, confidence, timestamp: NOW } }
+  });
+
+  it("does not vote for Neutral or lower the winning emotion's confidence", () => {
+    const alone = getFinalEmotion(sadText, undefined, NOW);
+    const engaged = getFinalEmotion(withAttention("Engaged"), undefined, NOW);
+
+    expect(engaged.finalEmotion).toBe("Sadness");
+    expect(engaged.confidence).toBe(alone.confidence);
+    expect(engaged.probabilities).toEqual(alone.probabilities);
+    expect(engaged.contributions.attention).toBeUndefined();
+  });
+
+  it("moves arousal instead", () => {
+    const alone = getFinalEmotion(sadText, undefined, NOW);
+    expect(getFinalEmotion(withAttention("Drowsy"), undefined, NOW).affect.arousal).toBeLessThan(alone.affect.arousal);
+    expect(getFinalEmotion(withAttention("Distracted"), undefined, NOW).affect.arousal).toBeGreaterThan(alone.affect.arousal);
+  });
+});
+
+describe("respiration", () => {
+  const calm: EmotionData = { face: "Neutral", heartRate: "N/A" };
+
+  it("raises arousal with fast breathing and lowers it with slow breathing", () => {
+    const fast = getFinalEmotion({ ...calm, respirationRate: 24, respirationTimestamp: NOW }, undefined, NOW);
+    const slow = getFinalEmotion({ ...calm, respirationRate: 8, respirationTimestamp: NOW }, undefined, NOW);
+    expect(getFinalEmotion(calm, undefined, NOW).affect.arousal).toBe(0);
+    expect(fast.affect.arousal).toBeGreaterThan(0.15);
+    expect(slow.affect.arousal).toBeLessThan(-0.1);
+    expect(fast.finalEmotion).toBe("Neutral");
+  });
+
+  it("describes the rate and regularity, and ignores stale readings", () => {
+    const result = getFinalEmotion({
+      ...calm, respirationRate: 22, respirationRegularity: 0.2, respirationTimestamp: NOW
+    }, undefined, NOW);
+    expect(result.explanation.respiration).toBe("22 breaths/min (irregular)");
+
+    const stale = getFinalEmotion({
+      ...calm, respirationRate: 22, respirationTimestamp: NOW - SIGNAL_TTL - 1
+    }, undefined, NOW);
+    expect(stale.explanation.respiration).toBe("Inactive");
+    expect(stale.affect.arousal).toBe(0);
+  });
+});
+
+describe("conflict detection", () => {
+  it("reports masking when a smiling face contradicts negative speech", () => {
+    const result = getFinalEmotion({ face: "Happy", text: "Sad", voice: "Stressed", heartRate: 72 }, undefined, NOW);
+    expect(result.explanation.conflict?.pattern).toBe("masking");
+    expect(result.explanation.conflict?.modalities[0]).toBe("face");
+  });
+
+  it("reports full agreement for a single live modality", () => {
+    const result = getFinalEmotion({ face: "Happy", heartRate: 72 }, undefined, NOW);
+    expect(result.explanation.agreement).toBe(100);
+    expect(result.explanation.conflict).toBeNull();
+  });
+});
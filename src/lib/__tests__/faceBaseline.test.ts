@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { applyFaceBaseline, computeFaceBaseline, MIN_BASELINE_FRAMES } from "../faceBaseline";
+import type { ExpressionProbabilities } from "../mlModels/ferModel";
+
+const expressions = (values: Partial<ExpressionProbabilities>): ExpressionProbabilities => ({
+  neutral: 0, happy: 0, sad: 0, angry: 0, fearful: 0, disgusted: 0, surprised: 0, ...values
+});
+
+const top = (probabilities: ExpressionProbabilities) =>
+  Object.entries(probabilities).reduce((a, b) => (a[1] > b[1] ? a : b));
+
+// A resting face the expression net reads as mostly sad
+const RESTING_SAD = expressions({ neutral: 0.35, sad: 0.6, angry: 0.05 });
+
+describe("applyFaceBaseline", () => {
+  it("reads the user's own resting face as neutral", () => {
+    const adjusted = applyFaceBaseline(RESTING_SAD, RESTING_SAD);
+    expect(top(adjusted)[0]).toBe("neutral");
+    expect(adjusted.neutral).toBeCloseTo(1);
+  });
+
+  it("still reports an expression stronger than the resting one", () => {
+    const adjusted = applyFaceBaseline(expressions({ neutral: 0.03, sad: 0.95, angry: 0.02 }), RESTING_SAD);
+    expect(top(adjusted)[0]).toBe("sad");
+    expect(adjusted.sad).toBeCloseTo(0.875);
+  });
+
+  it("leaves other expressions almost untouched", () => {
+    const adjusted = applyFaceBaseline(expressions({ neutral: 0.1, happy: 0.9 }), RESTING_SAD);
+    expect(adjusted.happy).toBeCloseTo(0.9);
+    expect(top(adjusted)[0]).toBe("happy");
+  });
+
+  it("keeps the result a probability distribution", () => {
+    const adjusted = applyFaceBaseline(expressions({ happy: 0.5, surprised: 0.5 }), expressions({ neutral: 1 }));
+    const total = Object.values(adjusted).reduce((sum, value) => sum + value, 0);
+    expect(total).toBeCloseTo(1);
+  });
+
+  it("passes expressions through without a baseline", () => {
+    expect(applyFaceBaseline(RESTING_SAD, null)).toEqual(RESTING_SAD);
+  });
+});
+
+describe("computeFaceBaseline", () => {
+  const frame = (sad: number) => ({ expressions: expressions({ neutral: 1 - sad, sad }), landmarks: [] });
+
+  it("needs enough frames", () => {
+    expect(computeFaceBaseline(Array.from({ length: MIN_BASELINE_FRAMES - 1 }, () => frame(0.5)))).toBeNull();
+  });
+
+  it("averages the resting expressions and leaves missing parts empty", () => {
+    const frames = Array.from({ length: MIN_BASELINE_FRAMES }, (_, i) => frame(i % 2 === 0 ? 0.5 : 0.7));
+    const baseline = computeFaceBaseline(frames, new Date("2026-01-01T00:00:00Z"))!;
+    expect(baseline.expressions.sad).toBeCloseTo(0.6);
+    expect(baseline.expressions.neutral).toBeCloseTo(0.4);
+    expect(baseline.fer).toBeNull();
+    expect(baseline.geometry).toBeNull(); // no landmarks to measure
+    expect(baseline.frames).toBe(MIN_BASELINE_FRAMES);
+    expect(baseline.capturedAt).toBe("2026-01-01T00:00:00.000Z");
+  });
+});
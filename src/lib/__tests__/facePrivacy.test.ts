@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { carriesImageData, facePrivacy, requestCarriesImageData } from "../facePrivacy";
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+describe("carriesImageData", () => {
+  it("spots encoded frames in every body shape a request can take", () => {
+    expect(carriesImageData("data:image/jpeg;base64,/9j/4AAQSkZJRg")).toBe(true);
+    expect(carriesImageData(JSON.stringify({ frame: "/9j/4AAQSkZJRgABAQ" }))).toBe(true);
+    expect(carriesImageData(new Blob([JPEG], { type: "image/jpeg" }))).toBe(true);
+    expect(carriesImageData(JPEG)).toBe(true);
+    expect(carriesImageData(JPEG.buffer)).toBe(true);
+
+    const form = new FormData();
+    form.append("note", "hello");
+    form.append("frame", new Blob([JPEG], { type: "image/png" }));
+    expect(carriesImageData(form)).toBe(true);
+  });
+
+  it("refuses bodies it cannot read synchronously", () => {
+    expect(carriesImageData(new ReadableStream())).toBe(true);
+    expect(carriesImageData(new Blob([JPEG]))).toBe(true);
+  });
+
+  it("lets derived signals through", () => {
+    expect(carriesImageData(undefined)).toBe(false);
+    expect(carriesImageData(JSON.stringify({ emotion: "Happy", confidence: 0.8 }))).toBe(false);
+    expect(carriesImageData(new Blob(["{}"], { type: "application/json" }))).toBe(false);
+    expect(carriesImageData(new Float32Array([0.1, 0.2, 0.3]))).toBe(false);
+  });
+});
+
+describe("requestCarriesImageData", () => {
+  it("reads the body of a Request without consuming it", async () => {
+    const url = "https://example.com/upload";
+    const encoded = new Request(url, { method: "POST", body: JSON.stringify({ frame: "/9j/4AAQSkZJRgABAQ" }) });
+    expect(await requestCarriesImageData(encoded)).toBe(true);
+    expect(await encoded.text()).toContain("/9j/");
+
+    expect(await requestCarriesImageData(new Request(url, { method: "POST", body: JPEG }))).toBe(true);
+    expect(await requestCarriesImageData(new Request(url, { method: "POST", body: "{}", headers: { "content-type": "image/png" } }))).toBe(true);
+    expect(await requestCarriesImageData(new Request(url, { method: "POST", body: JSON.stringify({ emotion: "Happy" }) }))).toBe(false);
+    expect(await requestCarriesImageData(new Request(url))).toBe(false);
+  });
+});
+
+describe("facePrivacy", () => {
+  it("only audits derived signals while privacy mode is on", () => {
+    facePrivacy.clearAudit();
+    facePrivacy.record("face_expression", 1000);
+    expect(facePrivacy.getState().audit.signals).toEqual({});
+
+    facePrivacy.update({ enabled: true });
+    facePrivacy.record("face_expression", 10000);
+    facePrivacy.record("face_expression", 10200);
+    facePrivacy.record("attention", 20000);
+
+    const { audit } = facePrivacy.getState();
+    expect(audit.signals.face_expression).toEqual({ count: 2, firstAt: 10000, lastAt: 10200 });
+    expect(audit.signals.attention?.count).toBe(1);
+    expect(audit.blocked).toEqual([]);
+    facePrivacy.update({ enabled: false });
+  });
+});
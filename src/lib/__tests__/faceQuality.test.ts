@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { assessFaceQuality, MIN_FACE_QUALITY, type FaceQualityInput, type Point } from "../faceQuality";
+
+// 68-point layout where only the landmarks the quality check reads are placed
+const landmarks = (overrides: { chin?: Point; nose?: Point; leftEye?: Point; rightEye?: Point } = {}): Point[] => {
+  const points: Point[] = Array.from({ length: 68 }, () => ({ x: 0, y: 0 }));
+  points[8] = overrides.chin ?? { x: 100, y: 200 };
+  points[30] = overrides.nose ?? { x: 100, y: 131 };
+  points[36] = overrides.leftEye ?? { x: 60, y: 100 };
+  points[45] = overrides.rightEye ?? { x: 140, y: 100 };
+  return points;
+};
+
+const frontal: FaceQualityInput = {
+  box: { x: 40, y: 60, width: 160, height: 180 },
+  frameWidth: 640,
+  detectionScore: 0.9,
+  landmarks: landmarks(),
+  brightness: 130
+};
+
+describe("assessFaceQuality", () => {
+  it("scores a well-lit frontal face as clean", () => {
+    expect(assessFaceQuality(frontal)).toEqual({ score: 1, issues: [] });
+  });
+
+  it("flags a distant face", () => {
+    const quality = assessFaceQuality({ ...frontal, box: { ...frontal.box, width: 48 } });
+    expect(quality.issues).toEqual(["too_small"]);
+    expect(quality.score).toBeLessThan(MIN_FACE_QUALITY);
+  });
+
+  it("flags a head turned to the side", () => {
+    const quality = assessFaceQuality({ ...frontal, landmarks: landmarks({ nose: { x: 130, y: 131 } }) });
+    expect(quality.issues).toEqual(["turned_away"]);
+  });
+
+  it("flags a tilted head", () => {
+    const quality = assessFaceQuality({
+      ...frontal,
+      landmarks: landmarks({ leftEye: { x: 60, y: 80 }, rightEye: { x: 140, y: 120 }, nose: { x: 100, y: 131 } })
+    });
+    expect(quality.issues).toContain("tilted");
+  });
+
+  it("flags lighting at both extremes", () => {
+    expect(assessFaceQuality({ ...frontal, brightness: 30 }).issues).toEqual(["too_dark"]);
+    expect(assessFaceQuality({ ...frontal, brightness: 245 }).issues).toEqual(["too_bright"]);
+  });
+
+  it("treats a weak detection as occlusion", () => {
+    const quality = assessFaceQuality({ ...frontal, detectionScore: 0.45 });
+    expect(quality.issues).toEqual(["occluded"]);
+  });
+
+  it("combines checks multiplicatively and orders issues worst first", () => {
+    const quality = assessFaceQuality({ ...frontal, brightness: 55, detectionScore: 0.5 });
+    expect(quality.issues).toEqual(["occluded", "too_dark"]);
+    expect(quality.score).toBeCloseTo(0.33 * 0.38, 1);
+  });
+
+  it("skips pose checks when landmarks are missing", () => {
+    expect(assessFaceQuality({ ...frontal, landmarks: [] }).score).toBe(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import * as tf from "@tensorflow/tfjs";
+import { EXPRESSION_LABELS, predictEmotion, type FrameSource } from "../mlModels/ferModel";
+
+// Stands in for the classifier: records the tensor it was fed and returns a fixed head output
+function stubModel(output: number[]) {
+  const calls: { shape: number[]; values: Float32Array }[] = [];
+  const model = {
+    predict: (input: tf.Tensor) => {
+      calls.push({ shape: input.shape, values: input.dataSync() as Float32Array });
+      return tf.tensor2d([output]);
+    }
+  } as unknown as tf.LayersModel;
+  return { model, calls };
+}
+
+// RGBA frame filled by (x, y) -> [r, g, b]
+function frame(width: number, height: number, colour: (x: number, y: number) => [number, number, number]): FrameSource {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      [data[i], data[i + 1], data[i + 2]] = colour(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+const UNIFORM = [1, 1, 1, 1, 1, 1, 1].map(v => v / 7);
+
+beforeAll(async () => {
+  await tf.setBackend("cpu");
+});
+
+describe("predictEmotion preprocessing", () => {
+  it("feeds a 48x48 single-channel luma image scaled to [0, 1]", async () => {
+    const { model, calls } = stubModel(UNIFORM);
+    await predictEmotion(model, frame(10, 6, () => [255, 0, 0]));
+
+    expect(calls[0].shape).toEqual([1, 48, 48, 1]);
+    for (const value of calls[0].values) expect(value).toBeCloseTo(0.299, 4);
+
+    await predictEmotion(model, frame(10, 6, () => [128, 128, 128]));
+    for (const value of calls[1].values) expect(value).toBeCloseTo(128 / 255, 4);
+  });
+
+  it("crops to the face box, margin included, before resizing", async () => {
+    // White face on a black background; the whole frame averages well below 1
+    const image = frame(40, 40, (x, y) => (x >= 10 && x < 30 && y >= 10 && y < 30 ? [255, 255, 255] : [0, 0, 0]));
+    const { model, calls } = stubModel(UNIFORM);
+
+    await predictEmotion(model, image);
+    await predictEmotion(model, image, { x: 14, y: 14, width: 12, height: 12 });
+
+    const mean = (values: Float32Array) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    expect(mean(calls[0].values)).toBeLessThan(0.5);
+    expect(calls[1].shape).toEqual([1, 48, 48, 1]);
+    for (const value of calls[1].values) expect(value).toBeCloseTo(1, 4);
+  });
+});
+
+describe("predictEmotion outputs", () => {
+  it("maps the FER-2013 head order onto the face-api label names", async () => {
+    // angry, disgusted, fearful, happy, sad, surprised, neutral
+    const { model } = stubModel([0.01, 0.02, 0.03, 0.6, 0.1, 0.04, 0.2]);
+    const prediction = await predictEmotion(model, frame(4, 4, () => [90, 90, 90]));
+
+    expect(Object.keys(prediction.probabilities).sort()).toEqual([...EXPRESSION_LABELS].sort());
+    expect(prediction.probabilities.angry).toBeCloseTo(0.01, 6);
+    expect(prediction.probabilities.disgusted).toBeCloseTo(0.02, 6);
+    expect(prediction.probabilities.fearful).toBeCloseTo(0.03, 6);
+    expect(prediction.probabilities.happy).toBeCloseTo(0.6, 6);
+    expect(prediction.probabilities.sad).toBeCloseTo(0.1, 6);
+    expect(prediction.probabilities.surprised).toBeCloseTo(0.04, 6);
+    expect(prediction.probabilities.neutral).toBeCloseTo(0.2, 6);
+    expect(prediction.expression).toBe("happy");
+    expect(prediction.score).toBeCloseTo(0.6, 6);
+  });
+
+  it("keeps a softmax head's probabilities as they are", async () => {
+    const output = [0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.4];
+    const { model } = stubModel(output);
+    const prediction = await predictEmotion(model, frame(4, 4, () => [90, 90, 90]));
+
+    expect(prediction.expression).toBe("neutral");
+    expect(prediction.probabilities.neutral).toBeCloseTo(0.4, 6);
+    expect(prediction.probabilities.angry).toBeCloseTo(0.1, 6);
+  });
+
+  it("applies softmax to a head that returns raw logits", async () => {
+    const { model } = stubModel([0, 0, 0, 0, 0, 3, 0]);
+    const prediction = await predictEmotion(model, frame(4, 4, () => [90, 90, 90]));
+
+    const total = Object.values(prediction.probabilities).reduce((sum, p) => sum + p, 0);
+    expect(total).toBeCloseTo(1, 5);
+    expect(prediction.expression).toBe("surprised");
+    expect(prediction.score).toBeCloseTo(Math.exp(3) / (Math.exp(3) + 6), 5);
+    expect(prediction.probabilities.angry).toBeCloseTo(1 / (Math.exp(3) + 6), 5);
+  });
+});
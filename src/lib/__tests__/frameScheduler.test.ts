@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { AdaptiveFrameScheduler, type FrameObservation } from "../frameScheduler";
+
+const steady: FrameObservation = { faceFound: true, expression: "happy", box: { x: 200, y: 120, width: 160, height: 180 } };
+
+// Feeds `count` identical observations 100 ms apart and returns the next delay
+function settle(scheduler: AdaptiveFrameScheduler, observation: FrameObservation, count: number, latency = 0) {
+  for (let i = 0; i < count; i++) scheduler.observe(observation, latency, i * 100);
+  return scheduler.nextDelay(false);
+}
+
+describe("AdaptiveFrameScheduler", () => {
+  it("backs off while the face is stable, up to the ceiling", () => {
+    const scheduler = new AdaptiveFrameScheduler({ minInterval: 100, maxInterval: 1000, backoff: 2 });
+    expect(settle(scheduler, steady, 1)).toBe(100);
+    expect(settle(scheduler, steady, 2)).toBe(400);
+    expect(settle(scheduler, steady, 10)).toBe(1000);
+  });
+
+  it("ignores small jitter in the face box", () => {
+    const scheduler = new AdaptiveFrameScheduler({ backoff: 2 });
+    settle(scheduler, steady, 3);
+    scheduler.observe({ ...steady, box: { ...steady.box!, x: steady.box!.x + 4 } }, 0, 400);
+    expect(scheduler.nextDelay(false)).toBeGreaterThan(100);
+  });
+
+  it.each([
+    ["the expression changes", { ...steady, expression: "sad" }],
+    ["the face moves", { ...steady, box: { ...steady.box!, x: steady.box!.x + 40 } }],
+    ["the face leaves", { faceFound: false }]
+  ])("speeds back up when %s", (_, observation) => {
+    const scheduler = new AdaptiveFrameScheduler({ minInterval: 100, backoff: 2 });
+    settle(scheduler, steady, 5);
+    scheduler.observe(observation, 0, 600);
+    expect(scheduler.nextDelay(false)).toBe(100);
+  });
+
+  it("slows to the hidden interval in a background tab", () => {
+    const scheduler = new AdaptiveFrameScheduler({ hiddenInterval: 2000 });
+    settle(scheduler, steady, 1);
+    expect(scheduler.nextDelay(true)).toBe(2000);
+  });
+
+  it("counts inference time toward the interval", () => {
+    const scheduler = new AdaptiveFrameScheduler({ minInterval: 100 });
+    expect(settle(scheduler, steady, 1, 60)).toBe(40);
+    expect(settle(scheduler, { faceFound: false }, 1, 150)).toBe(0);
+  });
+
+  it("honours a lowered ceiling", () => {
+    const scheduler = new AdaptiveFrameScheduler({ backoff: 2 });
+    settle(scheduler, steady, 10);
+    scheduler.setMaxInterval(400);
+    expect(scheduler.nextDelay(false)).toBe(400);
+  });
+
+  it("reports throughput and mean latency over the recent window", () => {
+    const scheduler = new AdaptiveFrameScheduler();
+    for (let i = 0; i < 20; i++) scheduler.observe(steady, i % 2 === 0 ? 40 : 60, i * 250);
+    expect(scheduler.stats(4750)).toEqual({ fps: 4, latency: 50 });
+    expect(scheduler.stats(20000)).toEqual({ fps: 0, latency: 0 });
+  });
+});
@@ -0,0 +1,93 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  getFinalEmotion,
+  type ConflictPattern,
+  type DropReason,
+  type EmotionData,
+  type EmotionSignal,
+  type FusionResult,
+  type Modality,
+  type ModalitySignals
+} from "../emotionFusion";
+
+// A recorded multimodal session: detector readings and heart-rate samples at
+// millisecond offsets from the start, plus the fused outcome expected at
+// selected moments. Replays run against a fixed clock, so TTL expiry is exact.
+interface SessionFixture {
+  name: string;
+  description?: string;
+  events: Array<
+    | { at: number; modality: Modality; emotion: string; confidence: number; intensity?: number }
+    | { at: number; heartRate: number }
+  >;
+  checkpoints: Array<{
+    at: number;
+    expected: {
+      finalEmotion: string;
+      confidence?: number;
+      dropped?: Partial<Record<Modality, DropReason>>;
+      conflict?: ConflictPattern | null;
+    };
+  }>;
+}
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures");
+const START = 1_700_000_000_000;
+
+function loadFixtures(): SessionFixture[] {
+  return readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith(".json"))
+    .sort()
+    .map(file => JSON.parse(readFileSync(path.join(FIXTURE_DIR, file), "utf-8")) as SessionFixture);
+}
+
+// Rebuilds the detector state as it stood at `at` and fuses it
+function replayUntil(fixture: SessionFixture, at: number): FusionResult {
+  const signals: ModalitySignals = {};
+  const data: EmotionData = { signals, heartRate: "N/A" };
+
+  fixture.events
+    .filter(event => event.at <= at)
+    .sort((a, b) => a.at - b.at)
+    .forEach(event => {
+      if ("heartRate" in event) {
+        data.heartRate = event.heartRate;
+        data.heartRateTimestamp = START + event.at;
+      } else {
+        const signal: EmotionSignal = {
+          emotion: event.emotion,
+          confidence: event.confidence,
+          intensity: event.intensity,
+          timestamp: START + event.at
+        };
+        signals[event.modality] = signal;
+      }
+    });
+
+  return getFinalEmotion(data, undefined, START + at);
+}
+
+// Drop reasons for the modalities a fixture records or names, so registering a
+// new modality doesn't change what an older recording expects
+function droppedFor(fixture: SessionFixture, result: FusionResult, expected: Partial<Record<Modality, DropReason>>) {
+  const modalities = new Set<Modality>(Object.keys(expected) as Modality[]);
+  fixture.events.forEach(event => {
+    if ("modality" in event) modalities.add(event.modality);
+  });
+  return Object.fromEntries(
+    Object.entries(result.explanation.dropped).filter(([modality]) => modalities.has(modality as Modality))
+  );
+}
+
+describe.each(loadFixtures().map(fixture => [fixture.name, fixture] as const))("session replay: %s", (_, fixture) => {
+  it.each(fixture.checkpoints)("matches the recorded outcome at $at ms", ({ at, expected }) => {
+    const result = replayUntil(fixture, at);
+
+    expect(result.finalEmotion).toBe(expected.finalEmotion);
+    if (expected.confidence !== undefined) expect(result.confidence).toBe(expected.confidence);
+    if (expected.dropped) expect(droppedFor(fixture, result, expected.dropped)).toEqual(expected.dropped);
+    if (expected.conflict !== undefined) expect(result.explanation.conflict?.pattern ?? null).toBe(expected.conflict);
+  });
+});
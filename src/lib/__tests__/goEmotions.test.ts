@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { CORE_EMOTIONS } from "../emotionFusion";
+import { GO_EMOTIONS_CORE, mapGoEmotions } from "../goEmotions";
+
+describe("mapGoEmotions", () => {
+  it("covers all 28 GoEmotions labels with core emotions", () => {
+    expect(Object.keys(GO_EMOTIONS_CORE)).toHaveLength(28);
+    Object.values(GO_EMOTIONS_CORE).forEach(core => expect(CORE_EMOTIONS).toContain(core));
+  });
+
+  it("takes the strongest label within each core emotion", () => {
+    const mapped = mapGoEmotions([
+      { label: "annoyance", score: 0.62 },
+      { label: "anger", score: 0.31 },
+      { label: "disapproval", score: 0.4 },
+      { label: "disgust", score: 0.18 },
+      { label: "neutral", score: 0.1 }
+    ]);
+    expect(mapped).toEqual(expect.objectContaining({ emotion: "Anger", confidence: 0.62, label: "annoyance" }));
+    expect(mapped!.emotions.Aversion).toBe(0.18);
+    expect(mapped!.emotions.Joy).toBe(0);
+  });
+
+  it("does not let many weak labels outvote one strong one", () => {
+    const mapped = mapGoEmotions([
+      { label: "joy", score: 0.2 },
+      { label: "optimism", score: 0.2 },
+      { label: "gratitude", score: 0.2 },
+      { label: "nervousness", score: 0.45 }
+    ]);
+    expect(mapped!.emotion).toBe("Anxiety");
+  });
+
+  it("ignores unknown labels and returns null without scores", () => {
+    expect(mapGoEmotions([{ label: "POSITIVE", score: 0.9 }])).toBeNull();
+    expect(mapGoEmotions([])).toBeNull();
+  });
+});
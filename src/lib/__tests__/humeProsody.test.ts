@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import WebSocket from "ws";
+import { CloudProsodyClient, PROSODY_CORE_EMOTIONS, prosodySignal, type CloudProsodyStatus } from "../humeProsody";
+import { MOCK_ACCESS_TOKEN, startMockHumeServer } from "../../../scripts/mock-hume-server.mjs";
+
+const RATE = 48000;
+
+function tone(amplitude: number, seconds = 1): Float32Array {
+  return Float32Array.from({ length: RATE * seconds }, (_, i) => amplitude * Math.sin((2 * Math.PI * 180 * i) / RATE));
+}
+
+describe("prosodySignal", () => {
+  it("maps every Hume prosody expression onto a core emotion", () => {
+    expect(Object.keys(PROSODY_CORE_EMOTIONS)).toHaveLength(48);
+  });
+
+  it("picks the core emotion with the strongest member expression", () => {
+    const signal = prosodySignal([
+      { name: "Distress", score: 0.6 },
+      { name: "Anxiety", score: 0.3 },
+      { name: "Calmness", score: 0.2 },
+      { name: "Joy", score: 0.1 },
+      { name: "Amusement", score: 0.1 },
+      { name: "Contentment", score: 0.1 }
+    ], 1234, 0.4);
+    expect(signal).toMatchObject({ emotion: "Anxiety", timestamp: 1234, intensity: 0.4 });
+    expect(signal!.confidence).toBeCloseTo(0.6 / 0.8);
+  });
+
+  it("ignores expressions it doesn't know and empty results", () => {
+    expect(prosodySignal([{ name: "Hunger", score: 0.9 }], 0)).toBeNull();
+    expect(prosodySignal([], 0)).toBeNull();
+  });
+});
+
+describe("CloudProsodyClient against the mock server", () => {
+  let server: { port: number; close: () => Promise<void> };
+  let url: string;
+  const original = globalThis.WebSocket;
+
+  beforeAll(async () => {
+    // Node 20 has no WebSocket client of its own
+    globalThis.WebSocket = WebSocket as unknown as typeof globalThis.WebSocket;
+    server = await startMockHumeServer(0);
+    url = `ws://localhost:${server.port}/v0/stream/models`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+    globalThis.WebSocket = original;
+  });
+
+  it("scores an utterance and folds it onto a core emotion", async () => {
+    const statuses: CloudProsodyStatus[] = [];
+    const client = new CloudProsodyClient({ url, getToken: async () => MOCK_ACCESS_TOKEN, onStatus: status => statuses.push(status) });
+    await client.connect();
+
+    const loud = await client.analyze(tone(0.5), RATE);
+    expect(loud).not.toBeNull();
+    expect(prosodySignal(loud!, 0)!.emotion).toBe("Joy");
+
+    const quiet = await client.analyze(tone(0.01), RATE);
+    expect(prosodySignal(quiet!, 0)!.emotion).toBe("Neutral");
+
+    client.close();
+    expect(statuses).toEqual(["connecting", "open", "closed"]);
+  });
+
+  it("resolves to nothing when the service hears no speech", async () => {
+    const client = new CloudProsodyClient({ url, getToken: async () => MOCK_ACCESS_TOKEN });
+    await client.connect();
+    expect(await client.analyze(new Float32Array(RATE), RATE)).toBeNull();
+    client.close();
+  });
+
+  it("reports an error when the token is refused", async () => {
+    const statuses: CloudProsodyStatus[] = [];
+    const client = new CloudProsodyClient({ url, getToken: async () => "wrong", onStatus: status => statuses.push(status) });
+    await expect(client.connect()).rejects.toThrow();
+    expect(statuses[statuses.length - 1]).toBe("error");
+    expect(await client.analyze(tone(0.5), RATE)).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { CORE_EMOTIONS, getCoreEmotion } from "../emotionFusion";
+import { modalityRegistry } from "../modalityRegistry";
+
+describe("getCoreEmotion", () => {
+  it.each(CORE_EMOTIONS.map(emotion => [emotion]))("maps the core label %s to itself", emotion => {
+    expect(getCoreEmotion(emotion)).toBe(emotion);
+  });
+
+  const vocabularyCases = modalityRegistry.list().flatMap(definition =>
+    Object.entries(definition.vocabulary).map(([label, core]) => [definition.id, label, core])
+  );
+
+  it.each(vocabularyCases)("maps %s label %s to %s", (modality, label, core) => {
+    expect(getCoreEmotion(label, modality)).toBe(core);
+  });
+
+  it.each([
+    ["face", "Happy", "Joy"],
+    ["face", "Disgusted", "Aversion"],
+    ["text", "Anxious", "Anxiety"],
+    ["text", "Melancholy", "Sadness"],
+    ["voice", "Stressed", "Anxiety"],
+    ["voice", "Whispering", "Neutral"]
+  ])("maps %s detector output %s to %s", (modality, label, core) => {
+    expect(getCoreEmotion(label, modality)).toBe(core);
+  });
+
+  it("falls back to other vocabularies when the modality does not know the label", () => {
+    expect(getCoreEmotion("Melancholy", "voice")).toBe("Sadness");
+    expect(getCoreEmotion("Stressed")).toBe("Anxiety");
+  });
+
+  it("maps unknown labels to Neutral", () => {
+    expect(getCoreEmotion("Bewildered", "face")).toBe("Neutral");
+    expect(getCoreEmotion("")).toBe("Neutral");
+  });
+
+  it("only maps to known core emotions", () => {
+    modalityRegistry.list().forEach(definition => {
+      Object.values(definition.vocabulary).forEach(core => {
+        expect(CORE_EMOTIONS).toContain(core);
+      });
+    });
+  });
+});
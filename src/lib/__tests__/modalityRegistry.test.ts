@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { getFinalEmotion } from "../emotionFusion";
+import { modalityRegistry } from "../modalityRegistry";
+
+const NOW = 1_700_000_000_000;
+
+// Registered here the same way a new detector would be, without touching the fusion core
+modalityRegistry.register({
+  id: "posture",
+  label: "Posture",
+  placeholder: "Upright",
+  vocabulary: { "Slumped": "Sadness", "Upright": "Neutral" },
+  defaultWeight: 0.15,
+  ttl: 10000,
+  halfLife: 3000
+});
+
+describe("modalityRegistry", () => {
+  it("keeps the built-in modalities in registration order", () => {
+    expect(modalityRegistry.ids().slice(0, 3)).toEqual(["face", "text", "voice"]);
+  });
+
+  it("rejects a duplicate id", () => {
+    expect(() => modalityRegistry.register({ ...modalityRegistry.get("face")! })).toThrow(/already registered/);
+  });
+
+  it("includes registered modalities in the default weights", () => {
+    expect(modalityRegistry.defaultWeights()).toMatchObject({ face: 0.55, text: 0.25, voice: 0.2, posture: 0.15 });
+  });
+
+  it("fuses a registered modality passed through `signals`", () => {
+    const result = getFinalEmotion({
+      text: "Sad",
+      signals: { posture: { emotion: "Slumped", confidence: 0.9, timestamp: NOW } },
+      heartRate: "N/A"
+    }, undefined, NOW);
+
+    expect(result.finalEmotion).toBe("Sadness");
+    expect(result.contributions.posture?.coreEmotion).toBe("Sadness");
+    expect(result.explanation.signals.posture).toBe("Slumped");
+    expect(result.explanation.dropped).toMatchObject({ face: "absent", voice: "absent" });
+  });
+
+  it("applies the modality's own TTL", () => {
+    const result = getFinalEmotion({
+      text: "Neutral",
+      signals: { posture: { emotion: "Slumped", confidence: 0.9, timestamp: NOW - 10001 } },
+      heartRate: "N/A"
+    }, undefined, NOW);
+
+    expect(result.explanation.dropped.posture).toBe("expired");
+  });
+
+  it("falls back to the default weight when saved weights predate the modality", () => {
+    const result = getFinalEmotion({
+      face: "Happy",
+      signals: { posture: "Slumped" },
+      heartRate: "N/A"
+    }, { face: 0.55, text: 0.25, voice: 0.2 }, NOW);
+
+    expect(result.weights.posture).toBeCloseTo(0.15 / 0.7);
+  });
+});
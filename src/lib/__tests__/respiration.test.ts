@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  breathLevel,
+  estimateRespiration,
+  MIN_RESPIRATION_QUALITY,
+  RespirationTracker,
+  type BreathSample
+} from "../respiration";
+import { MFCC_COEFFICIENTS, MEL_FILTERS, type FrameFeatures } from "../voiceFeatures";
+
+// Deterministic noise so the quality thresholds are stable across runs
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+}
+
+// Breath-band trace: a raised-cosine swell of `amplitude` for each exhalation
+// starting at `onsets` (ms), on top of frame noise
+function trace({ onsets, seconds, rate = 30, amplitude = 3, noiseLevel = 1, exhale = 1800 }: {
+  onsets: number[]; seconds: number; rate?: number; amplitude?: number; noiseLevel?: number; exhale?: number;
+}): BreathSample[] {
+  const rand = noise(7);
+  const samples: BreathSample[] = [];
+  for (let i = 0; i < seconds * rate; i++) {
+    const t = (i / rate) * 1000;
+    const onset = onsets.find(start => t >= start && t < start + exhale);
+    const swell = onset === undefined ? 0 : 0.5 - 0.5 * Math.cos((2 * Math.PI * (t - onset)) / exhale);
+    samples.push({ t, level: -14 + amplitude * swell + noiseLevel * rand() });
+  }
+  return samples;
+}
+
+const everyMs = (period: number, seconds: number) =>
+  Array.from({ length: Math.ceil((seconds * 1000) / period) }, (_, i) => i * period);
+
+describe("estimateRespiration", () => {
+  it("recovers a resting breathing rate", () => {
+    const estimate = estimateRespiration(trace({ onsets: everyMs(4000, 30), seconds: 30 }));
+    expect(estimate).not.toBeNull();
+    expect(Math.abs(estimate!.rate - 15)).toBeLessThanOrEqual(1);
+    expect(estimate!.quality).toBeGreaterThanOrEqual(MIN_RESPIRATION_QUALITY);
+    expect(estimate!.regularity).toBeGreaterThan(0.8);
+  });
+
+  it("recovers fast breathing", () => {
+    const estimate = estimateRespiration(trace({ onsets: everyMs(2400, 30), seconds: 30, exhale: 1200 }));
+    expect(Math.abs(estimate!.rate - 25)).toBeLessThanOrEqual(1);
+  });
+
+  it("scores uneven breaths as less regular", () => {
+    const onsets: number[] = [];
+    for (let t = 0, k = 0; t < 30000; k++) {
+      onsets.push(t);
+      t += [2500, 5500, 3000, 6000][k % 4];
+    }
+    const steady = estimateRespiration(trace({ onsets: everyMs(4000, 30), seconds: 30 }));
+    const uneven = estimateRespiration(trace({ onsets, seconds: 30 }));
+    expect(uneven!.regularity).not.toBeNull();
+    expect(uneven!.regularity!).toBeLessThan(steady!.regularity! - 0.3);
+  });
+
+  it("reports low quality when there is no breathing", () => {
+    const estimate = estimateRespiration(trace({ onsets: [], seconds: 30, noiseLevel: 3 }));
+    expect(estimate!.quality).toBeLessThan(MIN_RESPIRATION_QUALITY);
+  });
+
+  it("needs enough time and enough of it outside speech", () => {
+    expect(estimateRespiration(trace({ onsets: everyMs(4000, 10), seconds: 10 }))).toBeNull();
+    // Long utterances leave most of the window without breath samples
+    const interrupted = trace({ onsets: everyMs(4000, 30), seconds: 30 })
+      .filter(sample => sample.t % 10000 < 3000);
+    expect(estimateRespiration(interrupted)).toBeNull();
+  });
+
+  it("bridges short utterances", () => {
+    const withPause = trace({ onsets: everyMs(4000, 30), seconds: 30 })
+      .filter(sample => sample.t < 12000 || sample.t > 13000);
+    const estimate = estimateRespiration(withPause);
+    expect(Math.abs(estimate!.rate - 15)).toBeLessThanOrEqual(1);
+  });
+});
+
+describe("RespirationTracker", () => {
+  it("estimates from the most recent window only", () => {
+    const tracker = new RespirationTracker(20000);
+    const slow = trace({ onsets: everyMs(6000, 20), seconds: 20 });
+    const fast = trace({ onsets: everyMs(3000, 20), seconds: 20, exhale: 1500 });
+    slow.forEach(sample => tracker.push(sample));
+    fast.forEach(sample => tracker.push({ ...sample, t: sample.t + 20000 }));
+    expect(Math.abs(tracker.estimate()!.rate - 20)).toBeLessThanOrEqual(1);
+    tracker.reset();
+    expect(tracker.estimate()).toBeNull();
+  });
+});
+
+describe("breathLevel", () => {
+  it("averages the breath band and ignores hum below it", () => {
+    const frame = (melEnergies: number[]): FrameFeatures => ({
+      t: 0, energy: -60, f0: null, periodicity: 0.1, jitter: null, shimmer: null, centroid: 2000, flux: 0,
+      mfcc: new Array(MFCC_COEFFICIENTS).fill(0), melEnergies
+    });
+    const quiet = new Array(MEL_FILTERS).fill(-10);
+    const hum = quiet.map((value, m) => (m < 3 ? 5 : value));
+    expect(breathLevel(frame(quiet))).toBeCloseTo(-10, 6);
+    expect(breathLevel(frame(hum))).toBeCloseTo(-10, 6);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { estimatePulse, MIN_RPPG_QUALITY, PulseTracker, skinRegions, type RgbSample } from "../rppg";
+import type { Point } from "../faceQuality";
+
+// Deterministic noise so the quality thresholds are stable across runs
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+}
+
+// Skin trace with a pulse mostly in green, plus sensor noise and a slow lighting drift
+function trace({ bpm, seconds, rate = 30, amplitude = 0.4, noiseLevel = 0.3, jitter = 0 }: {
+  bpm: number; seconds: number; rate?: number; amplitude?: number; noiseLevel?: number; jitter?: number;
+}): RgbSample[] {
+  const rand = noise(42);
+  const samples: RgbSample[] = [];
+  for (let i = 0; i < seconds * rate; i++) {
+    const t = (i / rate) * 1000 + rand() * jitter;
+    const beat = amplitude * Math.sin((2 * Math.PI * bpm * t) / 60000);
+    const drift = 3 * Math.sin((2 * Math.PI * t) / 20000);
+    samples.push({
+      t,
+      r: 150 + drift + 0.3 * beat + noiseLevel * rand(),
+      g: 110 + drift + beat + noiseLevel * rand(),
+      b: 90 + drift + 0.2 * beat + noiseLevel * rand()
+    });
+  }
+  return samples.sort((a, b) => a.t - b.t);
+}
+
+describe("estimatePulse", () => {
+  it("recovers a resting pulse", () => {
+    const estimate = estimatePulse(trace({ bpm: 72, seconds: 10 }));
+    expect(estimate).not.toBeNull();
+    expect(Math.abs(estimate!.bpm - 72)).toBeLessThanOrEqual(2);
+    expect(estimate!.quality).toBeGreaterThanOrEqual(MIN_RPPG_QUALITY);
+  });
+
+  it("recovers an elevated pulse from unevenly timed frames", () => {
+    const estimate = estimatePulse(trace({ bpm: 118, seconds: 10, rate: 15, jitter: 20 }));
+    expect(Math.abs(estimate!.bpm - 118)).toBeLessThanOrEqual(3);
+  });
+
+  it("reports low quality when there is no pulse", () => {
+    const estimate = estimatePulse(trace({ bpm: 72, seconds: 10, amplitude: 0, noiseLevel: 2 }));
+    expect(estimate!.quality).toBeLessThan(MIN_RPPG_QUALITY);
+  });
+
+  it("needs enough seconds and frames", () => {
+    expect(estimatePulse(trace({ bpm: 72, seconds: 4 }))).toBeNull();
+    expect(estimatePulse(trace({ bpm: 72, seconds: 10, rate: 5 }))).toBeNull();
+  });
+});
+
+describe("PulseTracker", () => {
+  it("estimates from the most recent window only", () => {
+    const tracker = new PulseTracker(8000);
+    trace({ bpm: 60, seconds: 10 }).forEach(s => tracker.push(s));
+    trace({ bpm: 96, seconds: 10 }).forEach(s => tracker.push({ ...s, t: s.t + 10000 }));
+
+    expect(Math.abs(tracker.estimate()!.bpm - 96)).toBeLessThanOrEqual(2);
+    tracker.reset();
+    expect(tracker.estimate()).toBeNull();
+  });
+});
+
+describe("skinRegions", () => {
+  it("places forehead and cheek patches from landmarks", () => {
+    const points: Point[] = Array.from({ length: 68 }, () => ({ x: 100, y: 100 }));
+    points[2] = { x: 40, y: 140 };
+    points[14] = { x: 160, y: 140 };
+    points[19] = { x: 80, y: 90 };
+    points[24] = { x: 120, y: 90 };
+    points[29] = { x: 100, y: 120 };
+    points[30] = { x: 100, y: 150 };
+    points[31] = { x: 90, y: 155 };
+    points[33] = { x: 100, y: 160 };
+    points[35] = { x: 110, y: 155 };
+
+    const [forehead, leftCheek, rightCheek] = skinRegions(points);
+    expect(forehead.y + forehead.height).toBeLessThan(90);
+    expect(leftCheek.x + leftCheek.width).toBeLessThan(90);
+    expect(rightCheek.x).toBeGreaterThan(110);
+    expect(skinRegions([])).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { analyzeTextEmotion, cleanTranscript, LEXICAL_CONFIDENCE, LEXICAL_ENGINE, lexicalEmotion, textSignal } from "../textEmotion";
+
+const originalFetch = globalThis.fetch;
+
+// Stands in for /api/emotion/text
+function respondWith(status: number, body: unknown) {
+  globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    if (init?.signal?.aborted) throw new DOMException("Aborted", "AbortError");
+    return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+  }) as typeof fetch;
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe("analyzeTextEmotion", () => {
+  it("takes the core emotion, confidence and scores the route mapped", async () => {
+    const emotions = { Joy: 0.02, Sadness: 0.04, Anger: 0.81, Fear: 0.01, Anxiety: 0.03, Aversion: 0.12, Awe: 0.02, Neutral: 0.05 };
+    respondWith(200, {
+      result: { emotion: "Anger", confidence: 0.81, label: "annoyance", emotions, scores: [], engine: "SMARTCARE_NLP_v6" }
+    });
+    expect(await analyzeTextEmotion("I'm so frustrated with work")).toEqual({
+      emotion: "Anger", confidence: 0.81, engine: "SMARTCARE_NLP_v6", scores: emotions
+    });
+  });
+
+  it("falls back to keywords when the route fails", async () => {
+    respondWith(500, { error: "Neural analysis failed" });
+    expect(await analyzeTextEmotion("I feel worried about tomorrow")).toEqual({
+      emotion: "Anxious", confidence: null, engine: LEXICAL_ENGINE, scores: null
+    });
+  });
+
+  it("falls back to keywords on a result without a core emotion", async () => {
+    respondWith(200, { result: { label: "POSITIVE", score: 0.93 } });
+    expect((await analyzeTextEmotion("today went great")).engine).toBe(LEXICAL_ENGINE);
+  });
+
+  it("passes aborts through instead of falling back", async () => {
+    respondWith(200, { result: { emotion: "Joy", confidence: 0.9 } });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(analyzeTextEmotion("hello", controller.signal)).rejects.toThrow("Aborted");
+  });
+
+  it("defaults to Equilibrium without keywords", () => {
+    expect(lexicalEmotion("the bus was on time")).toBe("Equilibrium");
+  });
+});
+
+describe("cleanTranscript", () => {
+  it("strips non-speech tags", () => {
+    expect(cleanTranscript(" [BLANK_AUDIO] I've been  sleeping badly (coughs) ")).toBe("I've been sleeping badly");
+  });
+
+  it("drops Whisper's stock hallucinations on silence", () => {
+    expect(cleanTranscript(" Thank you.")).toBe("");
+    expect(cleanTranscript("[MUSIC]")).toBe("");
+    expect(cleanTranscript("Thank you for listening to me")).toBe("Thank you for listening to me");
+  });
+});
+
+describe("textSignal", () => {
+  it("keeps the model's confidence and gives the keyword fallback a low one", () => {
+    expect(textSignal("Joy", 0.83)).toEqual({ emotion: "Joy", confidence: 0.83 });
+    expect(textSignal("Happy", null)).toEqual({ emotion: "Happy", confidence: LEXICAL_CONFIDENCE });
+    expect(LEXICAL_CONFIDENCE).toBeLessThan(0.5);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { MAX_UTTERANCE, UtteranceSegmenter, utteranceSignal, vocalIntensity, type Utterance } from "../voiceActivity";
+import { MFCC_COEFFICIENTS, MEL_FILTERS, type FrameFeatures } from "../voiceFeatures";
+
+const STEP = 20; // ms between frames
+
+function frame(t: number, energy: number, voiced = true): FrameFeatures {
+  return {
+    t,
+    energy,
+    f0: voiced ? 160 : null,
+    periodicity: voiced ? 0.9 : 0.2,
+    jitter: voiced ? 0.012 : null,
+    shimmer: voiced ? 0.07 : null,
+    centroid: 1400,
+    flux: 0.1,
+    mfcc: new Array(MFCC_COEFFICIENTS).fill(0),
+    melEnergies: new Array(MEL_FILTERS).fill(0)
+  };
+}
+
+// Pieces of [duration ms, energy dBFS, voiced] laid end to end
+function run(segmenter: UtteranceSegmenter, pieces: [number, number, boolean?][]): Utterance[] {
+  const found: Utterance[] = [];
+  let t = 0;
+  for (const [duration, energy, voiced] of pieces) {
+    for (const end = t + duration; t < end; t += STEP) {
+      const utterance = segmenter.push(frame(t, energy, voiced ?? true));
+      if (utterance) found.push(utterance);
+    }
+  }
+  const pending = segmenter.flush(t);
+  if (pending) found.push(pending);
+  return found;
+}
+
+describe("UtteranceSegmenter", () => {
+  it("splits speech at pauses and ignores the silence between", () => {
+    const utterances = run(new UtteranceSegmenter(), [
+      [1000, -65], [1200, -30], [800, -65], [900, -28], [1000, -65]
+    ]);
+    expect(utterances).toHaveLength(2);
+    expect(utterances[0].start).toBeGreaterThanOrEqual(1000);
+    expect(utterances[0].end - utterances[0].start).toBeGreaterThan(1000);
+    expect(utterances[0].end).toBeLessThanOrEqual(2200);
+    expect(utterances[1].start).toBeGreaterThanOrEqual(3000);
+  });
+
+  it("bridges short dips within an utterance", () => {
+    const utterances = run(new UtteranceSegmenter(), [
+      [500, -65], [600, -30], [150, -62], [600, -30], [800, -65]
+    ]);
+    expect(utterances).toHaveLength(1);
+  });
+
+  it("drops clicks and unvoiced noise bursts", () => {
+    const utterances = run(new UtteranceSegmenter(), [
+      [500, -65], [200, -25], [800, -65], [1500, -30, false], [800, -65]
+    ]);
+    expect(utterances).toHaveLength(0);
+  });
+
+  it("adapts to a noisy room", () => {
+    const segmenter = new UtteranceSegmenter();
+    // A fan hums before and after one spoken phrase
+    const utterances = run(segmenter, [[8000, -42, false], [1000, -20], [1000, -42, false]]);
+    expect(segmenter.noiseFloor()).toBeGreaterThan(-45);
+    expect(utterances).toHaveLength(1);
+  });
+
+  it("splits long monologues", () => {
+    const utterances = run(new UtteranceSegmenter(), [[500, -65], [MAX_UTTERANCE * 2 + 500, -30]]);
+    expect(utterances.length).toBeGreaterThanOrEqual(2);
+    utterances.forEach(utterance => expect(utterance.end - utterance.start).toBeLessThanOrEqual(MAX_UTTERANCE));
+  });
+});
+
+describe("utteranceSignal", () => {
+  const utterance = (duration: number, energy: number): Utterance => ({
+    start: 1000,
+    end: 1000 + duration,
+    features: {
+      energy, voicedRatio: 1, pitchMean: 160, pitchStd: 2, jitter: 0.01, shimmer: 0.07,
+      centroid: 1400, flux: 0.1, mfcc: [], speakingRate: 4
+    }
+  });
+  const prediction = { label: "Calm", confidence: 0.8, probabilities: { Calm: 0.8 } };
+
+  it("is stamped at the end of the utterance", () => {
+    const signal = utteranceSignal(utterance(2000, -30), prediction);
+    expect(signal).toMatchObject({ emotion: "Calm", timestamp: 3000 });
+    expect(signal.confidence).toBeCloseTo(0.8);
+    expect(signal.intensity).toBeCloseTo(vocalIntensity(-30));
+  });
+
+  it("trusts short utterances less", () => {
+    expect(utteranceSignal(utterance(500, -30), prediction).confidence).toBeLessThan(0.8);
+  });
+});
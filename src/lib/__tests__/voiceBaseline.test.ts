@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { applyVoiceBaseline, computeVoiceBaseline } from "../voiceBaseline";
+import type { Utterance } from "../voiceActivity";
+import { MFCC_COEFFICIENTS, type VoiceFeatures } from "../voiceFeatures";
+import { classifyVoice, DEFAULT_VOICE_MODEL, SILENT_LABEL } from "../mlModels/voiceModel";
+
+const MIC = { id: "mic-1", label: "Laptop Microphone" };
+
+// A loud, bright, quick speaker on a hot microphone: this is their neutral voice
+const LIVELY: VoiceFeatures = {
+  energy: -20,
+  voicedRatio: 0.8,
+  pitchMean: 210,
+  pitchStd: 4,
+  jitter: 0.016,
+  shimmer: 0.09,
+  centroid: 2000,
+  flux: 0.25,
+  speakingRate: 5.5,
+  mfcc: new Array(MFCC_COEFFICIENTS).fill(0)
+};
+
+function utterance(start: number, duration: number, features: Partial<VoiceFeatures> = {}): Utterance {
+  return { start, end: start + duration, features: { ...LIVELY, ...features } };
+}
+
+describe("computeVoiceBaseline", () => {
+  it("needs enough speech to be trusted", () => {
+    expect(computeVoiceBaseline([utterance(0, 5000)], MIC)).toBeNull();
+    expect(computeVoiceBaseline([utterance(0, 2000), utterance(3000, 2000)], MIC)).toBeNull();
+  });
+
+  it("takes the median of each feature, skipping unmeasured ones", () => {
+    const baseline = computeVoiceBaseline(
+      [
+        utterance(0, 3000, { energy: -22, jitter: null }),
+        utterance(4000, 3000, { energy: -20, jitter: 0.02 }),
+        utterance(8000, 3000, { energy: -5, jitter: 0.01 })
+      ],
+      MIC,
+      new Date("2026-01-01T00:00:00Z")
+    );
+    expect(baseline).not.toBeNull();
+    expect(baseline!.deviceId).toBe("mic-1");
+    expect(baseline!.features.energy).toBe(-20);
+    expect(baseline!.features.jitter).toBeCloseTo(0.015, 6);
+    expect(baseline!.utterances).toBe(3);
+    expect(baseline!.speechMs).toBe(9000);
+    expect(baseline!.capturedAt).toBe("2026-01-01T00:00:00.000Z");
+  });
+});
+
+describe("applyVoiceBaseline", () => {
+  const baseline = computeVoiceBaseline([utterance(0, 4000), utterance(5000, 4000)], MIC)!;
+
+  it("leaves features alone without a baseline", () => {
+    expect(applyVoiceBaseline(LIVELY, null, DEFAULT_VOICE_MODEL)).toBe(LIVELY);
+  });
+
+  it("moves the speaker's neutral voice onto the model reference", () => {
+    const adjusted = applyVoiceBaseline(LIVELY, baseline, DEFAULT_VOICE_MODEL);
+    DEFAULT_VOICE_MODEL.features.forEach((name, i) => {
+      expect(adjusted[name]).toBeCloseTo(DEFAULT_VOICE_MODEL.mean[i], 6);
+    });
+  });
+
+  it("reads a lively speaker's ordinary voice as calm rather than excited", () => {
+    expect(classifyVoice(LIVELY).label).toBe("Excited");
+    expect(classifyVoice(LIVELY, DEFAULT_VOICE_MODEL, baseline).label).toBe("Calm");
+  });
+
+  it("still judges silence on the raw level", () => {
+    const quiet = { ...LIVELY, energy: -55 };
+    expect(classifyVoice(quiet, DEFAULT_VOICE_MODEL, baseline).label).toBe(SILENT_LABEL);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import {
+  countSyllables,
+  estimatePitch,
+  measurePerturbation,
+  melCepstrum,
+  magnitudeSpectrum,
+  MFCC_COEFFICIENTS,
+  spectralCentroid,
+  spectralFlux,
+  VoiceFeatureExtractor
+} from "../voiceFeatures";
+import { classifyVoice, DEFAULT_VOICE_MODEL, SILENT_LABEL } from "../mlModels/voiceModel";
+
+const RATE = 48000;
+const FRAME = 2048;
+
+function sine(hz: number, amplitude = 0.5, length = FRAME): Float32Array {
+  return Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / RATE));
+}
+
+// Glottal-like pulse train: one sharp peak per cycle, with optional alternating
+// perturbation of the period (jitter) and peak height (shimmer)
+function pulseTrain(hz: number, { jitter = 0, shimmer = 0, length = FRAME } = {}): Float32Array {
+  const out = new Float32Array(length);
+  let start = 0;
+  for (let cycle = 0; start < length; cycle++) {
+    const sign = cycle % 2 === 0 ? 1 : -1;
+    const period = Math.round((RATE / hz) * (1 + sign * jitter));
+    const amplitude = 0.5 * (1 + sign * shimmer);
+    for (let i = 0; i < period && start + i < length; i++) {
+      out[start + i] = amplitude * (1 - i / period) ** 6;
+    }
+    start += period;
+  }
+  return out;
+}
+
+describe("estimatePitch", () => {
+  it("finds the fundamental of a pure tone", () => {
+    for (const hz of [110, 220, 330]) {
+      const { f0, periodicity } = estimatePitch(sine(hz), RATE);
+      expect(f0).not.toBeNull();
+      expect(Math.abs(f0! - hz)).toBeLessThan(2);
+      expect(periodicity).toBeGreaterThan(0.8);
+    }
+  });
+
+  it("reports no pitch for noise", () => {
+    let state = 7;
+    const noise = Float32Array.from({ length: FRAME }, () => {
+      state = (state * 1664525 + 1013904223) % 4294967296;
+      return state / 4294967296 - 0.5;
+    });
+    expect(estimatePitch(noise, RATE).f0).toBeNull();
+  });
+});
+
+describe("measurePerturbation", () => {
+  it("is near zero for a steady voice", () => {
+    const { jitter, shimmer } = measurePerturbation(pulseTrain(150), RATE, 150);
+    expect(jitter!).toBeLessThan(0.005);
+    expect(shimmer!).toBeLessThan(0.01);
+  });
+
+  it("measures cycle-to-cycle period and amplitude variation", () => {
+    const { jitter, shimmer } = measurePerturbation(pulseTrain(150, { jitter: 0.02, shimmer: 0.1 }), RATE, 150);
+    expect(jitter!).toBeGreaterThan(0.03);
+    expect(shimmer!).toBeGreaterThan(0.15);
+  });
+});
+
+describe("spectral features", () => {
+  it("places the centroid of a tone at its frequency", () => {
+    const centroid = spectralCentroid(magnitudeSpectrum(sine(1000)), RATE);
+    expect(Math.abs(centroid - 1000)).toBeLessThan(50);
+  });
+
+  it("has no flux for a steady spectrum and some for a change", () => {
+    const steady = magnitudeSpectrum(sine(500));
+    expect(spectralFlux(steady, steady)).toBeCloseTo(0, 5);
+    expect(spectralFlux(magnitudeSpectrum(sine(2000)), steady)).toBeGreaterThan(0.5);
+  });
+
+  it("returns the standard number of cepstral coefficients", () => {
+    const { mfcc, melEnergies } = melCepstrum(magnitudeSpectrum(sine(300)), RATE);
+    expect(mfcc).toHaveLength(MFCC_COEFFICIENTS);
+    expect(mfcc.every(Number.isFinite)).toBe(true);
+    // Energy concentrates in the band around 300 Hz
+    const loudest = melEnergies.indexOf(Math.max(...melEnergies));
+    expect(loudest).toBeLessThan(6);
+  });
+});
+
+describe("countSyllables", () => {
+  it("counts prominent energy peaks", () => {
+    // Four 250 ms syllables over two seconds, sampled every 25 ms
+    const envelope = Array.from({ length: 80 }, (_, i) => ({
+      t: i * 25,
+      energy: -45 + 20 * Math.max(0, Math.sin((2 * Math.PI * i * 25) / 500))
+    }));
+    expect(countSyllables(envelope)).toBe(4);
+  });
+});
+
+describe("VoiceFeatureExtractor", () => {
+  it("summarises a window of voiced frames", () => {
+    const extractor = new VoiceFeatureExtractor(RATE);
+    for (let i = 0; i < 40; i++) extractor.push(pulseTrain(180, { jitter: 0.01 }), i * 25);
+    const summary = extractor.summary()!;
+    expect(summary.voicedRatio).toBeGreaterThan(0.9);
+    expect(Math.abs(summary.pitchMean! - 180)).toBeLessThan(5);
+    expect(summary.pitchStd!).toBeLessThan(0.5);
+    expect(summary.jitter!).toBeGreaterThan(0.01);
+  });
+
+  it("has nothing to summarise in silence", () => {
+    const extractor = new VoiceFeatureExtractor(RATE);
+    for (let i = 0; i < 20; i++) extractor.push(new Float32Array(FRAME), i * 25);
+    expect(extractor.summary()).toBeNull();
+  });
+});
+
+describe("classifyVoice", () => {
+  const base = {
+    voicedRatio: 0.8,
+    pitchMean: 180,
+    mfcc: new Array(MFCC_COEFFICIENTS).fill(0)
+  };
+
+  it("treats mostly unvoiced windows as silent", () => {
+    const prediction = classifyVoice({
+      ...base, voicedRatio: 0.05, energy: -35, pitchStd: null, jitter: null, shimmer: null, centroid: 1500, flux: 0.1, speakingRate: 0
+    });
+    expect(prediction.label).toBe(SILENT_LABEL);
+  });
+
+  it("separates aroused from flat speech", () => {
+    const excited = classifyVoice({
+      ...base, energy: -20, pitchStd: 4, jitter: 0.016, shimmer: 0.09, centroid: 2000, flux: 0.25, speakingRate: 5.5
+    });
+    const subdued = classifyVoice({
+      ...base, energy: -38, pitchStd: 1.3, jitter: 0.018, shimmer: 0.1, centroid: 1050, flux: 0.08, speakingRate: 2.8
+    });
+    const stressed = classifyVoice({
+      ...base, energy: -27, pitchStd: 2.8, jitter: 0.03, shimmer: 0.13, centroid: 1800, flux: 0.17, speakingRate: 5
+    });
+    expect(excited.label).toBe("Excited");
+    expect(subdued.label).toBe("Subdued");
+    expect(stressed.label).toBe("Stressed");
+    const total = Object.values(excited.probabilities).reduce((a, b) => a + b, 0);
+    expect(total).toBeCloseTo(1, 6);
+  });
+
+  it("covers every label with a weight row", () => {
+    expect(DEFAULT_VOICE_MODEL.weights).toHaveLength(DEFAULT_VOICE_MODEL.labels.length);
+    expect(DEFAULT_VOICE_MODEL.weights.every(row => row.length === DEFAULT_VOICE_MODEL.features.length)).toBe(true);
+  });
+});
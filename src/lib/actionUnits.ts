@@ -0,0 +1,249 @@
+import type { Point } from "./faceQuality";
+
+// Geometric estimates of FACS action units from the 68-point landmarks. They are
+// approximations: each AU is read from how far a landmark distance has moved from
+// a neutral face, with every distance scaled by the span between the outer eye
+// corners so the result does not depend on how close the user sits.
+
+export const ACTION_UNITS = ["AU1", "AU2", "AU4", "AU6", "AU12", "AU15", "AU20", "AU24", "AU25", "AU26"] as const;
+
+export type ActionUnit = typeof ACTION_UNITS[number];
+
+export type ActionUnitIntensities = Record<ActionUnit, number>; // 0..1 per unit
+
+export const ACTION_UNIT_NAMES: Record<ActionUnit, string> = {
+  AU1: "Inner Brow Raiser",
+  AU2: "Outer Brow Raiser",
+  AU4: "Brow Lowerer",
+  AU6: "Cheek Raiser",
+  AU12: "Lip Corner Puller",
+  AU15: "Lip Corner Depressor",
+  AU20: "Lip Stretcher",
+  AU24: "Lip Pressor",
+  AU25: "Lips Part",
+  AU26: "Jaw Drop"
+};
+
+export interface FaceGeometry {
+  innerBrowHeight: number;
+  outerBrowHeight: number;
+  browGap: number;
+  eyeAperture: number; // lid opening over eye width
+  lipCornerDrop: { left: number; right: number }; // below the nose base
+  mouthWidth: number;
+  lipThickness: number; // visible upper plus lower lip
+  lipGap: number;
+  jawDrop: number;
+}
+
+export interface ActionUnitReading {
+  intensities: ActionUnitIntensities;
+  smileAsymmetry: number; // 0..1, one lip corner pulled further than the other
+}
+
+export interface ActionUnitPattern {
+  label: string;
+  confidence: number;
+}
+
+export interface ActionUnitSummary {
+  frames: number;
+  mean: ActionUnitIntensities;
+  peak: ActionUnitIntensities;
+  timeline: { t: number; units: ActionUnitIntensities }[]; // one smoothed sample per second
+}
+
+// Measured on a mean 68-point face shape; stands in until a personal neutral is known
+export const NEUTRAL_FACE_GEOMETRY: FaceGeometry = {
+  innerBrowHeight: 0.2,
+  outerBrowHeight: 0.16,
+  browGap: 0.28,
+  eyeAperture: 0.31,
+  lipCornerDrop: { left: 0.2, right: 0.2 },
+  mouthWidth: 0.65,
+  lipThickness: 0.17,
+  lipGap: 0.06,
+  jawDrop: 0.8
+};
+
+// Patterns below this read as a relaxed face
+const MIN_PATTERN_SCORE = 0.3;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Rotates the landmarks about the eye midpoint until the outer eye corners are
+// level; on a tilted head one lip corner otherwise sits higher than the other
+function levelLandmarks(landmarks: Point[]): Point[] {
+  const left = landmarks[36];
+  const right = landmarks[45];
+  const roll = Math.atan2(right.y - left.y, right.x - left.x);
+  const cos = Math.cos(-roll);
+  const sin = Math.sin(-roll);
+  const cx = (left.x + right.x) / 2;
+  const cy = (left.y + right.y) / 2;
+  return landmarks.map(({ x, y }) => ({
+    x: cx + (x - cx) * cos - (y - cy) * sin,
+    y: cy + (x - cx) * sin + (y - cy) * cos
+  }));
+}
+
+export function measureFaceGeometry(landmarks: Point[]): FaceGeometry | null {
+  if (landmarks.length < 68) return null;
+  const p = levelLandmarks(landmarks);
+  const scale = distance(p[36], p[45]);
+  if (scale <= 0) return null;
+
+  const aperture = (outer: number, top1: number, top2: number, inner: number, bottom2: number, bottom1: number) =>
+    (distance(p[top1], p[bottom1]) + distance(p[top2], p[bottom2])) / 2 / Math.max(1e-6, distance(p[outer], p[inner]));
+
+  return {
+    innerBrowHeight: ((p[39].y - p[21].y) + (p[42].y - p[22].y)) / 2 / scale,
+    outerBrowHeight: ((p[36].y - p[17].y) + (p[45].y - p[26].y)) / 2 / scale,
+    browGap: (p[22].x - p[21].x) / scale,
+    eyeAperture: (aperture(36, 37, 38, 39, 40, 41) + aperture(42, 43, 44, 45, 46, 47)) / 2,
+    lipCornerDrop: { left: (p[48].y - p[33].y) / scale, right: (p[54].y - p[33].y) / scale },
+    mouthWidth: distance(p[48], p[54]) / scale,
+    lipThickness: ((p[62].y - p[51].y) + (p[57].y - p[66].y)) / scale,
+    lipGap: (p[66].y - p[62].y) / scale,
+    jawDrop: (p[8].y - p[33].y) / scale
+  };
+}
+
+export function estimateActionUnits(
+  landmarks: Point[],
+  neutral: FaceGeometry = NEUTRAL_FACE_GEOMETRY
+): ActionUnitReading | null {
+  const face = measureFaceGeometry(landmarks);
+  if (!face) return null;
+
+  const liftLeft = neutral.lipCornerDrop.left - face.lipCornerDrop.left;
+  const liftRight = neutral.lipCornerDrop.right - face.lipCornerDrop.right;
+  const lift = (liftLeft + liftRight) / 2;
+
+  const browLowered = ramp(neutral.innerBrowHeight - face.innerBrowHeight, 0.01, 0.06);
+  const browsDrawn = ramp(neutral.browGap - face.browGap, 0.01, 0.06);
+  const au12 = ramp(lift, 0.02, 0.08);
+
+  const intensities: ActionUnitIntensities = {
+    AU1: ramp(face.innerBrowHeight - neutral.innerBrowHeight, 0.02, 0.1),
+    AU2: ramp(face.outerBrowHeight - neutral.outerBrowHeight, 0.02, 0.1),
+    AU4: (browLowered + browsDrawn) / 2,
+    AU6: ramp((neutral.eyeAperture - face.eyeAperture) / neutral.eyeAperture, 0.1, 0.35),
+    AU12: au12,
+    AU15: ramp(-lift, 0.015, 0.06),
+    // Widening without the corners rising, which would be a smile instead
+    AU20: ramp(face.mouthWidth - neutral.mouthWidth, 0.04, 0.15) * (1 - au12),
+    AU24: ramp((neutral.lipThickness - face.lipThickness) / neutral.lipThickness, 0.15, 0.5),
+    AU25: ramp(face.lipGap - neutral.lipGap, 0.03, 0.12),
+    AU26: ramp(face.jawDrop - neutral.jawDrop, 0.05, 0.2)
+  };
+
+  return {
+    intensities: roundUnits(intensities),
+    smileAsymmetry: round2(au12 > 0 ? ramp(Math.abs(liftLeft - liftRight), 0.015, 0.05) : 0)
+  };
+}
+
+// Names the dominant AU configuration; these labels are the vocabulary of the
+// `face_au` modality. Combinations follow the usual EMFACS prototypes.
+export function interpretActionUnits(reading: ActionUnitReading): ActionUnitPattern {
+  const u = reading.intensities;
+  const patterns: [string, number][] = [
+    ["Asymmetric Smile", Math.min(u.AU12, reading.smileAsymmetry)],
+    ["Duchenne Smile", Math.min(u.AU12, u.AU6)],
+    ["Social Smile", u.AU12 * (1 - u.AU6) * (1 - reading.smileAsymmetry)],
+    ["Distress Brow", Math.min(u.AU1, u.AU4)],
+    ["Fear Brow", Math.min(u.AU1, u.AU2, u.AU4, Math.max(u.AU20, u.AU25))],
+    ["Raised Brows", Math.min(u.AU1, u.AU2) * (1 - u.AU4)],
+    ["Brow Furrow", u.AU4 * (1 - u.AU1)],
+    ["Lip Corner Depression", u.AU15],
+    ["Lip Press", u.AU24]
+  ];
+
+  const [label, score] = patterns.reduce((best, next) => (next[1] > best[1] ? next : best));
+  if (score < MIN_PATTERN_SCORE) return { label: "Relaxed", confidence: round2(1 - score) };
+  return { label, confidence: round2(score) };
+}
+
+const TIMELINE_INTERVAL = 1000; // ms
+const MAX_TIMELINE = 600; // ten minutes of review history
+
+// Smooths per-frame readings and keeps the aggregates stored with a session
+export class ActionUnitTracker {
+  private smoothed: ActionUnitReading | null = null;
+  private lastUpdate = 0;
+  private frames = 0;
+  private totals = emptyUnits();
+  private peaks = emptyUnits();
+  private timeline: ActionUnitSummary["timeline"] = [];
+
+  // Half-life in ms; landmarks jitter frame to frame, real AU onsets take a few hundred ms
+  constructor(private halfLife: number = 300) {}
+
+  public update(reading: ActionUnitReading, timestamp: number): ActionUnitReading {
+    if (!this.smoothed) {
+      this.smoothed = { intensities: { ...reading.intensities }, smileAsymmetry: reading.smileAsymmetry };
+    } else {
+      const alpha = 1 - Math.pow(0.5, Math.max(0, timestamp - this.lastUpdate) / this.halfLife);
+      ACTION_UNITS.forEach(unit => {
+        this.smoothed!.intensities[unit] += alpha * (reading.intensities[unit] - this.smoothed!.intensities[unit]);
+      });
+      this.smoothed.smileAsymmetry += alpha * (reading.smileAsymmetry - this.smoothed.smileAsymmetry);
+    }
+    this.lastUpdate = timestamp;
+
+    const current = { intensities: roundUnits(this.smoothed.intensities), smileAsymmetry: round2(this.smoothed.smileAsymmetry) };
+    this.frames += 1;
+    ACTION_UNITS.forEach(unit => {
+      this.totals[unit] += current.intensities[unit];
+      this.peaks[unit] = Math.max(this.peaks[unit], current.intensities[unit]);
+    });
+
+    const lastSample = this.timeline[this.timeline.length - 1];
+    if (!lastSample || timestamp - lastSample.t >= TIMELINE_INTERVAL) {
+      this.timeline.push({ t: timestamp, units: current.intensities });
+      if (this.timeline.length > MAX_TIMELINE) this.timeline.shift();
+    }
+
+    return current;
+  }
+
+  public summary(): ActionUnitSummary {
+    const mean = emptyUnits();
+    ACTION_UNITS.forEach(unit => {
+      mean[unit] = this.frames > 0 ? round2(this.totals[unit] / this.frames) : 0;
+    });
+    return { frames: this.frames, mean, peak: { ...this.peaks }, timeline: [...this.timeline] };
+  }
+
+  public reset() {
+    this.smoothed = null;
+    this.lastUpdate = 0;
+    this.frames = 0;
+    this.totals = emptyUnits();
+    this.peaks = emptyUnits();
+    this.timeline = [];
+  }
+}
+
+function emptyUnits(): ActionUnitIntensities {
+  return ACTION_UNITS.reduce((acc, unit) => {
+    acc[unit] = 0;
+    return acc;
+  }, {} as ActionUnitIntensities);
+}
+
+function roundUnits(units: ActionUnitIntensities): ActionUnitIntensities {
+  const rounded = emptyUnits();
+  ACTION_UNITS.forEach(unit => { rounded[unit] = round2(units[unit]); });
+  return rounded;
+}
+
+// 0 at or below `low`, 1 at or above `high`, linear in between
+function ramp(value: number, low: number, high: number): number {
+  return Math.min(1, Math.max(0, (value - low) / (high - low)));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
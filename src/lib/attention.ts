@@ -0,0 +1,168 @@
+import type { EmotionSignal } from "./emotionFusion";
+import type { Point } from "./faceQuality";
+import { estimateHeadPose, type HeadPose } from "./headPose";
+
+// Attention and fatigue from the 68-point landmarks: blinks from the eye aspect
+// ratio, head pose from the nose against the eye line, and time spent looking
+// away. The 68-point layout has no iris points, so head pose stands in for gaze.
+
+export type AttentionStatus = "Engaged" | "Distracted" | "Drowsy" | "Away";
+
+export interface AttentionState {
+  status: AttentionStatus;
+  engagement: number; // 0..1
+  blinkRate: number | null; // blinks per minute; null until enough fast frames were seen
+  perclos: number; // share of the window with the eyes closed
+  eyesClosedFor: number; // ms, current closure
+  lookingAway: boolean;
+  awayFor: number; // ms, current look-away or face loss
+  awayShare: number; // share of the window spent looking away
+  headPose: HeadPose | null;
+}
+
+const AWAY_YAW = 25; // degrees
+const AWAY_PITCH = 20; // degrees, looking down at a phone or desk
+
+// Longest gap between analysed frames while anything consumes attention: blinks
+// last 100-400 ms and are only counted across gaps of MAX_BLINK_GAP or less
+export const ATTENTION_FRAME_INTERVAL = 200; // ms
+
+const CLOSED_RATIO = 0.7; // EAR under this share of the user's open-eye EAR counts as closed
+const MAX_BLINK = 500; // ms; longer closures are counted as drowsy closures, not blinks
+const MAX_BLINK_GAP = 250; // ms between frames; slower sampling misses blinks
+const MIN_BLINK_COVERAGE = 20000; // ms of fast sampling before a blink rate is reported
+const MAX_FRAME_GAP = 1000; // ms a single frame may account for
+
+const AWAY_AFTER = 3000; // ms of looking away before the user counts as away
+const DROWSY_CLOSURE = 1500; // ms
+const DROWSY_PERCLOS = 0.15; // the usual PERCLOS fatigue threshold
+const DISTRACTED_SHARE = 0.3;
+const WINDOW = 60000; // ms
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Mean eye aspect ratio of both eyes: lid opening over eye width, ~0.3 open and near 0 closed
+export function eyeAspectRatio(landmarks: Point[]): number | null {
+  if (landmarks.length < 68) return null;
+  const p = landmarks;
+  const eye = (outer: number, top1: number, top2: number, inner: number, bottom2: number, bottom1: number) =>
+    (distance(p[top1], p[bottom1]) + distance(p[top2], p[bottom2])) / (2 * Math.max(1e-6, distance(p[outer], p[inner])));
+  return (eye(36, 37, 38, 39, 40, 41) + eye(42, 43, 44, 45, 46, 47)) / 2;
+}
+
+export function isLookingAway(pose: HeadPose): boolean {
+  return Math.abs(pose.yaw) > AWAY_YAW || pose.pitch > AWAY_PITCH;
+}
+
+interface AttentionFrame {
+  t: number;
+  span: number; // ms this frame accounts for
+  closed: boolean;
+  away: boolean;
+  fast: boolean; // close enough to the previous frame to see a blink
+}
+
+// Follows one camera feed over time. Feed it every analysed frame, with null
+// landmarks when no face was found.
+export class AttentionTracker {
+  private openEar: number | null = null;
+  private frames: AttentionFrame[] = [];
+  private blinks: number[] = [];
+  private closedSince: number | null = null;
+  private awaySince: number | null = null;
+  private lastFrame: number | null = null;
+  private headPose: HeadPose | null = null;
+
+  public update(landmarks: Point[] | null, timestamp: number): AttentionState {
+    const gap = this.lastFrame === null ? 0 : timestamp - this.lastFrame;
+    this.lastFrame = timestamp;
+
+    const ear = landmarks ? eyeAspectRatio(landmarks) : null;
+    this.headPose = landmarks ? estimateHeadPose(landmarks) : null;
+    const away = !this.headPose || isLookingAway(this.headPose);
+    // Eyes are only judged while the face is toward the camera; a turned head squashes the EAR
+    const closed = !away && ear !== null && this.openEar !== null && ear < this.openEar * CLOSED_RATIO;
+
+    if (!away && ear !== null && !closed) {
+      // Slow average of open-eye frames, so narrow and wide eyes both get a fair threshold
+      this.openEar = this.openEar === null ? ear : this.openEar + 0.05 * (ear - this.openEar);
+    }
+
+    if (closed) {
+      this.closedSince ??= timestamp;
+    } else {
+      if (this.closedSince !== null && !away && timestamp - this.closedSince <= MAX_BLINK && gap <= MAX_BLINK_GAP) {
+        this.blinks.push(timestamp);
+      }
+      this.closedSince = null;
+    }
+    this.awaySince = away ? this.awaySince ?? timestamp : null;
+
+    this.frames.push({ t: timestamp, span: Math.min(gap, MAX_FRAME_GAP), closed, away, fast: gap > 0 && gap <= MAX_BLINK_GAP });
+    while (this.frames.length > 0 && this.frames[0].t < timestamp - WINDOW) this.frames.shift();
+    while (this.blinks.length > 0 && this.blinks[0] < timestamp - WINDOW) this.blinks.shift();
+
+    return this.state(timestamp);
+  }
+
+  public state(now: number): AttentionState {
+    const total = this.frames.reduce((sum, frame) => sum + frame.span, 0);
+    const share = (pick: (frame: AttentionFrame) => boolean) =>
+      total > 0 ? this.frames.filter(pick).reduce((sum, frame) => sum + frame.span, 0) / total : 0;
+
+    const perclos = share(frame => frame.closed);
+    const awayShare = share(frame => frame.away);
+    const fastTime = this.frames.filter(frame => frame.fast).reduce((sum, frame) => sum + frame.span, 0);
+    const blinkRate = fastTime >= MIN_BLINK_COVERAGE ? Math.round(this.blinks.length / (fastTime / 60000)) : null;
+    const eyesClosedFor = this.closedSince === null ? 0 : now - this.closedSince;
+    const awayFor = this.awaySince === null ? 0 : now - this.awaySince;
+
+    let status: AttentionStatus = "Engaged";
+    if (awayFor >= AWAY_AFTER) status = "Away";
+    else if (eyesClosedFor >= DROWSY_CLOSURE || perclos >= DROWSY_PERCLOS) status = "Drowsy";
+    else if (awayShare >= DISTRACTED_SHARE) status = "Distracted";
+
+    return {
+      status,
+      engagement: round2((1 - awayShare) * (1 - Math.min(1, perclos / (2 * DROWSY_PERCLOS)))),
+      blinkRate,
+      perclos: round2(perclos),
+      eyesClosedFor,
+      lookingAway: this.awaySince !== null,
+      awayFor,
+      awayShare: round2(awayShare),
+      headPose: this.headPose
+    };
+  }
+
+  public reset() {
+    this.openEar = null;
+    this.frames = [];
+    this.blinks = [];
+    this.closedSince = null;
+    this.awaySince = null;
+    this.lastFrame = null;
+    this.headPose = null;
+  }
+}
+
+// Reading for the `attention` modality; nothing while the user is away, since
+// there is no face to read
+export function attentionSignal(state: AttentionState, timestamp: number): EmotionSignal | null {
+  if (state.status === "Away") return null;
+  let confidence = state.engagement;
+  if (state.status === "Distracted") confidence = state.awayShare;
+  if (state.status === "Drowsy") {
+    confidence = state.eyesClosedFor >= DROWSY_CLOSURE ? 1 : Math.min(1, state.perclos / (2 * DROWSY_PERCLOS));
+  }
+  return { emotion: state.status, confidence, timestamp };
+}
+
+// Whether a running therapy session should hold its timer for this user
+export function shouldPauseSession(state: AttentionState): boolean {
+  return state.status === "Away" || state.status === "Drowsy";
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,114 @@
+// The last few seconds of microphone audio, so an utterance found by the voice
+// activity detector can be cut out afterwards and handed to a model that needs
+// the waveform itself rather than our per-frame features.
+
+interface AudioChunk {
+  end: number; // ms timestamp of the chunk's last sample
+  samples: Float32Array;
+}
+
+const DEFAULT_HISTORY = 10000; // ms
+const CLIP_PADDING = 150; // ms either side; callback timestamps trail the audio a little
+
+export class AudioHistory {
+  private chunks: AudioChunk[] = [];
+
+  constructor(public readonly sampleRate: number, private historyMs: number = DEFAULT_HISTORY) {}
+
+  public push(samples: Float32Array, end: number) {
+    // Audio callbacks reuse their buffers
+    this.chunks.push({ end, samples: Float32Array.from(samples) });
+    while (this.chunks.length > 0 && this.chunks[0].end < end - this.historyMs) this.chunks.shift();
+  }
+
+  // Samples between two timestamps, limited to the most recent `maxMs` of them
+  public slice(start: number, end: number, maxMs: number = Infinity): Float32Array {
+    const from = Math.max(start - CLIP_PADDING, end + CLIP_PADDING - maxMs);
+    const to = end + CLIP_PADDING;
+    const parts: Float32Array[] = [];
+    for (const chunk of this.chunks) {
+      const duration = (chunk.samples.length / this.sampleRate) * 1000;
+      const chunkStart = chunk.end - duration;
+      if (chunk.end <= from || chunkStart >= to) continue;
+      const first = Math.max(0, Math.round(((from - chunkStart) / 1000) * this.sampleRate));
+      const last = Math.min(chunk.samples.length, Math.round(((to - chunkStart) / 1000) * this.sampleRate));
+      parts.push(chunk.samples.subarray(first, last));
+    }
+    const out = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+      out.set(part, offset);
+      offset += part.length;
+    });
+    return out;
+  }
+
+  public clear() {
+    this.chunks = [];
+  }
+}
+
+// Averages down to the nearest integer fraction of the source rate at or above `targetRate`
+export function downsample(samples: Float32Array, sampleRate: number, targetRate: number): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / targetRate));
+  if (factor === 1) return { samples, sampleRate };
+  const out = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let total = 0;
+    for (let j = 0; j < factor; j++) total += samples[i * factor + j];
+    out[i] = total / factor;
+  }
+  return { samples: out, sampleRate: sampleRate / factor };
+}
+
+// Linear interpolation to an exact rate, for models that accept only one (Whisper wants 16 kHz)
+export function resample(samples: Float32Array, sampleRate: number, targetRate: number): Float32Array {
+  if (sampleRate === targetRate) return samples;
+  const { samples: reduced, sampleRate: reducedRate } = downsample(samples, sampleRate, targetRate);
+  const ratio = reducedRate / targetRate;
+  const out = new Float32Array(Math.floor(reduced.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, reduced.length - 1);
+    out[i] = reduced[index] + (reduced[next] - reduced[index]) * (position - index);
+  }
+  return out;
+}
+
+// 16-bit PCM mono WAV
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const text = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) bytes[offset + i] = value.charCodeAt(i);
+  };
+
+  text(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  text(8, "WAVE");
+  text(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  text(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, value < 0 ? value * 0x8000 : value * 0x7fff, true);
+  }
+  return bytes;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const step = 0x8000; // keeps String.fromCharCode under the argument limit
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+}
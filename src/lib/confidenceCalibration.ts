@@ -0,0 +1,135 @@
+// A fused reading with its (uncalibrated) confidence and whether the user
+// confirmed it or corrected it to another emotion.
+export interface CalibrationSample {
+  confidence: number; // 0-100
+  correct: boolean;
+}
+
+// Monotonic map from raw to calibrated confidence, as knots of an isotonic fit
+export interface CalibrationModel {
+  knots: Array<{ confidence: number; accuracy: number }>;
+  sampleCount: number;
+}
+
+export interface ReliabilityBin {
+  from: number;
+  to: number;
+  count: number;
+  meanConfidence: number; // what we claimed, %
+  accuracy: number; // how often the user agreed, %
+}
+
+export interface ReliabilityReport {
+  bins: ReliabilityBin[];
+  sampleCount: number;
+  expectedCalibrationError: number; // count-weighted |confidence - accuracy|, in points
+}
+
+export const IDENTITY_CALIBRATION: CalibrationModel = { knots: [], sampleCount: 0 };
+
+export const MIN_CALIBRATION_SAMPLES = 20;
+
+// Pseudo-observations at the raw confidence added to each isotonic block, so a
+// handful of labels cannot pin a region to 0% or 100%.
+const PRIOR_STRENGTH = 2;
+
+// Folds for scoring a calibration on readings it was not fitted on
+const CROSS_VALIDATION_FOLDS = 5;
+
+const MIN_CONFIDENCE = 1;
+const MAX_CONFIDENCE = 98; // same ceiling fusion applies to raw confidence
+
+// Pool-adjacent-violators isotonic regression of correctness on confidence
+export function fitCalibration(samples: CalibrationSample[]): CalibrationModel {
+  if (samples.length < MIN_CALIBRATION_SAMPLES) return { ...IDENTITY_CALIBRATION, sampleCount: samples.length };
+
+  const blocks: Array<{ sumConfidence: number; correct: number; count: number }> = [];
+  [...samples]
+    .sort((a, b) => a.confidence - b.confidence)
+    .forEach(sample => {
+      blocks.push({ sumConfidence: sample.confidence, correct: sample.correct ? 1 : 0, count: 1 });
+      while (blocks.length > 1) {
+        const last = blocks[blocks.length - 1];
+        const previous = blocks[blocks.length - 2];
+        if (previous.correct / previous.count < last.correct / last.count) break;
+        previous.sumConfidence += last.sumConfidence;
+        previous.correct += last.correct;
+        previous.count += last.count;
+        blocks.pop();
+      }
+    });
+
+  let floor = 0;
+  const knots = blocks.map(block => {
+    const confidence = block.sumConfidence / block.count;
+    const smoothed = (block.correct + PRIOR_STRENGTH * confidence / 100) / (block.count + PRIOR_STRENGTH) * 100;
+    // Smoothing can dent monotonicity between small blocks; keep the map non-decreasing
+    floor = Math.max(floor, smoothed);
+    return { confidence, accuracy: floor };
+  });
+
+  return { knots, sampleCount: samples.length };
+}
+
+export function applyCalibration(model: CalibrationModel, confidence: number): number {
+  const { knots } = model;
+  if (knots.length === 0) return confidence;
+
+  let calibrated: number;
+  if (confidence <= knots[0].confidence) {
+    calibrated = knots[0].accuracy;
+  } else if (confidence >= knots[knots.length - 1].confidence) {
+    calibrated = knots[knots.length - 1].accuracy;
+  } else {
+    const upper = knots.findIndex(knot => knot.confidence >= confidence);
+    const a = knots[upper - 1];
+    const b = knots[upper];
+    const t = (confidence - a.confidence) / (b.confidence - a.confidence);
+    calibrated = a.accuracy + t * (b.accuracy - a.accuracy);
+  }
+
+  return Math.round(Math.min(MAX_CONFIDENCE, Math.max(MIN_CONFIDENCE, calibrated)));
+}
+
+// Each sample's calibrated confidence from a model fitted on the other folds, so
+// a reliability report on the result measures the calibration on unseen readings
+// rather than on the labels it memorised
+export function crossValidateCalibration(samples: CalibrationSample[], folds = CROSS_VALIDATION_FOLDS): CalibrationSample[] {
+  const models = Array.from({ length: folds }, (_, fold) =>
+    fitCalibration(samples.filter((_, i) => i % folds !== fold))
+  );
+  return samples.map((sample, i) => ({ ...sample, confidence: applyCalibration(models[i % folds], sample.confidence) }));
+}
+
+// Buckets samples by claimed confidence and compares each bucket with how often it was right
+export function buildReliabilityReport(samples: CalibrationSample[], binCount = 10): ReliabilityReport {
+  const width = 100 / binCount;
+  const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, i) => ({
+    from: i * width,
+    to: (i + 1) * width,
+    count: 0,
+    meanConfidence: 0,
+    accuracy: 0
+  }));
+
+  samples.forEach(sample => {
+    const bin = bins[Math.min(binCount - 1, Math.floor(sample.confidence / width))];
+    bin.count += 1;
+    bin.meanConfidence += sample.confidence;
+    bin.accuracy += sample.correct ? 100 : 0;
+  });
+
+  let error = 0;
+  bins.forEach(bin => {
+    if (bin.count === 0) return;
+    bin.meanConfidence = Math.round(bin.meanConfidence / bin.count);
+    bin.accuracy = Math.round(bin.accuracy / bin.count);
+    error += bin.count * Math.abs(bin.meanConfidence - bin.accuracy);
+  });
+
+  return {
+    bins,
+    sampleCount: samples.length,
+    expectedCalibrationError: samples.length > 0 ? Math.round(error / samples.length) : 0
+  };
+}
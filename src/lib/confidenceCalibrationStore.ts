@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import type { FusionResult } from './emotionFusion';
+import {
+  applyCalibration,
+  buildReliabilityReport,
+  crossValidateCalibration,
+  fitCalibration,
+  IDENTITY_CALIBRATION,
+  type CalibrationModel,
+  type CalibrationSample,
+  type ReliabilityReport
+} from './confidenceCalibration';
+
+// Safety overrides carry a fixed confidence and are not a model prediction
+const UNCALIBRATED_EMOTIONS = ["Panic/Distress"];
+
+class ConfidenceCalibrationStore {
+  private model: CalibrationModel = IDENTITY_CALIBRATION;
+  private samples: CalibrationSample[] = [];
+  private userId: string | null = null;
+  public ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.init();
+  }
+
+  private async init() {
+    if (typeof window !== "undefined") {
+      const { data: { user } } = await supabase.auth.getUser();
+      this.userId = user?.id || null;
+      if (this.userId) await this.refresh();
+    }
+  }
+
+  // Refits on every session the user confirmed or corrected
+  public async refresh(): Promise<CalibrationModel> {
+    if (!this.userId) return this.model;
+
+    const { data } = await supabase
+      .from('sessions')
+      .select('final_emotion, confirmed_emotion, confidence, raw_confidence')
+      .eq('user_id', this.userId)
+      .not('confirmed_emotion', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(500);
+
+    type LabelledRow = { final_emotion: string; confirmed_emotion: string; confidence: number | null; raw_confidence: number | null };
+    this.samples = (Array.isArray(data) ? data as LabelledRow[] : [])
+      .filter(row => !UNCALIBRATED_EMOTIONS.includes(row.final_emotion))
+      .map(row => ({
+        confidence: Number(row.raw_confidence ?? row.confidence),
+        correct: row.final_emotion === row.confirmed_emotion
+      }))
+      .filter(sample => Number.isFinite(sample.confidence));
+
+    this.model = fitCalibration(this.samples);
+    return this.model;
+  }
+
+  public calibrate(result: Pick<FusionResult, "finalEmotion" | "confidence">): number {
+    if (UNCALIBRATED_EMOTIONS.includes(result.finalEmotion)) return result.confidence;
+    return applyCalibration(this.model, result.confidence);
+  }
+
+  public isCalibrated(): boolean {
+    return this.model.knots.length > 0;
+  }
+
+  // Raw fusion confidence vs. calibration, each session scored by a fit that
+  // never saw its label
+  public getReliability(): { raw: ReliabilityReport; calibrated: ReliabilityReport } {
+    return {
+      raw: buildReliabilityReport(this.samples),
+      calibrated: buildReliabilityReport(crossValidateCalibration(this.samples))
+    };
+  }
+}
+
+export const confidenceCalibrationStore = new ConfidenceCalibrationStore();
@@ -1,136 +1,235 @@
+import { classifyHeartRate, getHeartRateDeviation, DEFAULT_HR_BASELINE, type HeartRateBaseline } from "./heartRateBaseline";
+import { modalityRegistry } from "./modalityRegistry";
+import { IRREGULAR_BREATHING } from "./respiration";
+
 export interface EmotionSignal {
   emotion: string;
   confidence: number;
   timestamp?: number;
+  intensity?: number; // 0..1 physiological activation cue from the detector (e.g. vocal energy)
 }
 
+export type ModalitySignals = Partial<Record<Modality, string | EmotionSignal>>;
+
 export interface EmotionData {
-  face: string | EmotionSignal;
-  voice: string | EmotionSignal;
-  text: string | EmotionSignal;
+  // Built-in modalities may be passed directly; any registered modality can go in `signals`
+  face?: string | EmotionSignal;
+  voice?: string | EmotionSignal;
+  text?: string | EmotionSignal;
+  signals?: ModalitySignals;
   heartRate: number | string;
   heartRateTimestamp?: number;
+  heartRateBaseline?: HeartRateBaseline; // personal resting rate; population default when absent
+  respirationRate?: number; // breaths per minute
+  respirationRegularity?: number; // 0..1
+  respirationTimestamp?: number;
+}
+
+export const CORE_EMOTIONS = ["Joy", "Sadness", "Anger", "Fear", "Anxiety", "Aversion", "Awe", "Neutral"] as const;
+
+export type CoreEmotion = typeof CORE_EMOTIONS[number];
+
+// Any id registered in the modality registry; the built-ins are face, text and voice
+export type Modality = string;
+
+export type BuiltInModality = "face" | "text" | "voice";
+
+export type DropReason = "absent" | "expired" | "below_threshold";
+
+// Circumplex coordinates, both axes in [-1, 1]
+export interface AffectPoint {
+  valence: number;
+  arousal: number;
+}
+
+export type ConflictPattern = "masking" | "suppression" | "divergence";
+
+// Raised when live modalities disagree strongly, which can indicate the user is
+// masking (e.g. smiling while describing distress) or suppressing affect.
+export interface ConflictReport {
+  level: "moderate" | "high";
+  pattern: ConflictPattern;
+  modalities: [Modality, Modality];
+  labels: [string, string];
+  description: string;
+}
+
+export interface ModalityContribution {
+  label: string;
+  coreEmotion: CoreEmotion;
+  weight: number;
+  share: number; // % of the total evidence this modality supplied
 }
 
 export interface FusionResult {
   finalEmotion: string;
   confidence: number;
+  probabilities: Record<CoreEmotion, number>; // % per core emotion, sums to 100
+  contributions: Partial<Record<Modality, ModalityContribution>>;
+  weights: Partial<Record<Modality, number>>; // effective weights after re-normalization
+  affect: AffectPoint;
   explanation: {
-    face: string;
-    voice: string;
-    text: string;
+    signals: Record<Modality, string>; // per-modality reading or drop description
     heartRate: string;
+    respiration: string;
+    dropped: Partial<Record<Modality, DropReason>>;
+    agreement: number; // 0-100, evidence-weighted similarity between live modalities
+    conflict: ConflictReport | null;
   };
 }
 
-const WEIGHTS = {
-  face: 0.55,
-  text: 0.25,
-  voice: 0.20
+export const CORE_EMOTION_AFFECT: Record<CoreEmotion, AffectPoint> = {
+  "Joy": { valence: 0.8, arousal: 0.5 },
+  "Sadness": { valence: -0.7, arousal: -0.4 },
+  "Anger": { valence: -0.6, arousal: 0.8 },
+  "Fear": { valence: -0.7, arousal: 0.7 },
+  "Anxiety": { valence: -0.5, arousal: 0.6 },
+  "Aversion": { valence: -0.6, arousal: 0.3 },
+  "Awe": { valence: 0.4, arousal: 0.7 },
+  "Neutral": { valence: 0, arousal: 0 }
 };
 
-const CORE_EMOTION_MAP: Record<string, string> = {
-  // Face & Core Labels
-  "Happy": "Joy",
-  "Sad": "Sadness",
-  "Angry": "Anger",
-  "Fear": "Fear",
-  "Fearful": "Fear",
-  "Disgusted": "Aversion",
-  "Surprised": "Awe",
-  "Neutral": "Neutral",
-  
-  // Text & Detailed Labels
-  "Euphoria": "Joy",
-  "Melancholy": "Sadness",
-  "Hostility": "Anger",
-  "Apprehension": "Anxiety",
-  "Astonishment": "Awe",
-  "Equilibrium": "Neutral",
-  "Anxious": "Anxiety",
-  "Awe": "Awe",
-  "Love": "Joy",
-  "Excited": "Joy",
-
-  // Voice
-  "Energetic": "Joy",
-  "Passionate": "Joy",
-  "Stressed": "Anxiety",
-  "Unsettled": "Anxiety",
-  "Whispering": "Neutral",
-  "Calm": "Neutral",
-  "Silence": "Neutral"
+// Share of the arousal estimate taken by each source when it is available
+const AROUSAL_SOURCES = {
+  labels: 0.6,
+  heartRate: 0.25,
+  respiration: 0.15,
+  cues: 0.1, // affect-only modalities such as attention, scaled by their confidence
+  intensity: 0.15 // detector activation cues such as vocal energy
 };
 
-const SIGNAL_TTL = 30000; // 30 seconds signal validity
+const MODERATE_CONFLICT_AGREEMENT = 60;
+const HIGH_CONFLICT_VALENCE_GAP = 1.0;
+const MAX_AFFECT_DISTANCE = Math.hypot(2, 2);
 
-export function getFinalEmotion(data: EmotionData): FusionResult {
-  const now = Date.now();
+const HR_AROUSAL_DEVIATION = 4; // baseline spreads above/below resting that map to full arousal
+const RESTING_RESPIRATION = 14; // breaths per minute, middle of the adult resting range
+const RESPIRATION_AROUSAL_SPAN = 10; // breaths per minute above/below resting that map to full arousal
+
+export const SIGNAL_TTL = 30000; // 30 seconds heart-rate and respiration validity; modalities set their own TTL
+const MIN_SIGNAL_CONFIDENCE = 0.35;
+
+
+// `now` is injectable so TTL expiry can be evaluated against a controlled clock
+export function getFinalEmotion(
+  data: EmotionData,
+  baseWeights: Record<Modality, number> = modalityRegistry.defaultWeights(),
+  now: number = Date.now()
+): FusionResult {
   const hr = typeof data.heartRate === 'number' ? data.heartRate : 0;
   const isHrStale = data.heartRateTimestamp ? (now - data.heartRateTimestamp > SIGNAL_TTL) : false;
-  
-  // 1. Critical Biometric Alerts (only if not stale)
-  if (hr > 110 && !isHrStale) {
-    return {
-      finalEmotion: "Panic/Distress",
-      confidence: 95,
-      explanation: {
-        face: getEmotionLabel(data.face),
-        voice: getEmotionLabel(data.voice),
-        text: getEmotionLabel(data.text),
-        heartRate: "Critical (Elevated Heart Rate Detected)"
-      }
-    };
-  }
+  const hrBaseline = data.heartRateBaseline || DEFAULT_HR_BASELINE;
+  const respiration = typeof data.respirationRate === 'number' && data.respirationRate > 0
+    && !(data.respirationTimestamp && now - data.respirationTimestamp > SIGNAL_TTL)
+    ? data.respirationRate
+    : null;
 
-  // 2. Weighted Scoring Logic
-  const scores: Record<string, number> = {};
+  // 1. Signal Gating
+  // Only live modalities take part in fusion; their fixed weights are re-normalized
+  // so that e.g. a strong text-only reading is not capped at the text weight.
+  const live: Partial<Record<Modality, EmotionSignal>> = {};
+  const cues: Partial<Record<Modality, EmotionSignal>> = {}; // live affect-only modalities
+  const dropped: Partial<Record<Modality, DropReason>> = {};
 
-  const addScore = (modality: keyof typeof WEIGHTS, signal: string | EmotionSignal) => {
-    if (!signal) return;
-    
-    // Check for expiration
-    if (typeof signal !== 'string' && signal.timestamp) {
-      if (Date.now() - signal.timestamp > SIGNAL_TTL) {
-        console.log(`[Signal Rejected] ${modality} data expired.`);
-        return;
-      }
+  modalityRegistry.list().forEach(({ id: modality, ttl, affectOnly }) => {
+    const signal = getModalitySignal(data, modality);
+    const reason = getDropReason(signal, now, ttl);
+    if (reason) {
+      if (reason !== "absent") console.log(`[Signal Rejected] ${modality} data ${reason.replace('_', ' ')}.`);
+      dropped[modality] = reason;
+    } else if (affectOnly) {
+      cues[modality] = toSignal(signal!);
+    } else {
+      live[modality] = toSignal(signal!);
     }
+  });
 
-    const rawLabel = typeof signal === 'string' ? signal : signal.emotion;
-    const signalConf = typeof signal === 'string' ? 1 : signal.confidence;
-    
-    const unifiedEmotion = CORE_EMOTION_MAP[rawLabel] || "Neutral";
-    const weight = WEIGHTS[modality] * signalConf;
+  // Saved weights may predate a newly registered modality; fall back to its default
+  const baseWeightOf = (m: Modality) => baseWeights[m] ?? modalityRegistry.get(m)?.defaultWeight ?? 0;
+  const liveWeight = Object.keys(live).reduce((sum, m) => sum + baseWeightOf(m), 0);
+  const weights: Partial<Record<Modality, number>> = {};
+  Object.keys(live).forEach(m => {
+    weights[m] = baseWeightOf(m) / liveWeight;
+  });
+
+  // 2. Weighted Scoring Logic
+  // `scores` holds the direct evidence for each detected label, while `distribution`
+  // also spreads each modality's residual uncertainty (1 - confidence) across the
+  // remaining core emotions so the output is a real probability distribution.
+  const scores: Record<string, number> = {};
+  const distribution = emptyDistribution();
+  const contributions: Partial<Record<Modality, ModalityContribution>> = {};
+
+  (Object.entries(live) as [Modality, EmotionSignal][]).forEach(([modality, signal]) => {
+    const modalityWeight = weights[modality] || 0;
+    const unifiedEmotion = getCoreEmotion(signal.emotion, modality);
+    const weight = modalityWeight * signal.confidence;
+    const residual = (modalityWeight - weight) / (CORE_EMOTIONS.length - 1);
     
     scores[unifiedEmotion] = (scores[unifiedEmotion] || 0) + weight;
+    CORE_EMOTIONS.forEach(emotion => {
+      distribution[emotion] += emotion === unifiedEmotion ? weight : residual;
+    });
+    contributions[modality] = { label: signal.emotion, coreEmotion: unifiedEmotion, weight, share: 0 };
+  });
+
+  const liveContributions = Object.values(contributions) as ModalityContribution[];
+  const totalEvidence = liveContributions.reduce((sum, c) => sum + c.weight, 0);
+  liveContributions.forEach(c => {
+    c.share = totalEvidence > 0 ? Math.round((c.weight / totalEvidence) * 100) : 0;
+  });
+  const probabilities = toPercentages(distribution);
+  const hrDeviation = hr > 0 && !isHrStale ? getHeartRateDeviation(hr, hrBaseline) : null;
+  const affect = estimateAffect(live, cues, contributions, hrDeviation, respiration);
+
+  const explanation = {
+    signals: modalityRegistry.ids().reduce((acc, modality) => {
+      acc[modality] = describeSignal(getModalitySignal(data, modality), dropped[modality]);
+      return acc;
+    }, {} as Record<Modality, string>),
+    heartRate: hr > 0 ? describeHeartRate(hr, hrBaseline) : "Stationary/Normal",
+    respiration: respiration !== null ? describeRespiration(respiration, data.respirationRegularity) : "Inactive",
+    dropped,
+    ...assessAgreement(contributions)
   };
 
-  if (data.face) addScore("face", data.face);
-  if (data.text) addScore("text", data.text);
-  if (data.voice) addScore("voice", data.voice);
+  // 3. Critical Biometric Alerts (only if not stale)
+  // Judged against the user's own resting rate, so a naturally fast resting
+  // pulse does not trigger the override and a low one is not missed.
+  if (hr > 0 && !isHrStale && classifyHeartRate(hr, hrBaseline) === "critical") {
+    return {
+      finalEmotion: "Panic/Distress",
+      confidence: 95,
+      probabilities,
+      contributions,
+      weights,
+      affect,
+      explanation: { ...explanation, heartRate: "Critical (Elevated Heart Rate Detected)" }
+    };
+  }
 
-  let finalEmotion = "Neutral";
-  let maxScore = 0;
+  let finalEmotion: string = "Neutral";
+  let maxProbability = 0;
 
-  Object.entries(scores).forEach(([emotion, score]) => {
-    if (score > maxScore) {
-      maxScore = score;
+  CORE_EMOTIONS.forEach(emotion => {
+    if (distribution[emotion] > maxProbability) {
+      maxProbability = distribution[emotion];
       finalEmotion = emotion;
     }
   });
 
-  // Handle case where all signals expired
+  const maxScore = scores[finalEmotion] || 0;
+
+  // Handle case where no modality survived gating
   if (maxScore === 0) {
     return {
       finalEmotion: "Neutral",
       confidence: 50,
-      explanation: {
-        face: "Signal Expired",
-        voice: "Signal Expired",
-        text: "Signal Expired",
-        heartRate: "Inactive"
-      }
+      probabilities,
+      contributions,
+      weights,
+      affect,
+      explanation: { ...explanation, heartRate: hr > 0 && !isHrStale ? explanation.heartRate : "Inactive" }
     };
   }
 
@@ -140,15 +239,223 @@ export function getFinalEmotion(data: EmotionData): FusionResult {
   return {
     finalEmotion,
     confidence: Math.min(confidence, 98),
-    explanation: {
-      face: getEmotionLabel(data.face),
-      voice: getEmotionLabel(data.voice),
-      text: getEmotionLabel(data.text),
-      heartRate: hr > 0 ? `${hr} BPM` : "Stationary/Normal"
+    probabilities,
+    contributions,
+    weights,
+    affect,
+    explanation
+  };
+}
+
+function estimateAffect(
+  live: Partial<Record<Modality, EmotionSignal>>,
+  cues: Partial<Record<Modality, EmotionSignal>>,
+  contributions: Partial<Record<Modality, ModalityContribution>>,
+  heartRateDeviation: number | null,
+  respirationRate: number | null
+): AffectPoint {
+  let valence = 0;
+  let labelArousal = 0;
+  let evidence = 0;
+
+  (Object.entries(contributions) as [Modality, ModalityContribution][]).forEach(([modality, c]) => {
+    const point = affectOf(modality, c);
+    valence += point.valence * c.weight;
+    labelArousal += point.arousal * c.weight;
+    evidence += c.weight;
+  });
+
+  const arousalParts: Array<[number, number]> = [];
+  if (evidence > 0) {
+    valence /= evidence;
+    arousalParts.push([labelArousal / evidence, AROUSAL_SOURCES.labels]);
+  }
+  if (heartRateDeviation !== null) {
+    arousalParts.push([clamp(heartRateDeviation / HR_AROUSAL_DEVIATION), AROUSAL_SOURCES.heartRate]);
+  }
+  (Object.entries(cues) as [Modality, EmotionSignal][]).forEach(([modality, signal]) => {
+    const point = modalityRegistry.findLabelAffect(signal.emotion, modality);
+    if (point) arousalParts.push([point.arousal, AROUSAL_SOURCES.cues * signal.confidence]);
+  });
+  if (respirationRate !== null) {
+    arousalParts.push([clamp((respirationRate - RESTING_RESPIRATION) / RESPIRATION_AROUSAL_SPAN), AROUSAL_SOURCES.respiration]);
+  }
+  const intensities = Object.values(live)
+    .map(signal => signal?.intensity)
+    .filter((value): value is number => typeof value === 'number');
+  if (intensities.length > 0) {
+    const intensity = intensities.reduce((sum, value) => sum + value, 0) / intensities.length;
+    arousalParts.push([clamp(intensity * 2 - 1), AROUSAL_SOURCES.intensity]);
+  }
+
+  const arousalWeight = arousalParts.reduce((sum, [, w]) => sum + w, 0);
+  const arousal = arousalWeight > 0
+    ? arousalParts.reduce((sum, [value, w]) => sum + value * w, 0) / arousalWeight
+    : 0;
+
+  return { valence: round2(clamp(valence)), arousal: round2(clamp(arousal)) };
+}
+
+function affectOf(modality: Modality, contribution: ModalityContribution): AffectPoint {
+  return modalityRegistry.findLabelAffect(contribution.label, modality) || CORE_EMOTION_AFFECT[contribution.coreEmotion];
+}
+
+function assessAgreement(
+  contributions: Partial<Record<Modality, ModalityContribution>>
+): { agreement: number; conflict: ConflictReport | null } {
+  const entries = Object.entries(contributions) as [Modality, ModalityContribution][];
+  if (entries.length < 2) return { agreement: 100, conflict: null };
+
+  let weightedSimilarity = 0;
+  let pairWeight = 0;
+  let widest: { pair: [Modality, Modality]; gap: number; similarity: number } | null = null;
+
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const [ma, a] = entries[i];
+      const [mb, b] = entries[j];
+      const pa = affectOf(ma, a);
+      const pb = affectOf(mb, b);
+      const similarity = a.coreEmotion === b.coreEmotion
+        ? 1
+        : 1 - Math.hypot(pa.valence - pb.valence, pa.arousal - pb.arousal) / MAX_AFFECT_DISTANCE;
+      const weight = a.weight * b.weight;
+
+      weightedSimilarity += similarity * weight;
+      pairWeight += weight;
+
+      const gap = Math.abs(pa.valence - pb.valence);
+      if (!widest || gap > widest.gap) widest = { pair: [ma, mb], gap, similarity };
+    }
+  }
+
+  const agreement = pairWeight > 0 ? Math.round((weightedSimilarity / pairWeight) * 100) : 100;
+  if (!widest) return { agreement, conflict: null };
+
+  // Orient the pair so an expressive (outwardly controllable) channel comes first
+  const isExpressive = (m: Modality) => modalityRegistry.get(m)?.expressive === true;
+  const [first, second] = isExpressive(widest.pair[1]) && !isExpressive(widest.pair[0])
+    ? [widest.pair[1], widest.pair[0]]
+    : widest.pair;
+  const a = contributions[first]!;
+  const b = contributions[second]!;
+  const va = affectOf(first, a).valence;
+  const vb = affectOf(second, b).valence;
+
+  let pattern: ConflictPattern = "divergence";
+  let description = `${capitalize(first)} reads ${a.label} while ${second} indicates ${b.label}.`;
+  if (isExpressive(first) && va > 0.3 && vb < -0.3) {
+    pattern = "masking";
+    description = `Possible masking: ${first} shows ${a.label} while ${second} indicates ${b.label}.`;
+  } else if (isExpressive(first) && a.coreEmotion === "Neutral" && vb <= -0.5) {
+    pattern = "suppression";
+    description = `Possible suppression: ${first} stays neutral while ${second} indicates ${b.label}.`;
+  }
+
+  const isConflict = pattern !== "divergence"
+    || agreement < MODERATE_CONFLICT_AGREEMENT
+    || widest.gap >= HIGH_CONFLICT_VALENCE_GAP;
+  if (!isConflict) return { agreement, conflict: null };
+
+  return {
+    agreement,
+    conflict: {
+      level: widest.gap >= HIGH_CONFLICT_VALENCE_GAP ? "high" : "moderate",
+      pattern,
+      modalities: [first, second],
+      labels: [a.label, b.label],
+      description
     }
   };
 }
 
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function clamp(value: number, min = -1, max = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toSignal(signal: string | EmotionSignal): EmotionSignal {
+  return typeof signal === 'string' ? { emotion: signal, confidence: 1 } : signal;
+}
+
+function getDropReason(signal: string | EmotionSignal | undefined, now: number, ttl: number): DropReason | null {
+  if (!signal) return "absent";
+  if (typeof signal === 'string') return null;
+  if (!signal.emotion) return "absent";
+  if (signal.timestamp && now - signal.timestamp > ttl) return "expired";
+  if (signal.confidence < MIN_SIGNAL_CONFIDENCE) return "below_threshold";
+  return null;
+}
+
+function describeSignal(signal: string | EmotionSignal | undefined, reason: DropReason | undefined): string {
+  switch (reason) {
+    case "absent": return "No Signal";
+    case "expired": return "Signal Expired";
+    case "below_threshold": return `${getEmotionLabel(signal)} (Below Threshold)`;
+    default: return getEmotionLabel(signal);
+  }
+}
+
+function describeHeartRate(bpm: number, baseline: HeartRateBaseline): string {
+  if (baseline.sampleCount === 0) return `${bpm} BPM`;
+  const delta = Math.round(bpm - baseline.restingBpm);
+  return `${bpm} BPM (${delta >= 0 ? '+' : ''}${delta} vs resting ${baseline.restingBpm})`;
+}
+
+function describeRespiration(rate: number, regularity: number | undefined): string {
+  if (regularity === undefined) return `${rate} breaths/min`;
+  return `${rate} breaths/min (${regularity < IRREGULAR_BREATHING ? 'irregular' : 'regular'})`;
+}
+
+function emptyDistribution(): Record<CoreEmotion, number> {
+  return CORE_EMOTIONS.reduce((acc, emotion) => {
+    acc[emotion] = 0;
+    return acc;
+  }, {} as Record<CoreEmotion, number>);
+}
+
+// Largest-remainder rounding so the integer percentages always add up to 100
+function toPercentages(distribution: Record<CoreEmotion, number>): Record<CoreEmotion, number> {
+  const total = CORE_EMOTIONS.reduce((sum, emotion) => sum + distribution[emotion], 0);
+  const percentages = emptyDistribution();
+
+  if (total === 0) {
+    percentages.Neutral = 100;
+    return percentages;
+  }
+
+  const exact = CORE_EMOTIONS.map(emotion => ({ emotion, value: (distribution[emotion] / total) * 100 }));
+  exact.forEach(({ emotion, value }) => { percentages[emotion] = Math.floor(value); });
+
+  let remainder = 100 - exact.reduce((sum, { value }) => sum + Math.floor(value), 0);
+  [...exact]
+    .sort((a, b) => (b.value - Math.floor(b.value)) - (a.value - Math.floor(a.value)))
+    .forEach(({ emotion }) => {
+      if (remainder > 0) {
+        percentages[emotion] += 1;
+        remainder -= 1;
+      }
+    });
+
+  return percentages;
+}
+
+export function getCoreEmotion(rawLabel: string, modality?: Modality): CoreEmotion {
+  if ((CORE_EMOTIONS as readonly string[]).includes(rawLabel)) return rawLabel as CoreEmotion;
+  return modalityRegistry.findCoreEmotion(rawLabel, modality) || "Neutral";
+}
+
+export function getModalitySignal(data: EmotionData, modality: Modality): string | EmotionSignal | undefined {
+  return data.signals?.[modality] ?? data[modality as BuiltInModality];
+}
+
 function getEmotionLabel(signal: string | EmotionSignal | undefined): string {
   if (!signal) return "No Signal";
   return typeof signal === 'string' ? signal : signal.emotion;
@@ -0,0 +1,96 @@
+import { EXPRESSION_LABELS, type ExpressionProbabilities } from "./mlModels/ferModel";
+import { measureFaceGeometry, type FaceGeometry } from "./actionUnits";
+import type { Point } from "./faceQuality";
+
+// A user's resting face as the expression nets see it. Some resting faces read as
+// "sad" or "angry"; subtracting that reading keeps it from being reported as an
+// emotion, while expressions stronger than the resting one still come through.
+
+export interface FaceBaseline {
+  expressions: ExpressionProbabilities; // face-api output on the neutral face
+  fer: ExpressionProbabilities | null; // in-house FER output, when it was loaded during calibration
+  geometry: FaceGeometry | null; // personal neutral for the action unit estimates
+  frames: number;
+  capturedAt: string;
+}
+
+export interface BaselineFrame {
+  expressions: ExpressionProbabilities;
+  fer?: ExpressionProbabilities | null;
+  landmarks: Point[];
+}
+
+export const CALIBRATION_DURATION = 5000; // ms of neutral face captured by the wizard
+export const MIN_BASELINE_FRAMES = 10;
+
+export function computeFaceBaseline(frames: BaselineFrame[], capturedAt: Date = new Date()): FaceBaseline | null {
+  if (frames.length < MIN_BASELINE_FRAMES) return null;
+
+  const ferFrames = frames.map(frame => frame.fer).filter((fer): fer is ExpressionProbabilities => !!fer);
+  const geometries = frames
+    .map(frame => measureFaceGeometry(frame.landmarks))
+    .filter((geometry): geometry is FaceGeometry => geometry !== null);
+
+  return {
+    expressions: meanExpressions(frames.map(frame => frame.expressions)),
+    // A handful of FER frames is not a baseline; FER output then goes uncorrected
+    fer: ferFrames.length >= MIN_BASELINE_FRAMES ? meanExpressions(ferFrames) : null,
+    geometry: geometries.length >= MIN_BASELINE_FRAMES ? meanGeometry(geometries) : null,
+    frames: frames.length,
+    capturedAt: capturedAt.toISOString()
+  };
+}
+
+// Each non-neutral expression keeps only what exceeds the resting reading, as a
+// share of the headroom above it, so a resting 0.6 "sad" reads as 0 and a 0.95
+// one as 0.88. Whatever is left over goes to neutral.
+export function applyFaceBaseline(
+  expressions: ExpressionProbabilities,
+  baseline: ExpressionProbabilities | null
+): ExpressionProbabilities {
+  if (!baseline) return expressions;
+
+  const adjusted = { ...expressions };
+  let expressive = 0;
+  EXPRESSION_LABELS.forEach(label => {
+    if (label === "neutral") return;
+    const rest = Math.min(0.99, baseline[label]);
+    adjusted[label] = Math.max(0, (expressions[label] - rest) / (1 - rest));
+    expressive += adjusted[label];
+  });
+
+  if (expressive > 1) {
+    EXPRESSION_LABELS.forEach(label => { adjusted[label] /= expressive; });
+    adjusted.neutral = 0;
+  } else {
+    adjusted.neutral = 1 - expressive;
+  }
+  return adjusted;
+}
+
+function meanExpressions(samples: ExpressionProbabilities[]): ExpressionProbabilities {
+  return EXPRESSION_LABELS.reduce((acc, label) => {
+    acc[label] = round3(samples.reduce((sum, sample) => sum + sample[label], 0) / samples.length);
+    return acc;
+  }, {} as ExpressionProbabilities);
+}
+
+function meanGeometry(samples: FaceGeometry[]): FaceGeometry {
+  const mean = (pick: (geometry: FaceGeometry) => number) =>
+    round3(samples.reduce((sum, geometry) => sum + pick(geometry), 0) / samples.length);
+  return {
+    innerBrowHeight: mean(g => g.innerBrowHeight),
+    outerBrowHeight: mean(g => g.outerBrowHeight),
+    browGap: mean(g => g.browGap),
+    eyeAperture: mean(g => g.eyeAperture),
+    lipCornerDrop: { left: mean(g => g.lipCornerDrop.left), right: mean(g => g.lipCornerDrop.right) },
+    mouthWidth: mean(g => g.mouthWidth),
+    lipThickness: mean(g => g.lipThickness),
+    lipGap: mean(g => g.lipGap),
+    jawDrop: mean(g => g.jawDrop)
+  };
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,70 @@
+import { supabase } from './supabase';
+import type { FaceBaseline } from './faceBaseline';
+
+const STORAGE_KEY = "smart_care_face_baseline";
+
+class FaceBaselineStore {
+  private baseline: FaceBaseline | null = null;
+  private userId: string | null = null;
+  public ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.init();
+  }
+
+  private async init() {
+    if (typeof window !== "undefined") {
+      const { data: { user } } = await supabase.auth.getUser();
+      this.userId = user?.id || null;
+
+      if (this.userId) {
+        const { data } = await supabase
+          .from('user_preferences')
+          .select('face_baseline')
+          .eq('user_id', this.userId)
+          .single();
+        this.setIfValid(data?.face_baseline);
+      } else {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) this.setIfValid(JSON.parse(saved));
+      }
+    }
+  }
+
+  private setIfValid(candidate: unknown) {
+    if (!candidate || typeof candidate !== "object") return;
+    const saved = candidate as Partial<FaceBaseline>;
+    if (!saved.expressions || typeof saved.frames !== "number") return;
+    this.baseline = { fer: null, geometry: null, capturedAt: "", ...saved } as FaceBaseline;
+  }
+
+  private async persist() {
+    if (typeof window === "undefined") return;
+
+    if (this.userId) {
+      await supabase
+        .from('user_preferences')
+        .upsert({ user_id: this.userId, face_baseline: this.baseline }, { onConflict: 'user_id' });
+    } else if (this.baseline) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.baseline));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  public getBaseline(): FaceBaseline | null {
+    return this.baseline;
+  }
+
+  public async save(baseline: FaceBaseline) {
+    this.baseline = baseline;
+    await this.persist();
+  }
+
+  public async clear() {
+    this.baseline = null;
+    await this.persist();
+  }
+}
+
+export const faceBaselineStore = new FaceBaselineStore();
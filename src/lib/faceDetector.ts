@@ -0,0 +1,142 @@
+import { analyzeFrame, loadFaceModels, loadFer, type ExpressionModel, type FaceAnalysis } from "./faceInference";
+
+// Runs face inference off the main thread when the browser allows it, so the
+// detector no longer competes with UI animation. Frames travel to the worker as
+// transferable ImageBitmaps; browsers without OffscreenCanvas fall back to the
+// main thread with the same analysis code.
+
+export type FaceWorkerRequest =
+  | { type: "init" }
+  | { type: "loadFer" }
+  | { type: "detect"; id: number; frame: ImageBitmap; expressionModel: ExpressionModel };
+
+export type FaceWorkerResponse =
+  | { type: "ready" }
+  | { type: "error"; message: string }
+  | { type: "fer"; available: boolean }
+  | { type: "result"; id: number; analysis: FaceAnalysis | null }
+  | { type: "failed"; id: number; message: string };
+
+export interface FaceDetector {
+  runtime: "worker" | "main-thread";
+  available: boolean; // false once a crashed worker's main-thread replacement also failed to load
+  detect(video: HTMLVideoElement, expressionModel: ExpressionModel): Promise<FaceAnalysis | null>;
+  loadFer(): Promise<boolean>;
+  dispose(): void;
+}
+
+const supportsWorkerInference = () =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined";
+
+export const createFaceDetector = async (): Promise<FaceDetector> => {
+  if (supportsWorkerInference()) {
+    try {
+      return await createWorkerDetector();
+    } catch (err) {
+      console.warn("[FaceDetector] Worker unavailable, running on the main thread:", err);
+    }
+  }
+  return createMainThreadDetector();
+};
+
+const createMainThreadDetector = async (): Promise<FaceDetector> => {
+  await loadFaceModels();
+  const scratch = document.createElement("canvas");
+  return {
+    runtime: "main-thread",
+    available: true,
+    detect: (video, expressionModel) => analyzeFrame(video, expressionModel, scratch),
+    loadFer,
+    dispose: () => {}
+  };
+};
+
+const createWorkerDetector = (): Promise<FaceDetector> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL("./workers/faceDetection.worker.ts", import.meta.url), { type: "module" });
+  const pending = new Map<number, { resolve: (analysis: FaceAnalysis | null) => void; reject: (err: Error) => void }>();
+  const ferRequests: ((available: boolean) => void)[] = [];
+  let nextId = 0;
+  let ready = false;
+  let fallback: Promise<FaceDetector> | null = null;
+
+  const detector: FaceDetector = {
+    runtime: "worker",
+    available: true,
+    detect: async (video, expressionModel) => {
+      if (fallback) return (await fallback).detect(video, expressionModel);
+      const frame = await createImageBitmap(video);
+      const id = nextId++;
+      return new Promise((resolveDetect, rejectDetect) => {
+        pending.set(id, { resolve: resolveDetect, reject: rejectDetect });
+        const request: FaceWorkerRequest = { type: "detect", id, frame, expressionModel };
+        worker.postMessage(request, [frame]);
+      });
+    },
+    loadFer: () => {
+      if (fallback) return fallback.then(main => main.loadFer());
+      return new Promise(resolveFer => {
+        ferRequests.push(resolveFer);
+        const request: FaceWorkerRequest = { type: "loadFer" };
+        worker.postMessage(request);
+      });
+    },
+    dispose: () => {
+      worker.terminate();
+      pending.forEach(request => request.reject(new Error("Face detector disposed")));
+      pending.clear();
+      fallback?.then(main => main.dispose(), () => {});
+    }
+  };
+
+  // Before "ready" the caller falls back itself; afterwards the frames in flight
+  // are rejected and later calls go to a main-thread detector
+  const fail = (err: Error) => {
+    worker.terminate();
+    if (!ready) {
+      reject(err);
+      return;
+    }
+    if (fallback) return;
+    console.warn("[FaceDetector] Worker failed, continuing on the main thread:", err);
+    const main = createMainThreadDetector();
+    fallback = main;
+    main.catch(loadErr => {
+      console.warn("[FaceDetector] Main-thread fallback unavailable:", loadErr);
+      detector.available = false;
+    });
+    detector.runtime = "main-thread";
+    pending.forEach(request => request.reject(err));
+    pending.clear();
+    ferRequests.splice(0).forEach(resolveFer => main.then(d => d.loadFer()).then(resolveFer, () => resolveFer(false)));
+  };
+
+  worker.onmessage = (event: MessageEvent<FaceWorkerResponse>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "ready":
+        ready = true;
+        resolve(detector);
+        break;
+      case "error":
+        fail(new Error(message.message));
+        break;
+      case "fer":
+        ferRequests.shift()?.(message.available);
+        break;
+      case "result":
+        pending.get(message.id)?.resolve(message.analysis);
+        pending.delete(message.id);
+        break;
+      case "failed":
+        pending.get(message.id)?.reject(new Error(message.message));
+        pending.delete(message.id);
+        break;
+    }
+  };
+  worker.onerror = (event) => {
+    fail(new Error(event.message || (ready ? "Face detection worker crashed" : "Face detection worker failed to start")));
+  };
+
+  const init: FaceWorkerRequest = { type: "init" };
+  worker.postMessage(init);
+});
@@ -0,0 +1,80 @@
+import * as faceapi from "@vladmandic/face-api";
+import * as tf from "@tensorflow/tfjs";
+import {
+  loadFerModel,
+  predictEmotion,
+  type ExpressionProbabilities,
+  type FaceBox,
+  type FerPrediction,
+  type FrameSource
+} from "./mlModels/ferModel";
+import { measureBrightness, type Point } from "./faceQuality";
+
+// Per-frame face analysis shared by the detection worker and the main-thread fallback.
+// Results are plain data so they survive postMessage.
+
+export type ExpressionModel = "face-api" | "fer" | "compare";
+
+export interface FaceAnalysis {
+  box: FaceBox;
+  score: number;
+  frameWidth: number;
+  frameHeight: number;
+  landmarks: Point[];
+  expressions: ExpressionProbabilities;
+  fer: FerPrediction | null;
+  brightness: number;
+}
+
+export const FACE_MODEL_URL = "/models";
+
+const DETECTOR_OPTIONS = new faceapi.TinyFaceDetectorOptions({ inputSize: 224, scoreThreshold: 0.4 });
+
+let ferModel: tf.LayersModel | null = null;
+
+export const loadFaceModels = async (modelUrl: string = FACE_MODEL_URL) => {
+  await tf.ready();
+  // tinyFaceDetector keeps per-frame cost low enough for continuous use
+  await Promise.all([
+    faceapi.nets.tinyFaceDetector.loadFromUri(modelUrl),
+    faceapi.nets.faceExpressionNet.loadFromUri(modelUrl),
+    faceapi.nets.faceLandmark68Net.loadFromUri(modelUrl),
+  ]);
+};
+
+export const loadFer = async (): Promise<boolean> => {
+  ferModel = await loadFerModel();
+  return ferModel !== null;
+};
+
+export const analyzeFrame = async (
+  frame: FrameSource & CanvasImageSource,
+  expressionModel: ExpressionModel,
+  scratch: HTMLCanvasElement | OffscreenCanvas
+): Promise<FaceAnalysis | null> => {
+  const input = faceapi.tf.browser.fromPixels(frame);
+  try {
+    const detection = await faceapi
+      .detectSingleFace(input, DETECTOR_OPTIONS)
+      .withFaceLandmarks()
+      .withFaceExpressions();
+    if (!detection) return null;
+
+    const { x, y, width, height } = detection.detection.box;
+    const box = { x, y, width, height };
+    const { neutral, happy, sad, angry, fearful, disgusted, surprised } = detection.expressions;
+
+    return {
+      box,
+      score: detection.detection.score,
+      frameWidth: input.shape[1],
+      frameHeight: input.shape[0],
+      landmarks: detection.landmarks.positions.map(point => ({ x: point.x, y: point.y })),
+      expressions: { neutral, happy, sad, angry, fearful, disgusted, surprised },
+      fer: expressionModel !== "face-api" && ferModel ? await predictEmotion(ferModel, frame, box) : null,
+      brightness: measureBrightness(frame, box, scratch)
+    };
+  } finally {
+    input.dispose();
+  }
+};
@@ -0,0 +1,254 @@
+// Face privacy mode. While it is on, camera frames are only ever handed to the
+// on-device detector; requests that would carry image data off the device are
+// refused, and every signal derived from the camera is written to an audit log
+// in place of the images themselves.
+
+export type DerivedFaceSignal = "face_expression" | "action_units" | "attention" | "camera_pulse" | "face_baseline";
+
+export const DERIVED_SIGNAL_LABELS: Record<DerivedFaceSignal, string> = {
+  face_expression: "Expression label and confidence",
+  action_units: "Action unit intensities",
+  attention: "Blink, head pose and look-away timings",
+  camera_pulse: "Heart rate from skin colour",
+  face_baseline: "Resting expression baseline"
+};
+
+export interface FacePrivacySettings {
+  enabled: boolean;
+  avatar: boolean; // show a landmark mesh instead of the video
+}
+
+export interface DerivedSignalEntry {
+  count: number;
+  firstAt: number;
+  lastAt: number;
+}
+
+export interface BlockedEgress {
+  at: number;
+  url: string;
+  channel: "fetch" | "xhr" | "beacon" | "websocket";
+}
+
+export interface FacePrivacyAudit {
+  since: number;
+  signals: Partial<Record<DerivedFaceSignal, DerivedSignalEntry>>;
+  blocked: BlockedEgress[];
+}
+
+export interface FacePrivacyState {
+  settings: FacePrivacySettings;
+  audit: FacePrivacyAudit;
+}
+
+type PrivacyListener = (state: FacePrivacyState) => void;
+
+const SETTINGS_KEY = "smart_care_face_privacy";
+export const AUDIT_KEY = "smart_care_face_audit";
+const PERSIST_INTERVAL = 5000; // ms between audit writes while signals stream in
+const MAX_BLOCKED = 50;
+
+// Leading bytes of the image formats a frame could be encoded to
+const IMAGE_SIGNATURES = [
+  [0xff, 0xd8, 0xff], // JPEG
+  [0x89, 0x50, 0x4e, 0x47], // PNG
+  [0x52, 0x49, 0x46, 0x46] // RIFF, as used by WebP
+];
+const ENCODED_IMAGE = /data:(image|video)\/|\/9j\/4AAQ|iVBORw0KGgo|UklGR[a-zA-Z0-9+/]{3}XRUJQ/;
+
+// Whether a request body could be a camera frame: a typed image or video blob,
+// bytes starting with an image signature, or a base64 / data-URL encoded image.
+// Streams and untyped blobs can't be read synchronously, so they count as frames.
+export function carriesImageData(body: unknown): boolean {
+  if (body === null || body === undefined) return false;
+  if (typeof body === "string") return ENCODED_IMAGE.test(body);
+  if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) return true;
+  if (typeof Blob !== "undefined" && body instanceof Blob) return body.type === "" || /^(image|video)\//.test(body.type);
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    return Array.from(body.values()).some(value => carriesImageData(value));
+  }
+  if (typeof URLSearchParams !== "undefined" && body instanceof URLSearchParams) return carriesImageData(body.toString());
+
+  let bytes: Uint8Array | null = null;
+  if (body instanceof ArrayBuffer) bytes = new Uint8Array(body);
+  else if (ArrayBuffer.isView(body)) bytes = new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  if (!bytes) return false;
+  return IMAGE_SIGNATURES.some(signature => signature.every((byte, i) => bytes![i] === byte));
+}
+
+// A Request carries its body as a stream; a copy is read so the original can still be sent
+export async function requestCarriesImageData(request: Request): Promise<boolean> {
+  if (!request.body) return false;
+  if (/^(image|video)\//.test(request.headers.get("content-type") ?? "")) return true;
+  const bytes = new Uint8Array(await request.clone().arrayBuffer());
+  return carriesImageData(bytes) || carriesImageData(new TextDecoder().decode(bytes));
+}
+
+// Saved JSON from localStorage, or null when missing or unreadable
+function readSaved<T>(key: string): Partial<T> | null {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(saved);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+class FacePrivacyStore {
+  private settings: FacePrivacySettings = { enabled: false, avatar: false };
+  private audit: FacePrivacyAudit = emptyAudit();
+  private listeners = new Set<PrivacyListener>();
+  private lastPersisted = 0;
+  private restoreNetwork: (() => void) | null = null;
+  private state: FacePrivacyState = { settings: this.settings, audit: this.audit };
+
+  constructor() {
+    if (typeof window === "undefined") return;
+    this.settings = { ...this.settings, ...readSaved<FacePrivacySettings>(SETTINGS_KEY) };
+    this.audit = { ...emptyAudit(), ...readSaved<FacePrivacyAudit>(AUDIT_KEY) };
+    this.state = { settings: this.settings, audit: this.audit };
+    if (this.settings.enabled) this.guardNetwork();
+  }
+
+  public getState(): FacePrivacyState {
+    return this.state;
+  }
+
+  public isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  public update(changes: Partial<FacePrivacySettings>) {
+    this.settings = { ...this.settings, ...changes };
+    if (typeof window !== "undefined") {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+      if (this.settings.enabled) this.guardNetwork();
+      else this.releaseNetwork();
+    }
+    this.publish();
+  }
+
+  // Notes that a signal was derived from the camera; only while privacy mode is on
+  public record(signal: DerivedFaceSignal, now: number = Date.now()) {
+    if (!this.settings.enabled) return;
+    const entry = this.audit.signals[signal];
+    this.audit = {
+      ...this.audit,
+      signals: {
+        ...this.audit.signals,
+        [signal]: entry ? { ...entry, count: entry.count + 1, lastAt: now } : { count: 1, firstAt: now, lastAt: now }
+      }
+    };
+    if (now - this.lastPersisted >= PERSIST_INTERVAL) {
+      this.lastPersisted = now;
+      this.persistAudit();
+      this.publish();
+    }
+  }
+
+  public clearAudit() {
+    this.audit = emptyAudit();
+    this.persistAudit();
+    this.publish();
+  }
+
+  public subscribe(listener: PrivacyListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private block(channel: BlockedEgress["channel"], url: string) {
+    const blocked = [...this.audit.blocked, { at: Date.now(), url, channel }].slice(-MAX_BLOCKED);
+    this.audit = { ...this.audit, blocked };
+    this.persistAudit();
+    this.publish();
+    console.warn(`[FacePrivacy] Blocked image data leaving the device via ${channel}: ${url}`);
+  }
+
+  // Wraps the browser's outbound channels so image payloads are refused at the source
+  private guardNetwork() {
+    if (this.restoreNetwork) return;
+    const originalFetch = window.fetch;
+    const originalSend = XMLHttpRequest.prototype.send;
+    const originalOpen = XMLHttpRequest.prototype.open;
+    const originalBeacon = navigator.sendBeacon?.bind(navigator);
+    const originalSocketSend = typeof WebSocket !== "undefined" ? WebSocket.prototype.send : null;
+    const urls = new WeakMap<XMLHttpRequest, string>();
+    const block = (channel: BlockedEgress["channel"], url: string) => this.block(channel, url);
+
+    window.fetch = async (input, init) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      // A body in `init` replaces the one on a Request input
+      const carriesImage = init?.body !== undefined && init.body !== null
+        ? carriesImageData(init.body)
+        : input instanceof Request && await requestCarriesImageData(input);
+      if (carriesImage) {
+        block("fetch", url);
+        throw new TypeError("Face privacy mode: image data may not leave the device");
+      }
+      return originalFetch(input, init);
+    };
+    XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+      urls.set(this, String(url));
+      return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest);
+    } as typeof XMLHttpRequest.prototype.open;
+    XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+      if (carriesImageData(body)) {
+        block("xhr", urls.get(this) ?? "");
+        throw new TypeError("Face privacy mode: image data may not leave the device");
+      }
+      return originalSend.call(this, body);
+    };
+    if (originalBeacon) {
+      navigator.sendBeacon = (url, data) => {
+        if (carriesImageData(data)) {
+          block("beacon", String(url));
+          return false;
+        }
+        return originalBeacon(url, data);
+      };
+    }
+    if (originalSocketSend) {
+      WebSocket.prototype.send = function (this: WebSocket, data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+        if (carriesImageData(data)) {
+          block("websocket", this.url);
+          throw new TypeError("Face privacy mode: image data may not leave the device");
+        }
+        return originalSocketSend.call(this, data);
+      };
+    }
+
+    this.restoreNetwork = () => {
+      window.fetch = originalFetch;
+      XMLHttpRequest.prototype.send = originalSend;
+      XMLHttpRequest.prototype.open = originalOpen;
+      if (originalBeacon) navigator.sendBeacon = originalBeacon;
+      if (originalSocketSend) WebSocket.prototype.send = originalSocketSend;
+    };
+  }
+
+  private releaseNetwork() {
+    this.restoreNetwork?.();
+    this.restoreNetwork = null;
+  }
+
+  private persistAudit() {
+    if (typeof window === "undefined") return;
+    localStorage.setItem(AUDIT_KEY, JSON.stringify(this.audit));
+  }
+
+  private publish() {
+    this.state = { settings: this.settings, audit: this.audit };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+function emptyAudit(): FacePrivacyAudit {
+  return { since: Date.now(), signals: {}, blocked: [] };
+}
+
+export const facePrivacy = new FacePrivacyStore();
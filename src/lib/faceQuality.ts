@@ -0,0 +1,91 @@
+import { estimateHeadPose } from "./headPose";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface FaceQualityInput {
+  box: { x: number; y: number; width: number; height: number };
+  frameWidth: number;
+  detectionScore: number; // face detector confidence, drops when the face is partly hidden
+  landmarks: Point[]; // 68-point layout from faceLandmark68Net
+  brightness: number; // mean luma of the face region, 0-255
+}
+
+export type FaceQualityIssue = "too_small" | "turned_away" | "tilted" | "occluded" | "too_dark" | "too_bright";
+
+export interface FaceQuality {
+  score: number; // 0..1, product of the per-check scores
+  issues: FaceQualityIssue[]; // worst first
+}
+
+export const FACE_QUALITY_HINTS: Record<FaceQualityIssue, string> = {
+  too_small: "Move closer to the camera",
+  turned_away: "Turn toward the camera",
+  tilted: "Level your head",
+  occluded: "Keep your face uncovered",
+  too_dark: "Too dark — add some light",
+  too_bright: "Too bright — reduce glare"
+};
+
+// Readings below this are dropped; above it their confidence is scaled by the score
+export const MIN_FACE_QUALITY = 0.5;
+
+// A check reports an issue once its score falls below this
+const ISSUE_THRESHOLD = 0.75;
+
+// Degrees of yaw or pitch over which a turned face goes from clean to unusable
+const TURN_RANGE: [number, number] = [20, 42];
+
+export function assessFaceQuality(input: FaceQualityInput): FaceQuality {
+  const checks: Array<[FaceQualityIssue, number]> = [
+    ["too_small", ramp(input.box.width / input.frameWidth, 0.08, 0.2)],
+    ["occluded", ramp(input.detectionScore, 0.4, 0.7)],
+    ["too_dark", ramp(input.brightness, 40, 80)],
+    ["too_bright", ramp(255 - input.brightness, 20, 50)]
+  ];
+
+  if (input.landmarks.length >= 68) {
+    const pose = estimateHeadPose(input.landmarks);
+    const turn = pose ? Math.max(Math.abs(pose.yaw), Math.abs(pose.pitch)) : TURN_RANGE[1];
+    checks.push(["turned_away", 1 - ramp(turn, TURN_RANGE[0], TURN_RANGE[1])]);
+    if (pose) checks.push(["tilted", 1 - ramp(Math.abs(pose.roll), 12, 30)]);
+  }
+
+  const score = checks.reduce((product, [, value]) => product * value, 1);
+  const issues = checks
+    .filter(([, value]) => value < ISSUE_THRESHOLD)
+    .sort((a, b) => a[1] - b[1])
+    .map(([issue]) => issue);
+
+  return { score: Math.round(score * 100) / 100, issues };
+}
+
+// Mean luma of the face region, sampled on a small canvas to keep it cheap per frame.
+// Takes an OffscreenCanvas so it can also run inside the face detection worker.
+export function measureBrightness(
+  source: CanvasImageSource,
+  box: FaceQualityInput["box"],
+  canvas: HTMLCanvasElement | OffscreenCanvas
+): number {
+  const size = 24;
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext("2d", { willReadFrequently: true }) as
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) return 128;
+
+  context.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, size, size);
+  const { data } = context.getImageData(0, 0, size, size);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    total += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return total / (size * size);
+}
+
+// 0 at or below `low`, 1 at or above `high`, linear in between
+function ramp(value: number, low: number, high: number): number {
+  return Math.min(1, Math.max(0, (value - low) / (high - low)));
+}
@@ -0,0 +1,100 @@
+// Decides how long to wait before analysing the next camera frame. A steady face
+// needs few frames; an appearing, moving or changing one is sampled at full rate.
+
+export interface FrameObservation {
+  faceFound: boolean;
+  expression?: string;
+  box?: { x: number; y: number; width: number; height: number };
+}
+
+export interface FrameStats {
+  fps: number; // analysed frames per second over the stats window
+  latency: number; // ms, mean capture-to-result time over the stats window
+}
+
+export interface FrameSchedulerOptions {
+  minInterval?: number; // ms between frame starts while the face is changing
+  maxInterval?: number; // ms between frame starts once it has settled
+  hiddenInterval?: number; // ms between frame starts while the tab is hidden
+  backoff?: number; // interval growth per unchanged frame
+}
+
+const STATS_WINDOW = 5000; // ms
+const MOVE_THRESHOLD = 0.08; // share of face width the box centre may drift and still count as stable
+const RESIZE_THRESHOLD = 0.1; // share of face width the box may grow or shrink
+
+export class AdaptiveFrameScheduler {
+  private interval: number;
+  private minInterval: number;
+  private maxInterval: number;
+  private hiddenInterval: number;
+  private backoff: number;
+  private last: FrameObservation | null = null;
+  private lastLatency = 0;
+  private completed: { at: number; latency: number }[] = [];
+
+  constructor(options: FrameSchedulerOptions = {}) {
+    this.minInterval = options.minInterval ?? 100;
+    this.maxInterval = options.maxInterval ?? 1000;
+    this.hiddenInterval = options.hiddenInterval ?? 2000;
+    this.backoff = options.backoff ?? 1.3;
+    this.interval = this.minInterval;
+  }
+
+  // Records a finished frame and adapts the interval to whether anything changed
+  public observe(observation: FrameObservation, latency: number, now: number) {
+    this.interval = hasChanged(this.last, observation)
+      ? this.minInterval
+      : Math.min(this.maxInterval, this.interval * this.backoff);
+    this.last = observation;
+    this.lastLatency = latency;
+
+    this.completed.push({ at: now, latency });
+    while (this.completed.length > 0 && this.completed[0].at < now - STATS_WINDOW) this.completed.shift();
+  }
+
+  // Delay until the next frame starts; time already spent on inference counts toward it
+  public nextDelay(hidden: boolean): number {
+    if (hidden) return this.hiddenInterval;
+    return Math.max(0, Math.min(this.interval, this.maxInterval) - this.lastLatency);
+  }
+
+  // Lets callers that need fresh landmarks (e.g. the camera pulse) cap the back-off
+  public setMaxInterval(ms: number) {
+    this.maxInterval = Math.max(this.minInterval, ms);
+  }
+
+  public stats(now: number): FrameStats {
+    const recent = this.completed.filter(frame => frame.at >= now - STATS_WINDOW);
+    if (recent.length === 0) return { fps: 0, latency: 0 };
+
+    // Intervals between completions, so a single frame reads as 0 rather than a spike
+    const span = Math.max(1000, now - recent[0].at);
+    const latency = recent.reduce((sum, frame) => sum + frame.latency, 0) / recent.length;
+    return {
+      fps: Math.round(((recent.length - 1) / span) * 1000 * 10) / 10,
+      latency: Math.round(latency)
+    };
+  }
+
+  public reset() {
+    this.interval = this.minInterval;
+    this.last = null;
+    this.lastLatency = 0;
+    this.completed = [];
+  }
+}
+
+function hasChanged(previous: FrameObservation | null, next: FrameObservation): boolean {
+  if (!previous || previous.faceFound !== next.faceFound) return true;
+  if (!next.faceFound) return false;
+  if (previous.expression !== next.expression) return true;
+  if (!previous.box || !next.box) return false;
+
+  const width = Math.max(1, previous.box.width);
+  const drift = Math.hypot(
+    (next.box.x + next.box.width / 2) - (previous.box.x + previous.box.width / 2),
+    (next.box.y + next.box.height / 2) - (previous.box.y + previous.box.height / 2)
+  );
+  return drift / width > MOVE_THRESHOLD || Math.abs(next.box.width - previous.box.width) / width > RESIZE_THRESHOLD;
+}
@@ -0,0 +1,195 @@
+import {
+  CORE_EMOTIONS,
+  type CoreEmotion,
+  type EmotionSignal,
+  type FusionResult,
+  type Modality,
+  type ModalitySignals,
+  getCoreEmotion,
+  getFinalEmotion
+} from './emotionFusion';
+import { fusionWeightStore } from './fusionWeights';
+import { heartRateBaselineStore } from './heartRateBaselineStore';
+import { confidenceCalibrationStore } from './confidenceCalibrationStore';
+import { modalityRegistry } from './modalityRegistry';
+
+export interface FusionState extends FusionResult {
+  updatedAt: number;
+  stableSince: number;
+}
+
+type FusionListener = (state: FusionState) => void;
+
+interface SmoothedSignal {
+  distribution: Record<CoreEmotion, number>;
+  intensity?: number;
+  timestamp: number;
+}
+
+const SWITCH_MARGIN = 10; // % lead a challenger needs over the current emotion
+const MIN_DWELL = 2000;   // ms an emotion is held before it can be replaced
+const PUBLISH_INTERVAL = 250;
+
+class FusionEngine {
+  private smoothed: Partial<Record<Modality, SmoothedSignal>> = {};
+  private cues: Partial<Record<Modality, EmotionSignal>> = {}; // latest reading of affect-only modalities
+  private heartRate: { bpm: number; timestamp: number } | null = null;
+  private respiration: { rate: number; regularity: number | null; timestamp: number } | null = null;
+  private state: FusionState | null = null;
+  private listeners = new Set<FusionListener>();
+  private lastPublished = 0;
+
+  public ingest(modality: Modality, signal: EmotionSignal) {
+    const definition = modalityRegistry.get(modality);
+    if (!definition) {
+      console.warn(`[Fusion] Ignoring signal from unregistered modality "${modality}".`);
+      return;
+    }
+
+    // Affect-only labels are not emotions, so there is no distribution to smooth
+    if (definition.affectOnly) {
+      this.cues[modality] = { ...signal, timestamp: signal.timestamp ?? Date.now() };
+      this.recompute(this.cues[modality]!.timestamp!);
+      return;
+    }
+
+    // Half-life: how long (ms) it takes a new reading to move the modality halfway to its value
+    const halfLife = definition.halfLife;
+    const timestamp = signal.timestamp ?? Date.now();
+    const sample = toDistribution(signal, modality);
+    const previous = this.smoothed[modality];
+
+    if (!previous || timestamp - previous.timestamp > halfLife * 10) {
+      this.smoothed[modality] = { distribution: sample, intensity: signal.intensity, timestamp };
+    } else {
+      // Exponential moving average with a time-based coefficient, so irregular
+      // sample rates (150 ms face ticks vs. per-frame voice) smooth consistently.
+      const elapsed = Math.max(0, timestamp - previous.timestamp);
+      const alpha = 1 - Math.pow(0.5, elapsed / halfLife);
+      CORE_EMOTIONS.forEach(emotion => {
+        previous.distribution[emotion] += alpha * (sample[emotion] - previous.distribution[emotion]);
+      });
+      if (typeof signal.intensity === 'number') {
+        previous.intensity = previous.intensity === undefined
+          ? signal.intensity
+          : previous.intensity + alpha * (signal.intensity - previous.intensity);
+      }
+      previous.timestamp = timestamp;
+    }
+
+    this.recompute(timestamp);
+  }
+
+  public setHeartRate(bpm: number, timestamp: number = Date.now()) {
+    this.heartRate = { bpm, timestamp };
+    this.recompute(timestamp);
+  }
+
+  public setRespiration(rate: number, regularity: number | null, timestamp: number = Date.now()) {
+    this.respiration = { rate, regularity, timestamp };
+    this.recompute(timestamp);
+  }
+
+  // Re-evaluates without new input so expired modalities drop out of the state
+  public refresh(now: number = Date.now()) {
+    if (Object.keys(this.smoothed).length === 0 && Object.keys(this.cues).length === 0 && !this.heartRate && !this.respiration) return;
+    this.recompute(now);
+  }
+
+  public getState(): FusionState | null {
+    return this.state;
+  }
+
+  public subscribe(listener: FusionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public reset() {
+    this.smoothed = {};
+    this.cues = {};
+    this.heartRate = null;
+    this.respiration = null;
+    this.state = null;
+    this.lastPublished = 0;
+  }
+
+  private recompute(now: number) {
+    const signals: ModalitySignals = {};
+    modalityRegistry.ids().forEach(modality => {
+      signals[modality] = this.cues[modality] ?? this.toSignal(modality);
+    });
+
+    const raw = getFinalEmotion({
+      signals,
+      heartRate: this.heartRate?.bpm ?? "N/A",
+      heartRateTimestamp: this.heartRate?.timestamp,
+      heartRateBaseline: heartRateBaselineStore.getBaseline(),
+      respirationRate: this.respiration?.rate,
+      respirationRegularity: this.respiration?.regularity ?? undefined,
+      respirationTimestamp: this.respiration?.timestamp
+    }, fusionWeightStore.getWeights(), now);
+    const fused = { ...raw, confidence: confidenceCalibrationStore.calibrate(raw) };
+
+    const previous = this.state;
+    let next: FusionState;
+
+    if (!previous || previous.finalEmotion === fused.finalEmotion || this.shouldSwitch(previous, fused, now)) {
+      const changed = !previous || previous.finalEmotion !== fused.finalEmotion;
+      next = { ...fused, updatedAt: now, stableSince: changed ? now : previous.stableSince };
+    } else {
+      // Hysteresis: keep the incumbent label until the challenger clearly wins
+      next = {
+        ...fused,
+        finalEmotion: previous.finalEmotion,
+        confidence: previous.confidence,
+        updatedAt: now,
+        stableSince: previous.stableSince
+      };
+    }
+
+    this.state = next;
+
+    const labelChanged = previous?.finalEmotion !== next.finalEmotion;
+    if (labelChanged || now - this.lastPublished >= PUBLISH_INTERVAL) {
+      this.lastPublished = now;
+      this.listeners.forEach(listener => listener(next));
+    }
+  }
+
+  private shouldSwitch(previous: FusionState, fused: FusionResult, now: number): boolean {
+    // Safety overrides are never delayed
+    if (fused.finalEmotion === "Panic/Distress" || previous.finalEmotion === "Panic/Distress") return true;
+    if (now - previous.stableSince < MIN_DWELL) return false;
+
+    const challenger = fused.probabilities[fused.finalEmotion as CoreEmotion] ?? 0;
+    const incumbent = fused.probabilities[previous.finalEmotion as CoreEmotion] ?? 0;
+    return challenger - incumbent >= SWITCH_MARGIN;
+  }
+
+  private toSignal(modality: Modality): EmotionSignal | "" {
+    const smoothed = this.smoothed[modality];
+    if (!smoothed) return "";
+
+    const [emotion, confidence] = CORE_EMOTIONS
+      .map(e => [e, smoothed.distribution[e]] as const)
+      .reduce((a, b) => (b[1] > a[1] ? b : a));
+
+    return { emotion, confidence, intensity: smoothed.intensity, timestamp: smoothed.timestamp };
+  }
+}
+
+function toDistribution(signal: EmotionSignal, modality: Modality): Record<CoreEmotion, number> {
+  const core = getCoreEmotion(signal.emotion, modality);
+  const confidence = Math.min(Math.max(signal.confidence, 0), 1);
+  const residual = (1 - confidence) / (CORE_EMOTIONS.length - 1);
+
+  return CORE_EMOTIONS.reduce((acc, emotion) => {
+    acc[emotion] = emotion === core ? confidence : residual;
+    return acc;
+  }, {} as Record<CoreEmotion, number>);
+}
+
+export const fusionEngine = new FusionEngine();
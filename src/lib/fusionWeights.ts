@@ -0,0 +1,110 @@
+import { supabase } from './supabase';
+import type { CoreEmotion, FusionResult, Modality } from './emotionFusion';
+import { modalityRegistry } from './modalityRegistry';
+
+export type FusionWeights = Record<Modality, number>;
+
+const STORAGE_KEY = "smart_care_fusion_weights";
+
+class FusionWeightStore {
+  private weights: FusionWeights = modalityRegistry.defaultWeights();
+  private userId: string | null = null;
+  private learningRate = 0.1;
+  private minWeight = 0.05;
+  public ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.init();
+  }
+
+  private async init() {
+    if (typeof window !== "undefined") {
+      const { data: { user } } = await supabase.auth.getUser();
+      this.userId = user?.id || null;
+
+      if (this.userId) {
+        await this.loadFromSupabase();
+      } else {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) this.setIfValid(JSON.parse(saved));
+      }
+    }
+  }
+
+  private async loadFromSupabase() {
+    if (!this.userId) return;
+    const { data } = await supabase
+      .from('user_preferences')
+      .select('fusion_weights')
+      .eq('user_id', this.userId)
+      .single();
+
+    if (data && data.fusion_weights) {
+      this.setIfValid(data.fusion_weights);
+    }
+  }
+
+  // Keeps saved weights for registered modalities; ones registered since the
+  // weights were saved start from their default.
+  private setIfValid(candidate: unknown) {
+    if (!candidate || typeof candidate !== "object") return;
+    const saved = candidate as Partial<FusionWeights>;
+    const valid = modalityRegistry.ids().filter(m => typeof saved[m] === "number" && saved[m]! > 0);
+    if (valid.length === 0) return;
+
+    const weights = modalityRegistry.defaultWeights();
+    valid.forEach(m => { weights[m] = saved[m]!; });
+    this.weights = weights;
+  }
+
+  private async save() {
+    if (typeof window === "undefined") return;
+
+    if (this.userId) {
+      await supabase
+        .from('user_preferences')
+        .upsert({ user_id: this.userId, fusion_weights: this.weights }, { onConflict: 'user_id' });
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.weights));
+    }
+  }
+
+  public getWeights(): FusionWeights {
+    return { ...modalityRegistry.defaultWeights(), ...this.weights };
+  }
+
+  public isPersonalized(): boolean {
+    const defaults = modalityRegistry.defaultWeights();
+    const weights = this.getWeights();
+    return modalityRegistry.ids().some(m => Math.abs(weights[m] - defaults[m]) > 0.001);
+  }
+
+  // Boosts modalities that agreed with the user's correction and dampens the ones
+  // that pointed elsewhere, then re-normalizes so the weights still sum to 1.
+  public async applyCorrection(contributions: FusionResult["contributions"], corrected: CoreEmotion): Promise<FusionWeights> {
+    const next = this.getWeights();
+    const modalities = modalityRegistry.ids();
+
+    modalities.forEach(modality => {
+      const contribution = contributions[modality];
+      if (!contribution) return;
+      const factor = contribution.coreEmotion === corrected ? 1 + this.learningRate : 1 - this.learningRate;
+      next[modality] = Math.max(this.minWeight, next[modality] * factor);
+    });
+
+    const total = modalities.reduce((sum, m) => sum + next[m], 0);
+    modalities.forEach(m => { next[m] = next[m] / total; });
+
+    this.weights = next;
+    await this.save();
+    return this.getWeights();
+  }
+
+  public async reset(): Promise<FusionWeights> {
+    this.weights = modalityRegistry.defaultWeights();
+    await this.save();
+    return this.getWeights();
+  }
+}
+
+export const fusionWeightStore = new FusionWeightStore();
@@ -0,0 +1,72 @@
+import { CORE_EMOTIONS, type CoreEmotion } from "./emotionFusion";
+
+// GoEmotions (Demszky et al., 2020): 27 emotions plus neutral, labelled
+// multi-label on Reddit comments. A classifier trained on it scores every label
+// independently, so several can be present in one message.
+
+export interface GoEmotionScore {
+  label: string;
+  score: number; // 0..1, sigmoid probability that the label applies
+}
+
+export interface TextEmotionScores {
+  emotion: CoreEmotion;
+  confidence: number; // probability of the strongest label in the winning core emotion
+  label: string; // that GoEmotions label
+  emotions: Record<CoreEmotion, number>; // strongest label score per core emotion
+}
+
+// The paper's Ekman grouping, with nervousness split out as Anxiety and
+// surprise-type labels folded into Awe as elsewhere in fusion
+export const GO_EMOTIONS_CORE: Record<string, CoreEmotion> = {
+  admiration: "Joy",
+  amusement: "Joy",
+  approval: "Joy",
+  caring: "Joy",
+  desire: "Joy",
+  excitement: "Joy",
+  gratitude: "Joy",
+  joy: "Joy",
+  love: "Joy",
+  optimism: "Joy",
+  pride: "Joy",
+  relief: "Joy",
+  disappointment: "Sadness",
+  embarrassment: "Sadness",
+  grief: "Sadness",
+  remorse: "Sadness",
+  sadness: "Sadness",
+  anger: "Anger",
+  annoyance: "Anger",
+  disapproval: "Anger",
+  fear: "Fear",
+  nervousness: "Anxiety",
+  disgust: "Aversion",
+  confusion: "Awe",
+  curiosity: "Awe",
+  realization: "Awe",
+  surprise: "Awe",
+  neutral: "Neutral"
+};
+
+// Each core emotion takes its strongest member label; summing independent
+// sigmoid scores would favour the groups with more labels
+export function mapGoEmotions(scores: GoEmotionScore[]): TextEmotionScores | null {
+  const emotions = CORE_EMOTIONS.reduce((acc, emotion) => {
+    acc[emotion] = 0;
+    return acc;
+  }, {} as Record<CoreEmotion, number>);
+  const strongest: Partial<Record<CoreEmotion, string>> = {};
+
+  scores.forEach(({ label, score }) => {
+    const core = GO_EMOTIONS_CORE[label];
+    if (core && score > emotions[core]) {
+      emotions[core] = score;
+      strongest[core] = label;
+    }
+  });
+
+  const emotion = CORE_EMOTIONS.reduce((best, core) => (emotions[core] > emotions[best] ? core : best));
+  if (emotions[emotion] <= 0) return null;
+  return { emotion, confidence: emotions[emotion], label: strongest[emotion]!, emotions };
+}
@@ -0,0 +1,48 @@
+import type { Point } from "./faceQuality";
+
+// Head pose from four of the 68 landmarks: the nose tip against the outer eye
+// corners for yaw, against the eye-line-to-chin drop for pitch, and the slope
+// of the eye line for roll. Shared by the quality gate and the attention tracker
+// so both agree on when a face is turned.
+
+export interface HeadPose {
+  yaw: number; // degrees, positive when the face turns toward the image's right edge
+  pitch: number; // degrees, positive when looking down
+  roll: number; // degrees
+}
+
+// 68-point landmark indices
+const CHIN = 8;
+const NOSE_TIP = 30;
+const LEFT_EYE_OUTER = 36;
+const RIGHT_EYE_OUTER = 45;
+
+// Nose tip depth as a share of the outer eye span; turns a nose offset into an angle
+const NOSE_DEPTH = 0.33;
+const NEUTRAL_NOSE_DROP = 0.31; // share of the eye-line-to-chin drop above the nose tip on the mean face
+
+export function estimateHeadPose(landmarks: Point[]): HeadPose | null {
+  if (landmarks.length < 68) return null;
+  const leftEye = landmarks[LEFT_EYE_OUTER];
+  const rightEye = landmarks[RIGHT_EYE_OUTER];
+  const nose = landmarks[NOSE_TIP];
+  const chin = landmarks[CHIN];
+  const eyeSpan = Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y);
+  const eyeLineY = (leftEye.y + rightEye.y) / 2;
+  const faceDrop = chin.y - eyeLineY;
+  if (eyeSpan <= 0 || faceDrop <= 0) return null;
+
+  const yawOffset = (nose.x - (leftEye.x + rightEye.x) / 2) / eyeSpan;
+  const pitchOffset = (nose.y - eyeLineY) / faceDrop - NEUTRAL_NOSE_DROP;
+  return {
+    yaw: round1(degrees(Math.atan(yawOffset / NOSE_DEPTH))),
+    pitch: round1(degrees(Math.atan(pitchOffset / NOSE_DEPTH))),
+    roll: round1(degrees(Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x)))
+  };
+}
+
+const degrees = (radians: number) => radians * 180 / Math.PI;
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
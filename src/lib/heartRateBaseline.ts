@@ -0,0 +1,63 @@
+export interface HeartRateBaseline {
+  restingBpm: number;
+  spread: number; // robust standard deviation of the user's readings, in BPM
+  sampleCount: number;
+}
+
+export type HeartRateZone = "low" | "nominal" | "elevated" | "critical";
+
+// Population defaults; with these the zones match the original fixed 60/100/110 BPM rules
+export const DEFAULT_HR_BASELINE: HeartRateBaseline = {
+  restingBpm: 70,
+  spread: 10,
+  sampleCount: 0
+};
+
+const MIN_SAMPLES = 5;
+const MIN_SPREAD = 5;
+const MAX_SPREAD = 15;
+
+// Zone boundaries in units of the user's spread away from their resting rate
+const LOW_DEVIATION = -1;
+const ELEVATED_DEVIATION = 3;
+const CRITICAL_DEVIATION = 4;
+// Tachycardia threshold. A tight baseline alone would make an ordinary 80 BPM
+// critical for a fit user resting at 60, so the override also needs an absolute rise.
+const CRITICAL_FLOOR = 100;
+
+export function computeHeartRateBaseline(samples: number[]): HeartRateBaseline {
+  const valid = samples.filter(bpm => Number.isFinite(bpm) && bpm > 30 && bpm < 220).sort((a, b) => a - b);
+  if (valid.length < MIN_SAMPLES) return { ...DEFAULT_HR_BASELINE, sampleCount: valid.length };
+
+  // Readings are taken during check-ins, not at rest, so the lower quartile
+  // is a better resting estimate than the mean.
+  const restingBpm = quantile(valid, 0.25);
+  const median = quantile(valid, 0.5);
+  const mad = quantile(valid.map(bpm => Math.abs(bpm - median)).sort((a, b) => a - b), 0.5);
+  const spread = Math.min(MAX_SPREAD, Math.max(MIN_SPREAD, mad * 1.4826));
+
+  return {
+    restingBpm: Math.round(restingBpm),
+    spread: Math.round(spread * 10) / 10,
+    sampleCount: valid.length
+  };
+}
+
+export function getHeartRateDeviation(bpm: number, baseline: HeartRateBaseline = DEFAULT_HR_BASELINE): number {
+  return (bpm - baseline.restingBpm) / baseline.spread;
+}
+
+export function classifyHeartRate(bpm: number, baseline: HeartRateBaseline = DEFAULT_HR_BASELINE): HeartRateZone {
+  const deviation = getHeartRateDeviation(bpm, baseline);
+  if (deviation > CRITICAL_DEVIATION && bpm > CRITICAL_FLOOR) return "critical";
+  if (deviation > ELEVATED_DEVIATION) return "elevated";
+  if (deviation < LOW_DEVIATION) return "low";
+  return "nominal";
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+import { computeHeartRateBaseline, DEFAULT_HR_BASELINE, type HeartRateBaseline } from './heartRateBaseline';
+
+class HeartRateBaselineStore {
+  private baseline: HeartRateBaseline = { ...DEFAULT_HR_BASELINE };
+  private userId: string | null = null;
+  public ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.init();
+  }
+
+  private async init() {
+    if (typeof window !== "undefined") {
+      const { data: { user } } = await supabase.auth.getUser();
+      this.userId = user?.id || null;
+      if (this.userId) await this.refresh();
+    }
+  }
+
+  // Rebuilds the baseline from the user's session history and biometric logs
+  public async refresh(): Promise<HeartRateBaseline> {
+    if (!this.userId) return this.getBaseline();
+
+    const [{ data: sessions }, { data: logs }] = await Promise.all([
+      supabase
+        .from('sessions')
+        .select('heart_rate')
+        .eq('user_id', this.userId)
+        .gt('heart_rate', 0)
+        .order('created_at', { ascending: false })
+        .limit(100),
+      // RLS limits biometric logs to the current user's therapy sessions
+      supabase
+        .from('biometric_logs')
+        .select('heart_rate')
+        .gt('heart_rate', 0)
+        .order('timestamp', { ascending: false })
+        .limit(500)
+    ]);
+
+    const samples = [
+      ...(Array.isArray(sessions) ? sessions : []),
+      ...(Array.isArray(logs) ? logs : [])
+    ].map((row: { heart_rate: number | null }) => Number(row.heart_rate));
+
+    this.baseline = computeHeartRateBaseline(samples);
+    return this.getBaseline();
+  }
+
+  public getBaseline(): HeartRateBaseline {
+    return { ...this.baseline };
+  }
+}
+
+export const heartRateBaselineStore = new HeartRateBaselineStore();
@@ -0,0 +1,220 @@
+import type { CoreEmotion, EmotionSignal } from "./emotionFusion";
+import { downsample, encodeWav, toBase64 } from "./audioClip";
+
+// Optional cloud prosody: utterance audio is sent to Hume's streaming expression
+// measurement API, authorised with a short-lived token from /api/hume/token, and
+// the 48 prosody scores are folded onto our core emotions. The hume SDK's socket
+// needs the API key itself, so the browser talks to the endpoint directly.
+
+export interface ProsodyScore {
+  name: string;
+  score: number;
+}
+
+export type CloudProsodyStatus = "idle" | "connecting" | "open" | "error" | "closed";
+
+export interface CloudProsodyOptions {
+  url?: string;
+  getToken?: () => Promise<string>;
+  timeout?: number; // ms to wait for a prediction before giving up on it
+  onStatus?: (status: CloudProsodyStatus, error?: string) => void;
+}
+
+export const HUME_STREAM_URL = process.env.NEXT_PUBLIC_HUME_STREAM_URL || "wss://api.hume.ai/v0/stream/models";
+export const MAX_CLOUD_CLIP = 5000; // ms; the streaming API's per-payload audio limit
+const CLOUD_SAMPLE_RATE = 16000; // Hz; plenty for prosody and keeps payloads small
+const DEFAULT_TIMEOUT = 5000; // ms
+
+// Where each of Hume's prosody expressions lands among our core emotions
+export const PROSODY_CORE_EMOTIONS: Record<string, CoreEmotion> = {
+  "Adoration": "Joy",
+  "Amusement": "Joy",
+  "Contentment": "Joy",
+  "Desire": "Joy",
+  "Ecstasy": "Joy",
+  "Excitement": "Joy",
+  "Joy": "Joy",
+  "Love": "Joy",
+  "Pride": "Joy",
+  "Relief": "Joy",
+  "Romance": "Joy",
+  "Satisfaction": "Joy",
+  "Triumph": "Joy",
+  "Disappointment": "Sadness",
+  "Empathic Pain": "Sadness",
+  "Guilt": "Sadness",
+  "Nostalgia": "Sadness",
+  "Pain": "Sadness",
+  "Sadness": "Sadness",
+  "Shame": "Sadness",
+  "Tiredness": "Sadness",
+  "Anger": "Anger",
+  "Envy": "Anger",
+  "Fear": "Fear",
+  "Horror": "Fear",
+  "Surprise (negative)": "Fear",
+  "Anxiety": "Anxiety",
+  "Awkwardness": "Anxiety",
+  "Confusion": "Anxiety",
+  "Distress": "Anxiety",
+  "Doubt": "Anxiety",
+  "Embarrassment": "Anxiety",
+  "Contempt": "Aversion",
+  "Disgust": "Aversion",
+  "Admiration": "Awe",
+  "Aesthetic Appreciation": "Awe",
+  "Awe": "Awe",
+  "Entrancement": "Awe",
+  "Interest": "Awe",
+  "Realization": "Awe",
+  "Surprise (positive)": "Awe",
+  "Boredom": "Neutral",
+  "Calmness": "Neutral",
+  "Concentration": "Neutral",
+  "Contemplation": "Neutral",
+  "Craving": "Neutral",
+  "Determination": "Neutral",
+  "Sympathy": "Neutral"
+};
+
+// Each core emotion takes its strongest member expression, since groups differ
+// in size; confidence is how clearly the winner beats the runner-up (0.5..1).
+export function prosodySignal(emotions: ProsodyScore[], timestamp: number, intensity?: number): EmotionSignal | null {
+  const scores = new Map<CoreEmotion, number>();
+  emotions.forEach(({ name, score }) => {
+    const core = PROSODY_CORE_EMOTIONS[name];
+    if (core && score > (scores.get(core) ?? 0)) scores.set(core, score);
+  });
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0 || ranked[0][1] <= 0) return null;
+
+  const [emotion, top] = ranked[0];
+  const second = ranked[1]?.[1] ?? 0;
+  return { emotion, confidence: top / (top + second), timestamp, intensity };
+}
+
+// Mean prosody scores over every segment the API returned for one payload
+function averagePredictions(predictions: { emotions?: ProsodyScore[] }[]): ProsodyScore[] {
+  const totals = new Map<string, number>();
+  predictions.forEach(prediction => {
+    prediction.emotions?.forEach(({ name, score }) => totals.set(name, (totals.get(name) ?? 0) + score));
+  });
+  return Array.from(totals.entries()).map(([name, total]) => ({ name, score: total / predictions.length }));
+}
+
+async function fetchHumeToken(): Promise<string> {
+  const response = await fetch("/api/hume/token");
+  const data = await response.json();
+  if (!response.ok || !data.accessToken) throw new Error(data.error || "Failed to fetch Hume access token");
+  return data.accessToken;
+}
+
+interface PendingPrediction {
+  resolve: (emotions: ProsodyScore[] | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class CloudProsodyClient {
+  private socket: WebSocket | null = null;
+  private pending = new Map<string, PendingPrediction>();
+  private nextPayload = 0;
+  private url: string;
+  private getToken: () => Promise<string>;
+  private timeout: number;
+  private onStatus?: CloudProsodyOptions["onStatus"];
+  public status: CloudProsodyStatus = "idle";
+
+  constructor(options: CloudProsodyOptions = {}) {
+    this.url = options.url ?? HUME_STREAM_URL;
+    this.getToken = options.getToken ?? fetchHumeToken;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.onStatus = options.onStatus;
+  }
+
+  public async connect(): Promise<void> {
+    if (this.socket) return;
+    this.setStatus("connecting");
+    try {
+      const token = await this.getToken();
+      const socket = new WebSocket(`${this.url}?access_token=${encodeURIComponent(token)}`);
+      this.socket = socket;
+      await new Promise<void>((resolve, reject) => {
+        socket.onopen = () => resolve();
+        socket.onerror = () => reject(new Error("Could not reach the prosody service"));
+      });
+      socket.onmessage = event => this.handleMessage(String(event.data));
+      socket.onerror = () => this.setStatus("error", "Prosody service connection failed");
+      socket.onclose = () => {
+        this.socket = null;
+        this.settleAll();
+        if (this.status !== "error") this.setStatus("closed");
+      };
+      this.setStatus("open");
+    } catch (err) {
+      this.socket?.close();
+      this.socket = null;
+      this.setStatus("error", err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  }
+
+  // Scores one utterance; resolves to null when nothing usable came back in time
+  public analyze(samples: Float32Array, sampleRate: number): Promise<ProsodyScore[] | null> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return Promise.resolve(null);
+
+    const clip = downsample(samples, sampleRate, CLOUD_SAMPLE_RATE);
+    const payloadId = `utterance-${this.nextPayload++}`;
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.settle(payloadId, null), this.timeout);
+      this.pending.set(payloadId, { resolve, timer });
+      socket.send(JSON.stringify({
+        models: { prosody: {} },
+        data: toBase64(encodeWav(clip.samples, clip.sampleRate)),
+        payload_id: payloadId,
+        reset_stream: true // utterances are judged on their own
+      }));
+    });
+  }
+
+  public close() {
+    this.socket?.close();
+    this.socket = null;
+    this.settleAll();
+    this.setStatus("closed");
+  }
+
+  private handleMessage(raw: string) {
+    let message: {
+      payload_id?: string;
+      error?: string;
+      prosody?: { predictions?: { emotions?: ProsodyScore[] }[]; warning?: string };
+    };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (message.error) console.warn("[CloudProsody]", message.error);
+    const predictions = message.prosody?.predictions;
+    const emotions = predictions && predictions.length > 0 ? averagePredictions(predictions) : null;
+    if (message.payload_id) this.settle(message.payload_id, emotions);
+  }
+
+  private settle(payloadId: string, emotions: ProsodyScore[] | null) {
+    const pending = this.pending.get(payloadId);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    this.pending.delete(payloadId);
+    pending.resolve(emotions);
+  }
+
+  private settleAll() {
+    Array.from(this.pending.keys()).forEach(payloadId => this.settle(payloadId, null));
+  }
+
+  private setStatus(status: CloudProsodyStatus, error?: string) {
+    this.status = status;
+    this.onStatus?.(status, error);
+  }
+}
@@ -0,0 +1,52 @@
+import type { FrameStats } from "./frameScheduler";
+
+export type InferenceSource = "face";
+
+export interface InferenceMetric extends FrameStats {
+  runtime: "worker" | "main-thread";
+  updatedAt: number;
+}
+
+type MetricsListener = (metrics: Partial<Record<InferenceSource, InferenceMetric>>) => void;
+
+const PUBLISH_INTERVAL = 500; // ms, keeps status widgets from re-rendering on every frame
+
+// Live throughput of the on-device detectors, for status displays
+class InferenceMetricsStore {
+  private metrics: Partial<Record<InferenceSource, InferenceMetric>> = {};
+  private listeners = new Set<MetricsListener>();
+  private lastPublished = 0;
+
+  public report(source: InferenceSource, stats: FrameStats, runtime: InferenceMetric["runtime"], now: number = Date.now()) {
+    this.metrics = { ...this.metrics, [source]: { ...stats, runtime, updatedAt: now } };
+    if (now - this.lastPublished >= PUBLISH_INTERVAL) {
+      this.lastPublished = now;
+      this.publish();
+    }
+  }
+
+  public clear(source: InferenceSource) {
+    if (!this.metrics[source]) return;
+    const next = { ...this.metrics };
+    delete next[source];
+    this.metrics = next;
+    this.publish();
+  }
+
+  public getMetrics(): Partial<Record<InferenceSource, InferenceMetric>> {
+    return this.metrics;
+  }
+
+  public subscribe(listener: MetricsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private publish() {
+    this.listeners.forEach(listener => listener(this.metrics));
+  }
+}
+
+export const inferenceMetrics = new InferenceMetricsStore();
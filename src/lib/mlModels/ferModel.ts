@@ -1,17 +1,107 @@
 import * as tf from "@tensorflow/tfjs";
 
-export const loadFerModel = async () => {
-  // Placeholder for internal TF.js model loading logic
-  // Typically: await tf.loadLayersModel('/models/fer/model.json');
-  await tf.ready();
-  return null;
+// Same label names as face-api's faceExpressionNet so the two models are interchangeable
+export const EXPRESSION_LABELS = ["neutral", "happy", "sad", "angry", "fearful", "disgusted", "surprised"] as const;
+
+export type ExpressionLabel = typeof EXPRESSION_LABELS[number];
+
+export type ExpressionProbabilities = Record<ExpressionLabel, number>;
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FerPrediction {
+  expression: ExpressionLabel;
+  score: number;
+  probabilities: ExpressionProbabilities;
+}
+
+// Anything tf.browser.fromPixels reads, including ImageBitmaps inside a worker
+export type FrameSource = Parameters<typeof tf.browser.fromPixels>[0];
+
+export const FER_MODEL_URL = "/models/fer/model.json";
+
+// FER-2013 output order of the classifier head
+const FER_OUTPUT_LABELS: ExpressionLabel[] = ["angry", "disgusted", "fearful", "happy", "sad", "surprised", "neutral"];
+
+const INPUT_SIZE = 48;
+const CROP_MARGIN = 0.15; // detector boxes are tight; FER was trained with some forehead and chin
+const LUMA_WEIGHTS = [0.299, 0.587, 0.114];
+
+let modelPromise: Promise<tf.LayersModel | null> | null = null;
+
+// Loads once and warms up; resolves to null when the model files are missing so
+// callers can fall back to face-api's expression net.
+export const loadFerModel = async (url: string = FER_MODEL_URL): Promise<tf.LayersModel | null> => {
+  if (!modelPromise) {
+    modelPromise = (async () => {
+      try {
+        await tf.ready();
+        const model = await tf.loadLayersModel(url);
+        tf.tidy(() => model.predict(tf.zeros([1, INPUT_SIZE, INPUT_SIZE, 1])));
+        return model;
+      } catch (err) {
+        console.warn(`[FER] Model unavailable at ${url}:`, err);
+        modelPromise = null;
+        return null;
+      }
+    })();
+  }
+  return modelPromise;
 };
 
-export const predictEmotion = async (model: tf.LayersModel, imageElement: HTMLVideoElement | HTMLCanvasElement) => {
-  // 1. Preprocess image
-  // 2. Conver to grayscale
-  // 3. Resize to 48x48
-  // 4. Normalize
-  // 5. Predict
-  return "Neutral";
+export const predictEmotion = async (
+  model: tf.LayersModel,
+  imageElement: FrameSource,
+  box?: FaceBox
+): Promise<FerPrediction> => {
+  const output = tf.tidy(() => {
+    const input = preprocess(imageElement, box);
+    const logits = model.predict(input) as tf.Tensor;
+    // Accept heads exported with or without a final softmax
+    const sum = logits.sum().dataSync()[0];
+    return Math.abs(sum - 1) < 1e-3 ? logits.squeeze() : tf.softmax(logits).squeeze();
+  });
+
+  const scores = await output.data();
+  output.dispose();
+
+  const probabilities = EXPRESSION_LABELS.reduce((acc, label) => {
+    acc[label] = 0;
+    return acc;
+  }, {} as ExpressionProbabilities);
+  FER_OUTPUT_LABELS.forEach((label, i) => { probabilities[label] = scores[i]; });
+
+  const [expression, score] = (Object.entries(probabilities) as [ExpressionLabel, number][])
+    .reduce((a, b) => (b[1] > a[1] ? b : a));
+
+  return { expression, score, probabilities };
+};
+
+// Face crop -> grayscale -> 48x48 -> [0, 1], shaped [1, 48, 48, 1]
+const preprocess = (imageElement: FrameSource, box?: FaceBox): tf.Tensor4D => {
+  const pixels = tf.browser.fromPixels(imageElement).toFloat();
+  const [height, width] = pixels.shape;
+
+  const gray = pixels.mul(tf.tensor1d(LUMA_WEIGHTS)).sum(-1, true) as tf.Tensor3D;
+  const batch = gray.expandDims(0) as tf.Tensor4D;
+
+  if (!box) {
+    return tf.image.resizeBilinear(batch, [INPUT_SIZE, INPUT_SIZE]).div(255);
+  }
+
+  const marginX = box.width * CROP_MARGIN;
+  const marginY = box.height * CROP_MARGIN;
+  const y1 = Math.max(0, box.y - marginY) / height;
+  const x1 = Math.max(0, box.x - marginX) / width;
+  const y2 = Math.min(height, box.y + box.height + marginY) / height;
+  const x2 = Math.min(width, box.x + box.width + marginX) / width;
+
+  return tf.image
+    .cropAndResize(batch, [[y1, x1, y2, x2]], [0], [INPUT_SIZE, INPUT_SIZE])
+    .div(255);
 };
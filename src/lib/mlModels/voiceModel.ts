@@ -0,0 +1,124 @@
+import { SPEECH_GATE, type VoiceFeatures } from "../voiceFeatures";
+import { applyVoiceBaseline, type VoiceBaseline } from "../voiceBaseline";
+
+// Summary features the classifier reads, in weight-column order
+export const VOICE_MODEL_FEATURES = ["energy", "pitchStd", "jitter", "shimmer", "centroid", "flux", "speakingRate"] as const;
+
+export type VoiceModelFeature = typeof VOICE_MODEL_FEATURES[number];
+
+// Multinomial logistic regression over standardised features. A model trained
+// offline (e.g. on RAVDESS / CREMA-D eGeMAPS-style features) exports to this
+// shape; features must be listed by name so column order is explicit.
+export interface VoiceModel {
+  labels: string[];
+  features: VoiceModelFeature[];
+  mean: number[];
+  scale: number[];
+  weights: number[][]; // [label][feature]
+  bias: number[];
+}
+
+export interface VoicePrediction {
+  label: string;
+  confidence: number;
+  probabilities: Record<string, number>;
+}
+
+export const VOICE_MODEL_URL = "/models/voice/model.json";
+
+export const SILENT_LABEL = "Silent";
+const MIN_VOICED_RATIO = 0.15; // below this the window is mostly breath and noise
+
+// Typical conversational speech at a laptop microphone
+const FEATURE_MEAN = [-30, 2.5, 0.015, 0.08, 1500, 0.15, 4];
+const FEATURE_SCALE = [8, 1.2, 0.01, 0.04, 500, 0.08, 1.2];
+
+// Where each mood sits in standardised feature space, after the prosody
+// literature: arousal raises loudness, pitch range, brightness and rate;
+// stress adds cycle-to-cycle instability; low mood flattens and slows speech.
+const PROTOTYPES: Record<string, number[]> = {
+  Calm: [-0.5, -0.5, -0.3, -0.3, -0.5, -0.5, -0.3],
+  Energetic: [0.8, 0.3, -0.3, -0.3, 0.4, 0.6, 0.5],
+  Excited: [1.2, 1.2, 0.2, 0.2, 0.9, 1, 1],
+  Stressed: [0.4, 0.2, 1.2, 1, 0.6, 0.3, 0.8],
+  Subdued: [-1, -1, 0.3, 0.5, -0.9, -0.8, -1]
+};
+const PROTOTYPE_TEMPERATURE = 2;
+
+// Nearest-prototype classification written as a linear softmax, so the fallback
+// and a trained model run through the same code: -|z - mu|^2 / T expands to
+// (2 mu . z - |mu|^2) / T plus a term shared by every class.
+export const DEFAULT_VOICE_MODEL: VoiceModel = {
+  labels: Object.keys(PROTOTYPES),
+  features: [...VOICE_MODEL_FEATURES],
+  mean: FEATURE_MEAN,
+  scale: FEATURE_SCALE,
+  weights: Object.values(PROTOTYPES).map(mu => mu.map(value => (2 * value) / PROTOTYPE_TEMPERATURE)),
+  bias: Object.values(PROTOTYPES).map(mu => -mu.reduce((acc, value) => acc + value * value, 0) / PROTOTYPE_TEMPERATURE)
+};
+
+let modelPromise: Promise<VoiceModel> | null = null;
+
+// Loads trained weights once; falls back to the prototype model when the file is
+// missing or malformed so voice mood still works out of the box.
+export const loadVoiceModel = async (url: string = VOICE_MODEL_URL): Promise<VoiceModel> => {
+  if (!modelPromise) {
+    modelPromise = (async () => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const model = await response.json();
+        if (!isVoiceModel(model)) throw new Error("Unexpected model shape");
+        return model;
+      } catch (err) {
+        console.warn(`[VoiceModel] Trained weights unavailable at ${url}, using prototype model:`, err);
+        return DEFAULT_VOICE_MODEL;
+      }
+    })();
+  }
+  return modelPromise;
+};
+
+// With a baseline, the speaker's own neutral voice takes the place of the model's
+// population reference; silence is still judged on the raw level
+export const classifyVoice = (
+  features: VoiceFeatures,
+  model: VoiceModel = DEFAULT_VOICE_MODEL,
+  baseline: VoiceBaseline | null = null
+): VoicePrediction => {
+  if (features.energy <= SPEECH_GATE || features.voicedRatio < MIN_VOICED_RATIO) {
+    return { label: SILENT_LABEL, confidence: 1, probabilities: { [SILENT_LABEL]: 1 } };
+  }
+
+  const relative = applyVoiceBaseline(features, baseline, model);
+  // Features the window couldn't measure (no stable cycles, too short) sit at the mean
+  const z = model.features.map((name, i) => {
+    const value = relative[name];
+    return value === null ? 0 : (value - model.mean[i]) / model.scale[i];
+  });
+
+  const logits = model.weights.map((row, k) => row.reduce((acc, w, i) => acc + w * z[i], model.bias[k]));
+  const max = Math.max(...logits);
+  const exps = logits.map(logit => Math.exp(logit - max));
+  const total = exps.reduce((a, b) => a + b, 0);
+
+  const probabilities: Record<string, number> = {};
+  model.labels.forEach((label, k) => { probabilities[label] = exps[k] / total; });
+  const best = logits.indexOf(max);
+  return { label: model.labels[best], confidence: exps[best] / total, probabilities };
+};
+
+const isVoiceModel = (value: unknown): value is VoiceModel => {
+  const model = value as VoiceModel;
+  const width = model?.features?.length;
+  return (
+    Array.isArray(model?.labels) &&
+    Array.isArray(model.features) &&
+    model.features.every(name => (VOICE_MODEL_FEATURES as readonly string[]).includes(name)) &&
+    model.mean?.length === width &&
+    model.scale?.length === width &&
+    model.weights?.length === model.labels.length &&
+    model.weights.every(row => row.length === width) &&
+    model.bias?.length === model.labels.length
+  );
+};
@@ -0,0 +1,213 @@
+import type { AffectPoint, CoreEmotion, Modality } from "./emotionFusion";
+
+// Everything the fusion pipeline needs to know about a detector. New signals
+// (HRV, posture, typing cadence...) register a definition instead of editing
+// the fusion core, the explanation UI or the session schema.
+export interface ModalityDefinition {
+  id: Modality;
+  label: string; // display name in the explanation UI
+  placeholder: string; // shown when the detector has not produced a reading yet
+  vocabulary: Record<string, CoreEmotion>; // raw detector labels -> core emotion
+  labelAffect?: Record<string, AffectPoint>; // labels that sit away from their core emotion's circumplex point
+  defaultWeight: number;
+  ttl: number; // ms a reading stays live
+  halfLife: number; // ms for the streaming engine to move halfway to a new reading
+  expressive?: boolean; // outwardly controllable channel, checked first for masking
+  affectOnly?: boolean; // moves the arousal estimate but casts no vote on which emotion is felt
+  sessionColumn?: string; // legacy `sessions` column that mirrors this modality's label
+}
+
+class ModalityRegistry {
+  private definitions = new Map<Modality, ModalityDefinition>();
+
+  public register(definition: ModalityDefinition) {
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`Modality "${definition.id}" is already registered`);
+    }
+    this.definitions.set(definition.id, definition);
+  }
+
+  public get(id: Modality): ModalityDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  public list(): ModalityDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  public ids(): Modality[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  public defaultWeights(): Record<Modality, number> {
+    return this.list().reduce((acc, definition) => {
+      acc[definition.id] = definition.defaultWeight;
+      return acc;
+    }, {} as Record<Modality, number>);
+  }
+
+  // Looks the label up in the given modality first, then in every other vocabulary,
+  // so detectors that borrow another modality's labels still map consistently.
+  public findCoreEmotion(label: string, modality?: Modality): CoreEmotion | undefined {
+    const own = modality ? this.definitions.get(modality)?.vocabulary[label] : undefined;
+    if (own) return own;
+    for (const definition of this.definitions.values()) {
+      if (definition.vocabulary[label]) return definition.vocabulary[label];
+    }
+    return undefined;
+  }
+
+  public findLabelAffect(label: string, modality?: Modality): AffectPoint | undefined {
+    const own = modality ? this.definitions.get(modality)?.labelAffect?.[label] : undefined;
+    if (own) return own;
+    for (const definition of this.definitions.values()) {
+      if (definition.labelAffect?.[label]) return definition.labelAffect[label];
+    }
+    return undefined;
+  }
+}
+
+export const modalityRegistry = new ModalityRegistry();
+
+modalityRegistry.register({
+  id: "face",
+  label: "Face Visuals",
+  placeholder: "Calibrating...",
+  vocabulary: {
+    "Happy": "Joy",
+    "Sad": "Sadness",
+    "Angry": "Anger",
+    "Fear": "Fear",
+    "Fearful": "Fear",
+    "Disgusted": "Aversion",
+    "Surprised": "Awe",
+    "Neutral": "Neutral"
+  },
+  defaultWeight: 0.55,
+  ttl: 30000,
+  halfLife: 1500,
+  expressive: true,
+  sessionColumn: "face_emotion"
+});
+
+modalityRegistry.register({
+  id: "text",
+  label: "Text Sentiment",
+  placeholder: "Neutral",
+  vocabulary: {
+    "Happy": "Joy",
+    "Sad": "Sadness",
+    "Angry": "Anger",
+    "Anxious": "Anxiety",
+    "Surprised": "Awe",
+    "Neutral": "Neutral",
+    "Euphoria": "Joy",
+    "Melancholy": "Sadness",
+    "Hostility": "Anger",
+    "Apprehension": "Anxiety",
+    "Astonishment": "Awe",
+    "Equilibrium": "Neutral",
+    "Awe": "Awe",
+    "Love": "Joy",
+    "Excited": "Joy"
+  },
+  labelAffect: {
+    "Euphoria": { valence: 0.9, arousal: 0.8 },
+    "Excited": { valence: 0.7, arousal: 0.9 },
+    "Love": { valence: 0.8, arousal: 0.3 },
+    "Melancholy": { valence: -0.6, arousal: -0.6 },
+    "Equilibrium": { valence: 0.2, arousal: -0.3 }
+  },
+  defaultWeight: 0.25,
+  ttl: 30000,
+  halfLife: 20000, // text only arrives on submit
+  sessionColumn: "text_sentiment"
+});
+
+modalityRegistry.register({
+  id: "voice",
+  label: "Voice Prosody",
+  placeholder: "Silent",
+  vocabulary: {
+    "Excited": "Joy",
+    "Energetic": "Joy",
+    "Passionate": "Joy",
+    "Stressed": "Anxiety",
+    "Unsettled": "Anxiety",
+    "Subdued": "Sadness",
+    "Whispering": "Neutral",
+    "Calm": "Neutral",
+    "Silence": "Neutral",
+    "Silent": "Neutral"
+  },
+  labelAffect: {
+    "Excited": { valence: 0.7, arousal: 0.9 },
+    "Energetic": { valence: 0.5, arousal: 0.7 },
+    "Passionate": { valence: 0.6, arousal: 0.8 },
+    "Stressed": { valence: -0.5, arousal: 0.7 },
+    "Unsettled": { valence: -0.3, arousal: 0.4 },
+    "Subdued": { valence: -0.5, arousal: -0.5 },
+    "Calm": { valence: 0.3, arousal: -0.6 },
+    "Whispering": { valence: 0, arousal: -0.5 },
+    "Silence": { valence: 0, arousal: -0.3 }
+  },
+  defaultWeight: 0.20,
+  ttl: 30000,
+  halfLife: 6000, // one reading per utterance, so each has to carry over the pauses
+  sessionColumn: "voice_emotion"
+});
+
+// Facial action units read from the same camera as `face`, but from muscle
+// movements that are harder to pose than a whole expression, so a disagreement
+// with `face` reads as masking rather than noise.
+modalityRegistry.register({
+  id: "face_au",
+  label: "Facial Action Units",
+  placeholder: "Relaxed",
+  vocabulary: {
+    "Duchenne Smile": "Joy",
+    "Social Smile": "Neutral",
+    "Asymmetric Smile": "Anxiety",
+    "Distress Brow": "Sadness",
+    "Lip Corner Depression": "Sadness",
+    "Fear Brow": "Fear",
+    "Raised Brows": "Awe",
+    "Brow Furrow": "Anger",
+    "Lip Press": "Anxiety",
+    "Relaxed": "Neutral"
+  },
+  labelAffect: {
+    "Social Smile": { valence: 0.2, arousal: 0.1 },
+    "Asymmetric Smile": { valence: -0.4, arousal: 0.2 },
+    "Brow Furrow": { valence: -0.4, arousal: 0.4 },
+    "Lip Press": { valence: -0.4, arousal: 0.3 },
+    "Raised Brows": { valence: 0.1, arousal: 0.6 },
+    "Relaxed": { valence: 0.1, arousal: -0.3 }
+  },
+  defaultWeight: 0.15,
+  ttl: 30000,
+  halfLife: 1500
+});
+
+// Attention says how engaged the user is, not which emotion they feel, so it is
+// kept out of the emotion vote; its labelled affect only moves the arousal
+// estimate when the user is drowsy or keeps looking away.
+modalityRegistry.register({
+  id: "attention",
+  label: "Attention",
+  placeholder: "Engaged",
+  vocabulary: {
+    "Engaged": "Neutral",
+    "Distracted": "Neutral",
+    "Drowsy": "Neutral"
+  },
+  labelAffect: {
+    "Engaged": { valence: 0.1, arousal: 0.2 },
+    "Distracted": { valence: -0.1, arousal: 0.3 },
+    "Drowsy": { valence: -0.2, arousal: -0.7 }
+  },
+  affectOnly: true,
+  defaultWeight: 0,
+  ttl: 30000,
+  halfLife: 3000
+});
@@ -1,4 +1,6 @@
 import * as Tone from "tone";
+import type { AffectPoint } from "./emotionFusion";
+import { classifyHeartRate, DEFAULT_HR_BASELINE, type HeartRateBaseline } from "./heartRateBaseline";
 
 export type SynthType = "sine" | "triangle" | "square" | "sawtooth" | "fatsawtooth" | "fmtriangle";
 
@@ -9,6 +11,8 @@ export interface MoodProfile {
   padPool: SynthType[];
   bassPool: SynthType[];
   intensity: number;
+  valence: number;
+  arousal: number;
 }
 
 export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
@@ -18,7 +22,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["sine", "fmtriangle"], 
     padPool: ["fatsawtooth", "sine"], 
     bassPool: ["triangle", "sine"],
-    intensity: 0.8 
+    intensity: 0.8,
+    valence: 0.9,
+    arousal: 0.8
   },
   "Happy": { 
     baseBpm: 120, 
@@ -26,7 +32,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["triangle", "sine"], 
     padPool: ["fmtriangle", "sine"], 
     bassPool: ["sine", "triangle"],
-    intensity: 0.7 
+    intensity: 0.7,
+    valence: 0.8,
+    arousal: 0.5
   },
   "Melancholy": { 
     baseBpm: 65, 
@@ -34,7 +42,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["triangle", "sine"], 
     padPool: ["fmtriangle", "sine"], 
     bassPool: ["sine"],
-    intensity: 0.3 
+    intensity: 0.3,
+    valence: -0.6,
+    arousal: -0.6
   },
   "Sad": { 
     baseBpm: 60, 
@@ -42,7 +52,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["sine", "triangle"], 
     padPool: ["fmtriangle"], 
     bassPool: ["triangle", "sine"],
-    intensity: 0.2 
+    intensity: 0.2,
+    valence: -0.7,
+    arousal: -0.4
   },
   "Hostility": { 
     baseBpm: 110, 
@@ -50,7 +62,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["sawtooth", "square"], 
     padPool: ["fatsawtooth"], 
     bassPool: ["triangle", "sawtooth"],
-    intensity: 0.8 
+    intensity: 0.8,
+    valence: -0.7,
+    arousal: 0.9
   },
   "Angry": { 
     baseBpm: 105, 
@@ -58,7 +72,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["square", "sawtooth"], 
     padPool: ["fatsawtooth"], 
     bassPool: ["triangle"],
-    intensity: 0.9 
+    intensity: 0.9,
+    valence: -0.6,
+    arousal: 0.8
   },
   "Equilibrium": { 
     baseBpm: 90, 
@@ -66,7 +82,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["triangle", "fmtriangle"], 
     padPool: ["fmtriangle", "sine"], 
     bassPool: ["sine"],
-    intensity: 0.5 
+    intensity: 0.5,
+    valence: 0.2,
+    arousal: -0.3
   },
   "Neutral": { 
     baseBpm: 85, 
@@ -74,7 +92,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["triangle", "sine"], 
     padPool: ["fmtriangle", "sine"], 
     bassPool: ["sine"],
-    intensity: 0.4 
+    intensity: 0.4,
+    valence: 0,
+    arousal: 0
   },
   "Apprehension": { 
     baseBpm: 75, 
@@ -82,7 +102,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["square", "triangle"], 
     padPool: ["fatsawtooth", "fmtriangle"], 
     bassPool: ["triangle"],
-    intensity: 0.6 
+    intensity: 0.6,
+    valence: -0.4,
+    arousal: 0.5
   },
   "Fear": { 
     baseBpm: 70, 
@@ -90,7 +112,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["square", "sine"], 
     padPool: ["fatsawtooth"], 
     bassPool: ["triangle"],
-    intensity: 0.7 
+    intensity: 0.7,
+    valence: -0.7,
+    arousal: 0.7
   },
   "Astonishment": {
     baseBpm: 110,
@@ -98,7 +122,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["sine", "fmtriangle"],
     padPool: ["fatsawtooth"],
     bassPool: ["sawtooth"],
-    intensity: 0.7
+    intensity: 0.7,
+    valence: 0.4,
+    arousal: 0.7
   },
   "Calm": {
     baseBpm: 60,
@@ -106,7 +132,9 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["sine", "triangle"],
     padPool: ["sine"],
     bassPool: ["triangle"],
-    intensity: 0.2
+    intensity: 0.2,
+    valence: 0.3,
+    arousal: -0.6
   },
   "Excited": {
     baseBpm: 135,
@@ -114,10 +142,29 @@ export const MOOD_MAPPINGS: Record<string, MoodProfile> = {
     leadPool: ["sawtooth", "square"],
     padPool: ["fatsawtooth"],
     bassPool: ["sawtooth"],
-    intensity: 0.9
+    intensity: 0.9,
+    valence: 0.7,
+    arousal: 0.9
   }
 };
 
+// Picks the mood profile closest to a point on the valence/arousal plane, so
+// continuous fusion output can drive music without collapsing to a label first.
+export function selectMoodByAffect(affect: AffectPoint): string {
+  let bestMood = "Neutral";
+  let bestDistance = Infinity;
+
+  Object.entries(MOOD_MAPPINGS).forEach(([mood, profile]) => {
+    const distance = Math.hypot(profile.valence - affect.valence, profile.arousal - affect.arousal);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestMood = mood;
+    }
+  });
+
+  return bestMood;
+}
+
 class MusicGenerator {
   private leadSynth: Tone.PolySynth | null = null;
   private padSynth: Tone.PolySynth | null = null;
@@ -240,14 +287,15 @@ class MusicGenerator {
     this.isPlaying = true;
   }
 
-  public updateBpm(liveBpm: number) {
+  public updateBpm(liveBpm: number, baseline: HeartRateBaseline = DEFAULT_HR_BASELINE) {
     if (!this.isPlaying || !this.mainVol) return;
     const profile = MOOD_MAPPINGS[this.currentMood] || MOOD_MAPPINGS["Neutral"];
+    const zone = classifyHeartRate(liveBpm, baseline);
     
-    if (liveBpm > 100) {
+    if (zone === "elevated" || zone === "critical") {
       this.mainVol.volume.rampTo(-24, 3);
       Tone.Transport.bpm.rampTo(profile.baseBpm * 0.7, 5);
-    } else if (liveBpm < 60) {
+    } else if (zone === "low") {
       this.mainVol.volume.rampTo(-10, 3);
       Tone.Transport.bpm.rampTo(profile.baseBpm * 1.3, 5);
     } else {
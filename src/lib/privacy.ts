@@ -1,12 +1,18 @@
+import { AUDIT_KEY } from "./facePrivacy";
+
 export const exportUserData = () => {
   const sessionData = localStorage.getItem("smart_care_session");
   const userData = localStorage.getItem("smart_care_user");
   const rlData = localStorage.getItem("smart_care_rl_data");
+  const fusionWeights = localStorage.getItem("smart_care_fusion_weights");
+  const faceAudit = localStorage.getItem(AUDIT_KEY);
 
   const fullData = {
     user: userData ? JSON.parse(userData) : null,
     sessions: sessionData ? JSON.parse(sessionData) : null,
     personalization: rlData ? JSON.parse(rlData) : null,
+    fusionWeights: fusionWeights ? JSON.parse(fusionWeights) : null,
+    faceSignalAudit: faceAudit ? JSON.parse(faceAudit) : null,
     exportedAt: new Date().toISOString()
   };
 
@@ -22,5 +28,9 @@ export const deleteUserData = () => {
   localStorage.removeItem("smart_care_session");
   localStorage.removeItem("smart_care_user");
   localStorage.removeItem("smart_care_rl_data");
+  localStorage.removeItem("smart_care_fusion_weights");
+  localStorage.removeItem("smart_care_face_baseline");
+  localStorage.removeItem("smart_care_voice_baselines");
+  localStorage.removeItem(AUDIT_KEY);
   window.location.href = "/";
 };
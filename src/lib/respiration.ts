@@ -0,0 +1,184 @@
+import type { FrameFeatures } from "./voiceFeatures";
+
+// Respiration from the microphone: between utterances, air moving through the
+// mouth and nose makes a faint broadband hiss that swells with every breath. The
+// envelope of that hiss over half a minute rises and falls at the breathing rate.
+
+export interface BreathSample {
+  t: number; // ms
+  level: number; // log energy in the breath band
+}
+
+export interface RespirationEstimate {
+  rate: number; // breaths per minute
+  regularity: number | null; // 0..1, steadiness of breath-to-breath intervals; null with too few breaths
+  quality: number; // 0..1, share of in-band envelope power at the breathing rate
+}
+
+export const RESPIRATION_WINDOW_MS = 30000;
+export const MIN_RESPIRATION_WINDOW_MS = 15000;
+
+// Estimates below this are shown as signal quality but not published as a rate
+export const MIN_RESPIRATION_QUALITY = 0.35;
+
+// Regularity below which breathing is described as irregular
+export const IRREGULAR_BREATHING = 0.4;
+
+// Mel filters covering roughly 500 Hz to 3 kHz, where breath noise stands above
+// mains hum and fan rumble. Exhalation at the microphone is usually much louder
+// than inhalation; when both are equally audible the rate reads double.
+const BREATH_BANDS: [number, number] = [5, 16];
+
+const SAMPLE_RATE = 10; // Hz, the envelope is resampled onto this grid
+const SMOOTHING = 5; // samples averaged to remove frame-to-frame noise
+const MAX_GAP = 1500; // ms an interpolated stretch may span, e.g. a short utterance
+const MIN_COVERAGE = 0.6; // share of the window that must be breath rather than speech or gaps
+const MIN_RATE = 6; // breaths per minute
+const MAX_RATE = 40;
+const RATE_STEP = 0.25;
+const PEAK_TOLERANCE = 1.5; // breaths per minute either side of the peak counted as breathing power
+const MIN_INTERVALS = 3; // breath-to-breath intervals needed to judge regularity
+const IRREGULAR_VARIATION = 0.5; // interval coefficient of variation treated as fully irregular
+
+// Breath-band level of a frame; callers only pass frames outside speech
+export function breathLevel(frame: FrameFeatures): number {
+  const bands = frame.melEnergies.slice(BREATH_BANDS[0], BREATH_BANDS[1]);
+  return bands.reduce((sum, value) => sum + value, 0) / Math.max(1, bands.length);
+}
+
+export function estimateRespiration(samples: BreathSample[]): RespirationEstimate | null {
+  if (samples.length < 2) return null;
+  const span = samples[samples.length - 1].t - samples[0].t;
+  if (span < MIN_RESPIRATION_WINDOW_MS) return null;
+
+  const grid = resample(samples);
+  if (grid.covered / grid.levels.length < MIN_COVERAGE) return null;
+
+  const envelope = detrend(movingAverage(grid.levels, SMOOTHING));
+  const spectrum = powerSpectrum(hann(envelope));
+  const total = spectrum.reduce((sum, bin) => sum + bin.power, 0);
+  if (total <= 0) return null;
+
+  const peak = spectrum.reduce((best, bin) => (bin.power > best.power ? bin : best));
+  const breathingPower = spectrum
+    .filter(bin => Math.abs(bin.rate - peak.rate) <= PEAK_TOLERANCE)
+    .reduce((sum, bin) => sum + bin.power, 0);
+
+  return {
+    rate: Math.round(peak.rate),
+    regularity: measureRegularity(envelope, peak.rate),
+    quality: Math.round((breathingPower / total) * 100) / 100
+  };
+}
+
+// Keeps the most recent window of breath-band levels for estimateRespiration
+export class RespirationTracker {
+  private samples: BreathSample[] = [];
+
+  constructor(private windowMs: number = RESPIRATION_WINDOW_MS) {}
+
+  public push(sample: BreathSample) {
+    this.samples.push(sample);
+    const cutoff = sample.t - this.windowMs;
+    while (this.samples.length > 0 && this.samples[0].t < cutoff) this.samples.shift();
+  }
+
+  public estimate(): RespirationEstimate | null {
+    return estimateRespiration(this.samples);
+  }
+
+  public reset() {
+    this.samples = [];
+  }
+}
+
+// Linear interpolation onto a uniform grid. Speech leaves holes in the breath
+// trace; short ones are bridged, and `covered` counts grid points near real samples.
+function resample(samples: BreathSample[]): { levels: number[]; covered: number } {
+  const step = 1000 / SAMPLE_RATE;
+  const start = samples[0].t;
+  const end = samples[samples.length - 1].t;
+  const levels: number[] = [];
+  let covered = 0;
+
+  let j = 0;
+  for (let t = start; t <= end; t += step) {
+    while (j < samples.length - 2 && samples[j + 1].t < t) j++;
+    const a = samples[j];
+    const b = samples[j + 1];
+    const f = b.t === a.t ? 0 : (t - a.t) / (b.t - a.t);
+    levels.push(a.level + (b.level - a.level) * f);
+    if (b.t - a.t <= MAX_GAP) covered++;
+  }
+  return { levels, covered };
+}
+
+// Breath-to-breath intervals from envelope peaks at least 60% of a cycle apart
+function measureRegularity(envelope: number[], rate: number): number | null {
+  const period = (60 / rate) * SAMPLE_RATE;
+  const minSpacing = Math.floor(period * 0.6);
+  const peaks: number[] = [];
+
+  for (let i = 1; i < envelope.length - 1; i++) {
+    if (envelope[i] <= 0 || envelope[i] < envelope[i - 1] || envelope[i] < envelope[i + 1]) continue;
+    const last = peaks[peaks.length - 1];
+    if (last !== undefined && i - last < minSpacing) {
+      if (envelope[i] > envelope[last]) peaks[peaks.length - 1] = i;
+      continue;
+    }
+    peaks.push(i);
+  }
+
+  const intervals = peaks.slice(1).map((peak, k) => peak - peaks[k]);
+  if (intervals.length < MIN_INTERVALS) return null;
+  const variation = standardDeviation(intervals) / average(intervals);
+  return Math.round(Math.max(0, 1 - variation / IRREGULAR_VARIATION) * 100) / 100;
+}
+
+function movingAverage(signal: number[], width: number): number[] {
+  const half = Math.floor(width / 2);
+  return signal.map((_, i) => average(signal.slice(Math.max(0, i - half), i + half + 1)));
+}
+
+// Removes the straight-line trend so slow changes in room noise don't read as breathing
+function detrend(signal: number[]): number[] {
+  const n = signal.length;
+  const meanX = (n - 1) / 2;
+  const meanY = average(signal);
+  let covariance = 0, variance = 0;
+  signal.forEach((value, i) => {
+    covariance += (i - meanX) * (value - meanY);
+    variance += (i - meanX) ** 2;
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+  return signal.map((value, i) => value - meanY - slope * (i - meanX));
+}
+
+function hann(signal: number[]): number[] {
+  const n = signal.length;
+  return signal.map((value, i) => value * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1))));
+}
+
+// Power at each candidate rate on a fine grid, as in the camera pulse estimate
+function powerSpectrum(signal: number[]): { rate: number; power: number }[] {
+  const bins: { rate: number; power: number }[] = [];
+  for (let rate = MIN_RATE; rate <= MAX_RATE; rate += RATE_STEP) {
+    const omega = (2 * Math.PI * rate) / 60 / SAMPLE_RATE;
+    let re = 0, im = 0;
+    for (let i = 0; i < signal.length; i++) {
+      re += signal[i] * Math.cos(omega * i);
+      im -= signal[i] * Math.sin(omega * i);
+    }
+    bins.push({ rate, power: re * re + im * im });
+  }
+  return bins;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = average(values);
+  return Math.sqrt(average(values.map(v => (v - mean) ** 2)));
+}
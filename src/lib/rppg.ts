@@ -0,0 +1,231 @@
+import type { Point } from "./faceQuality";
+
+// Remote photoplethysmography: each heartbeat changes how much light the skin
+// absorbs, mostly in the green channel. Averaging skin pixels per frame gives an
+// RGB trace whose dominant frequency in the cardiac band is the pulse.
+
+export interface RgbSample {
+  t: number; // ms
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface SkinRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PulseEstimate {
+  bpm: number;
+  quality: number; // 0..1, share of in-band spectral power at the pulse and its harmonic
+}
+
+export const RPPG_WINDOW_MS = 10000;
+export const MIN_RPPG_WINDOW_MS = 6000;
+
+// Estimates below this are shown as signal quality but not published as heart rate
+export const MIN_RPPG_QUALITY = 0.4;
+
+const SAMPLE_RATE = 30; // Hz, traces are resampled onto this grid
+const MIN_SOURCE_RATE = 10; // Hz, sparser traces cannot resolve 180 BPM
+const POS_WINDOW = 48; // samples, 1.6 s as in Wang et al. (2017)
+const MIN_BPM = 42;
+const MAX_BPM = 180;
+const MAX_HARMONIC_BPM = 240; // upper edge of the band the quality is measured over
+const BPM_STEP = 0.5;
+const PEAK_TOLERANCE_BPM = 9;
+
+// 68-point landmark indices
+const JAW_LEFT = 2;
+const JAW_RIGHT = 14;
+const BROW_LEFT_INNER = 19;
+const BROW_RIGHT_INNER = 24;
+const NOSE_BRIDGE = 29;
+const NOSE_TIP = 30;
+const NOSE_LEFT = 31;
+const NOSE_BOTTOM = 33;
+const NOSE_RIGHT = 35;
+
+// Forehead above the brows plus both cheeks; eyes, mouth and hair stay out
+export function skinRegions(landmarks: Point[]): SkinRegion[] {
+  if (landmarks.length < 68) return [];
+
+  const browY = Math.min(landmarks[BROW_LEFT_INNER].y, landmarks[BROW_RIGHT_INNER].y);
+  const faceUnit = landmarks[NOSE_TIP].y - browY;
+  if (faceUnit <= 0) return [];
+
+  const forehead: SkinRegion = {
+    x: landmarks[BROW_LEFT_INNER].x,
+    y: browY - faceUnit * 0.5,
+    width: landmarks[BROW_RIGHT_INNER].x - landmarks[BROW_LEFT_INNER].x,
+    height: faceUnit * 0.4
+  };
+
+  const cheekY = (landmarks[NOSE_BRIDGE].y + landmarks[NOSE_BOTTOM].y) / 2;
+  const cheek = (outer: Point, inner: Point): SkinRegion => {
+    const size = Math.abs(inner.x - outer.x) * 0.6;
+    return { x: (outer.x + inner.x) / 2 - size / 2, y: cheekY - size / 2, width: size, height: size };
+  };
+
+  return [forehead, cheek(landmarks[JAW_LEFT], landmarks[NOSE_LEFT]), cheek(landmarks[JAW_RIGHT], landmarks[NOSE_RIGHT])]
+    .filter(region => region.width > 2 && region.height > 2);
+}
+
+// Mean colour over the skin regions, sampled on a small canvas to keep it cheap per frame
+export function sampleSkinColor(
+  source: HTMLVideoElement,
+  regions: SkinRegion[],
+  canvas: HTMLCanvasElement
+): Omit<RgbSample, "t"> | null {
+  if (regions.length === 0) return null;
+
+  const size = 8;
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+
+  let r = 0, g = 0, b = 0;
+  regions.forEach(region => {
+    context.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, size, size);
+    const { data } = context.getImageData(0, 0, size, size);
+    for (let i = 0; i < data.length; i += 4) {
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+    }
+  });
+
+  const count = regions.length * size * size;
+  return { r: r / count, g: g / count, b: b / count };
+}
+
+export function estimatePulse(samples: RgbSample[]): PulseEstimate | null {
+  if (samples.length < 2) return null;
+  const span = samples[samples.length - 1].t - samples[0].t;
+  if (span < MIN_RPPG_WINDOW_MS || samples.length < (span / 1000) * MIN_SOURCE_RATE) return null;
+
+  const pulse = projectPulse(resample(samples));
+  if (pulse.length < POS_WINDOW) return null;
+
+  const spectrum = powerSpectrum(hann(pulse));
+  const total = spectrum.reduce((sum, bin) => sum + bin.power, 0);
+  if (total <= 0) return null;
+
+  const peak = spectrum
+    .filter(bin => bin.bpm <= MAX_BPM)
+    .reduce((best, bin) => (bin.power > best.power ? bin : best));
+
+  const near = (target: number) => (bin: { bpm: number }) => Math.abs(bin.bpm - target) <= PEAK_TOLERANCE_BPM;
+  const pulsePower = spectrum
+    .filter(bin => near(peak.bpm)(bin) || near(peak.bpm * 2)(bin))
+    .reduce((sum, bin) => sum + bin.power, 0);
+
+  return {
+    bpm: Math.round(peak.bpm),
+    quality: Math.round((pulsePower / total) * 100) / 100
+  };
+}
+
+// Keeps the most recent window of skin-colour samples for estimatePulse
+export class PulseTracker {
+  private samples: RgbSample[] = [];
+
+  constructor(private windowMs: number = RPPG_WINDOW_MS) {}
+
+  public push(sample: RgbSample) {
+    this.samples.push(sample);
+    const cutoff = sample.t - this.windowMs;
+    while (this.samples.length > 0 && this.samples[0].t < cutoff) this.samples.shift();
+  }
+
+  public estimate(): PulseEstimate | null {
+    return estimatePulse(this.samples);
+  }
+
+  public reset() {
+    this.samples = [];
+  }
+}
+
+// Linear interpolation onto a uniform SAMPLE_RATE grid; frame timing in the browser is uneven
+function resample(samples: RgbSample[]): RgbSample[] {
+  const step = 1000 / SAMPLE_RATE;
+  const start = samples[0].t;
+  const end = samples[samples.length - 1].t;
+  const result: RgbSample[] = [];
+
+  let j = 0;
+  for (let t = start; t <= end; t += step) {
+    while (j < samples.length - 2 && samples[j + 1].t < t) j++;
+    const a = samples[j];
+    const b = samples[j + 1];
+    const f = b.t === a.t ? 0 : (t - a.t) / (b.t - a.t);
+    result.push({
+      t,
+      r: a.r + (b.r - a.r) * f,
+      g: a.g + (b.g - a.g) * f,
+      b: a.b + (b.b - a.b) * f
+    });
+  }
+  return result;
+}
+
+// Plane-orthogonal-to-skin projection (Wang et al., 2017): removes the shared
+// intensity changes from motion and lighting, keeping the pulsatile component.
+function projectPulse(samples: RgbSample[]): number[] {
+  const pulse = new Array<number>(samples.length).fill(0);
+
+  for (let start = 0; start + POS_WINDOW <= samples.length; start++) {
+    const window = samples.slice(start, start + POS_WINDOW);
+    const mean = {
+      r: average(window.map(s => s.r)),
+      g: average(window.map(s => s.g)),
+      b: average(window.map(s => s.b))
+    };
+    if (mean.r <= 0 || mean.g <= 0 || mean.b <= 0) continue;
+
+    const s1 = window.map(s => s.g / mean.g - s.b / mean.b);
+    const s2 = window.map(s => s.g / mean.g + s.b / mean.b - 2 * s.r / mean.r);
+    const deviation2 = standardDeviation(s2);
+    const alpha = deviation2 > 0 ? standardDeviation(s1) / deviation2 : 0;
+    const h = s1.map((value, i) => value + alpha * s2[i]);
+    const hMean = average(h);
+
+    h.forEach((value, i) => { pulse[start + i] += value - hMean; });
+  }
+
+  return pulse;
+}
+
+function hann(signal: number[]): number[] {
+  const n = signal.length;
+  return signal.map((value, i) => value * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1))));
+}
+
+// Power at each candidate rate; a direct DFT is cheap at this size and allows a fine BPM grid
+function powerSpectrum(signal: number[]): { bpm: number; power: number }[] {
+  const bins: { bpm: number; power: number }[] = [];
+  for (let bpm = MIN_BPM; bpm <= MAX_HARMONIC_BPM; bpm += BPM_STEP) {
+    const omega = (2 * Math.PI * bpm) / 60 / SAMPLE_RATE;
+    let re = 0, im = 0;
+    for (let i = 0; i < signal.length; i++) {
+      re += signal[i] * Math.cos(omega * i);
+      im -= signal[i] * Math.sin(omega * i);
+    }
+    bins.push({ bpm, power: re * re + im * im });
+  }
+  return bins;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = average(values);
+  return Math.sqrt(average(values.map(v => (v - mean) ** 2)));
+}
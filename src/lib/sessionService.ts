@@ -1,4 +1,12 @@
 import { supabase } from "./supabase";
+import { getModalitySignal, type EmotionData, type Modality } from "./emotionFusion";
+import { modalityRegistry } from "./modalityRegistry";
+import type { ActionUnitSummary } from "./actionUnits";
+
+export interface StoredModalitySignal {
+  label: string;
+  confidence: number;
+}
 
 export interface SessionRecord {
   id?: string;
@@ -9,10 +17,41 @@ export interface SessionRecord {
   heart_rate: number;
   final_emotion: string;
   confidence: number;
+  raw_confidence?: number;
+  confirmed_emotion?: string | null;
+  valence?: number;
+  arousal?: number;
+  agreement?: number;
+  conflict_pattern?: string | null;
+  modality_signals?: Record<Modality, StoredModalitySignal>;
+  action_units?: ActionUnitSummary | null;
   created_at?: string;
 }
 
+type SignalColumns = Pick<SessionRecord, "face_emotion" | "voice_emotion" | "text_sentiment" | "modality_signals">;
+
 export const sessionService = {
+  // Serializes every registered modality into `modality_signals`, mirroring
+  // labels into the legacy per-modality columns where one is declared.
+  toSignalColumns(data: EmotionData): SignalColumns {
+    const columns: SignalColumns = { face_emotion: "", voice_emotion: "", text_sentiment: "", modality_signals: {} };
+
+    modalityRegistry.list().forEach(definition => {
+      const signal = getModalitySignal(data, definition.id);
+      if (!signal) return;
+      const stored = typeof signal === 'string'
+        ? { label: signal, confidence: 1 }
+        : { label: signal.emotion, confidence: signal.confidence };
+
+      columns.modality_signals![definition.id] = stored;
+      if (definition.sessionColumn) {
+        (columns as Record<string, unknown>)[definition.sessionColumn] = stored.label;
+      }
+    });
+
+    return columns;
+  },
+
   async saveSession(session: SessionRecord) {
     const { data, error } = await supabase
       .from('sessions')
@@ -26,6 +65,20 @@ export const sessionService = {
     return { success: true, data };
   },
 
+  // Stores the user's verdict on a reading; these labels drive confidence calibration
+  async recordFeedback(sessionId: string, confirmedEmotion: string) {
+    const { error } = await supabase
+      .from('sessions')
+      .update({ confirmed_emotion: confirmedEmotion })
+      .eq('id', sessionId);
+
+    if (error) {
+      console.error("Error recording session feedback:", error);
+      return { success: false, error };
+    }
+    return { success: true };
+  },
+
   async getRecentSessions(userId: string, limit = 10) {
     const { data, error } = await supabase
       .from('sessions')
@@ -0,0 +1,34 @@
+import { env, pipeline } from "@xenova/transformers";
+import { cleanTranscript } from "./textEmotion";
+
+// On-device speech-to-text with Whisper through transformers.js. The weights are
+// fetched from the Hugging Face hub once and cached by the browser; audio never
+// leaves the device. Shared by the speech worker and its main-thread fallback.
+
+export const WHISPER_MODEL = "Xenova/whisper-tiny.en";
+export const WHISPER_SAMPLE_RATE = 16000;
+
+type Transcriber = (audio: Float32Array) => Promise<{ text: string } | { text: string }[]>;
+
+let transcriberPromise: Promise<Transcriber> | null = null;
+
+export const loadWhisper = (): Promise<Transcriber> => {
+  if (!transcriberPromise) {
+    // Nothing is hosted under /models for Whisper; go straight to the hub
+    env.allowLocalModels = false;
+    transcriberPromise = (pipeline("automatic-speech-recognition", WHISPER_MODEL) as Promise<unknown> as Promise<Transcriber>)
+      .catch(err => {
+        transcriberPromise = null;
+        throw err;
+      });
+  }
+  return transcriberPromise;
+};
+
+// `audio` must already be mono at WHISPER_SAMPLE_RATE
+export const transcribe = async (audio: Float32Array): Promise<string> => {
+  const transcriber = await loadWhisper();
+  const output = await transcriber(audio);
+  const text = Array.isArray(output) ? output.map(part => part.text).join(" ") : output.text;
+  return cleanTranscript(text);
+};
@@ -0,0 +1,120 @@
+import { resample } from "./audioClip";
+import { loadWhisper, transcribe, WHISPER_SAMPLE_RATE } from "./speechInference";
+
+// Transcribes utterances cut from the microphone, in a worker when the browser
+// has one and on the main thread otherwise, like the face detector.
+
+export type SpeechWorkerRequest =
+  | { type: "init" }
+  | { type: "transcribe"; id: number; audio: Float32Array };
+
+export type SpeechWorkerResponse =
+  | { type: "ready" }
+  | { type: "error"; message: string }
+  | { type: "result"; id: number; text: string }
+  | { type: "failed"; id: number; message: string };
+
+export interface SpeechRecognizer {
+  runtime: "worker" | "main-thread";
+  available: boolean; // false once a crashed worker's main-thread replacement also failed to load
+  transcribe(samples: Float32Array, sampleRate: number): Promise<string>;
+  dispose(): void;
+}
+
+export const createSpeechRecognizer = async (): Promise<SpeechRecognizer> => {
+  if (typeof Worker !== "undefined") {
+    try {
+      return await createWorkerRecognizer();
+    } catch (err) {
+      console.warn("[SpeechRecognizer] Worker unavailable, running on the main thread:", err);
+    }
+  }
+  return createMainThreadRecognizer();
+};
+
+const createMainThreadRecognizer = async (): Promise<SpeechRecognizer> => {
+  await loadWhisper();
+  return {
+    runtime: "main-thread",
+    available: true,
+    transcribe: (samples, sampleRate) => transcribe(resample(samples, sampleRate, WHISPER_SAMPLE_RATE)),
+    dispose: () => {}
+  };
+};
+
+const createWorkerRecognizer = (): Promise<SpeechRecognizer> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL("./workers/speechRecognition.worker.ts", import.meta.url), { type: "module" });
+  const pending = new Map<number, { resolve: (text: string) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+  let ready = false;
+  let fallback: Promise<SpeechRecognizer> | null = null;
+
+  const recognizer: SpeechRecognizer = {
+    runtime: "worker",
+    available: true,
+    transcribe: (samples, sampleRate) => {
+      if (fallback) return fallback.then(main => main.transcribe(samples, sampleRate));
+      return new Promise((resolveText, rejectText) => {
+        const audio = resample(samples, sampleRate, WHISPER_SAMPLE_RATE);
+        const id = nextId++;
+        pending.set(id, { resolve: resolveText, reject: rejectText });
+        const request: SpeechWorkerRequest = { type: "transcribe", id, audio };
+        // resample returns the caller's buffer untouched at 16 kHz; only hand over our own copy
+        worker.postMessage(request, audio === samples ? [] : [audio.buffer]);
+      });
+    },
+    dispose: () => {
+      worker.terminate();
+      pending.forEach(request => request.reject(new Error("Speech recognizer disposed")));
+      pending.clear();
+      fallback?.then(main => main.dispose(), () => {});
+    }
+  };
+
+  // As in the face detector: after "ready", clips in flight are rejected and
+  // later ones are transcribed on the main thread
+  const fail = (err: Error) => {
+    worker.terminate();
+    if (!ready) {
+      reject(err);
+      return;
+    }
+    if (fallback) return;
+    console.warn("[SpeechRecognizer] Worker failed, continuing on the main thread:", err);
+    fallback = createMainThreadRecognizer();
+    fallback.catch(loadErr => {
+      console.warn("[SpeechRecognizer] Main-thread fallback unavailable:", loadErr);
+      recognizer.available = false;
+    });
+    recognizer.runtime = "main-thread";
+    pending.forEach(request => request.reject(err));
+    pending.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<SpeechWorkerResponse>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "ready":
+        ready = true;
+        resolve(recognizer);
+        break;
+      case "error":
+        fail(new Error(message.message));
+        break;
+      case "result":
+        pending.get(message.id)?.resolve(message.text);
+        pending.delete(message.id);
+        break;
+      case "failed":
+        pending.get(message.id)?.reject(new Error(message.message));
+        pending.delete(message.id);
+        break;
+    }
+  };
+  worker.onerror = (event) => {
+    fail(new Error(event.message || (ready ? "Speech recognition worker crashed" : "Speech recognition worker failed to start")));
+  };
+
+  const init: SpeechWorkerRequest = { type: "init" };
+  worker.postMessage(init);
+});
@@ -0,0 +1,80 @@
+import { CORE_EMOTIONS, type CoreEmotion, type EmotionSignal } from "./emotionFusion";
+
+// Text emotion via /api/emotion/text, with a keyword fallback when the neural
+// route is unreachable. Shared by typed check-ins and voice transcripts.
+
+export interface TextEmotionResult {
+  emotion: string;
+  confidence: number | null; // 0..1; null for the keyword fallback
+  engine: string;
+  scores: Record<CoreEmotion, number> | null; // per core emotion from the route; null for the keyword fallback
+}
+
+const FALLBACK_KEYWORDS: Array<{ words: string[]; emotion: string }> = [
+  { words: ["happy", "joy", "wonderful", "great", "excited", "love", "good", "best", "amazing"], emotion: "Happy" },
+  { words: ["sad", "unhappy", "overwhelmed", "alone", "cry", "depressed", "miserable"], emotion: "Sad" },
+  { words: ["angry", "mad", "annoyed", "frustrated", "hate", "furious"], emotion: "Angry" },
+  { words: ["scared", "fear", "anxious", "worried", "nervous", "panic"], emotion: "Anxious" },
+  { words: ["surprise", "wow", "unbelievable"], emotion: "Surprised" }
+];
+
+export const LEXICAL_ENGINE = "LEXICAL_ENGINE_v1";
+
+// A keyword match is a weak cue, so the fallback is fused at a low fixed confidence
+export const LEXICAL_CONFIDENCE = 0.4;
+
+// The reading as a fusion signal; `confidence` is null for the keyword fallback
+export const textSignal = (emotion: string, confidence: number | null): EmotionSignal => ({
+  emotion,
+  confidence: confidence ?? LEXICAL_CONFIDENCE
+});
+
+// Rejects with an AbortError when `signal` fires; any other failure falls back to keywords
+export const analyzeTextEmotion = async (text: string, signal?: AbortSignal): Promise<TextEmotionResult> => {
+  try {
+    const res = await fetch("/api/emotion/text", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text }),
+      signal
+    });
+    const data = await res.json();
+
+    if (!res.ok || data.error) {
+      throw new Error(data.error || "Neural analysis failed");
+    }
+    const result = data.result;
+    // The route maps its model's labels onto the core emotions
+    if (!result || !(CORE_EMOTIONS as readonly string[]).includes(result.emotion)) {
+      throw new Error("Incomplete result data");
+    }
+
+    return {
+      emotion: result.emotion,
+      confidence: result.confidence,
+      engine: result.engine || "NEURAL NLP",
+      scores: result.emotions ?? null
+    };
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") throw err;
+    console.error("Neural NLP Error. Accessing Lexical Guardrails.", err);
+    return { emotion: lexicalEmotion(text), confidence: null, engine: LEXICAL_ENGINE, scores: null };
+  }
+};
+
+export const lexicalEmotion = (text: string): string => {
+  const input = text.toLowerCase();
+  const group = FALLBACK_KEYWORDS.find(({ words }) => words.some(word => input.includes(word)));
+  return group?.emotion ?? "Equilibrium";
+};
+
+// Whisper narrates non-speech as bracketed tags and tends to hallucinate stock
+// phrases on near-silent clips; neither is something the user said
+const NON_SPEECH = /\[[^\]]*\]|\([^)]*\)|\*[^*]*\*/g;
+const HALLUCINATIONS = new Set(["you", "thank you", "thanks for watching", "bye"]);
+
+export const cleanTranscript = (text: string): string => {
+  const cleaned = text.replace(NON_SPEECH, " ").replace(/\s+/g, " ").trim();
+  const bare = cleaned.toLowerCase().replace(/[^a-z ]/g, "").trim();
+  return bare === "" || HALLUCINATIONS.has(bare) ? "" : cleaned;
+};
@@ -0,0 +1,132 @@
+import type { EmotionSignal } from "./emotionFusion";
+import type { VoicePrediction } from "./mlModels/voiceModel";
+import { SPEECH_GATE, summarizeFrames, type FrameFeatures, type VoiceFeatures } from "./voiceFeatures";
+
+// Voice activity detection over the per-frame features: an adaptive noise floor
+// with onset and hangover hysteresis splits the microphone stream into
+// utterances, so voice mood is judged once per thing said rather than per frame.
+
+export interface Utterance {
+  start: number;
+  end: number;
+  features: VoiceFeatures;
+}
+
+const INITIAL_NOISE_FLOOR = -60; // dBFS
+const ONSET_MARGIN = 10; // dB above the noise floor that starts speech
+const OFFSET_MARGIN = 6; // dB above the noise floor that keeps speech going
+const ONSET_TIME = 60; // ms above the onset level before speech is declared
+const HANGOVER = 300; // ms below the offset level before an utterance ends
+// The floor climbs slowly on every frame, so a steady hum or fan eventually stops
+// counting as speech while a sentence barely moves it; it drops fast in quiet
+const FLOOR_RISE = 3; // dB per second
+const FLOOR_FALL = 0.2; // per frame, toward a quieter reading
+const MAX_FRAME_GAP = 200; // ms a single frame may account for
+
+export const MIN_UTTERANCE = 400; // ms; shorter bursts are coughs, clicks and knocks
+export const MAX_UTTERANCE = 8000; // ms; long monologues are split so fusion hears them in time
+const MIN_VOICED_SHARE = 0.2; // utterances with fewer pitched frames are noise, not speech
+
+const FULL_SCALE_DB = 50; // dB above the speech gate treated as full vocal energy
+const FULL_CONFIDENCE_DURATION = 1500; // ms of speech before a label is fully trusted
+
+export class UtteranceSegmenter {
+  private floor = INITIAL_NOISE_FLOOR;
+  private lastFrameAt: number | null = null;
+  private frames: FrameFeatures[] = [];
+  private aboveSince: number | null = null;
+  private belowSince: number | null = null;
+  private speaking = false;
+
+  // Feeds one frame; returns the utterance it closed, if any
+  public push(frame: FrameFeatures): Utterance | null {
+    this.trackFloor(frame);
+    const onset = Math.max(SPEECH_GATE, this.floor + ONSET_MARGIN);
+    const offset = Math.max(SPEECH_GATE, this.floor + OFFSET_MARGIN);
+
+    if (!this.speaking) {
+      if (frame.energy > onset) {
+        this.aboveSince ??= frame.t;
+        this.frames.push(frame);
+        if (frame.t - this.aboveSince >= ONSET_TIME) this.speaking = true;
+      } else {
+        this.aboveSince = null;
+        this.frames = [];
+      }
+      return null;
+    }
+
+    this.frames.push(frame);
+    if (frame.energy > offset) {
+      this.belowSince = null;
+    } else {
+      this.belowSince ??= frame.t;
+      if (frame.t - this.belowSince >= HANGOVER) return this.close(this.belowSince);
+    }
+    if (frame.t - this.frames[0].t >= MAX_UTTERANCE) return this.close(frame.t);
+    return null;
+  }
+
+  // Ends any utterance in progress, e.g. when the microphone is switched off
+  public flush(now: number): Utterance | null {
+    return this.speaking ? this.close(this.belowSince ?? now) : null;
+  }
+
+  public isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  public noiseFloor(): number {
+    return this.floor;
+  }
+
+  public reset() {
+    this.floor = INITIAL_NOISE_FLOOR;
+    this.lastFrameAt = null;
+    this.frames = [];
+    this.aboveSince = null;
+    this.belowSince = null;
+    this.speaking = false;
+  }
+
+  private close(end: number): Utterance | null {
+    // The trailing hangover is silence; leave it out of the summary
+    const frames = this.frames.filter(frame => frame.t <= end);
+    const start = this.frames[0]?.t ?? end;
+    this.frames = [];
+    this.aboveSince = null;
+    this.belowSince = null;
+    this.speaking = false;
+
+    if (end - start < MIN_UTTERANCE) return null;
+    const voiced = frames.filter(frame => frame.f0 !== null).length;
+    if (voiced < MIN_VOICED_SHARE * frames.length) return null;
+    const features = summarizeFrames(frames);
+    return features ? { start, end, features } : null;
+  }
+
+  private trackFloor(frame: FrameFeatures) {
+    const elapsed = this.lastFrameAt === null ? 0 : Math.min(MAX_FRAME_GAP, Math.max(0, frame.t - this.lastFrameAt));
+    this.lastFrameAt = frame.t;
+    if (frame.energy < this.floor) this.floor += FLOOR_FALL * (frame.energy - this.floor);
+    else this.floor = Math.min(frame.energy, this.floor + (FLOOR_RISE * elapsed) / 1000);
+  }
+}
+
+// Vocal energy as a 0..1 activation cue
+export function vocalIntensity(energy: number): number {
+  return Math.max(0, Math.min(1, (energy - SPEECH_GATE) / FULL_SCALE_DB));
+}
+
+// One fusion signal per utterance, stamped when it ended; short utterances give
+// the classifier little to go on, so their confidence is discounted
+export function utteranceSignal(utterance: Utterance, prediction: VoicePrediction): EmotionSignal {
+  const duration = utterance.end - utterance.start;
+  const reliability = 0.5 + 0.5 * Math.min(1, duration / FULL_CONFIDENCE_DURATION);
+  return {
+    emotion: prediction.label,
+    confidence: prediction.confidence * reliability,
+    timestamp: utterance.end,
+    intensity: vocalIntensity(utterance.features.energy)
+  };
+}
@@ -0,0 +1,86 @@
+import type { VoiceModel } from "./mlModels/voiceModel";
+import type { Utterance } from "./voiceActivity";
+import type { VoiceFeatures } from "./voiceFeatures";
+
+// A user's neutral voice on a particular microphone. Mic gain and frequency
+// response shift loudness and brightness, and people differ in natural pitch
+// range, tempo and voice quality; measuring a neutral reading lets the voice
+// classifier judge each utterance against the speaker rather than a population.
+
+export type BaselineFeature = "energy" | "pitchMean" | "pitchStd" | "jitter" | "shimmer" | "centroid" | "flux" | "speakingRate";
+
+export interface VoiceBaseline {
+  deviceId: string;
+  deviceLabel: string;
+  features: Record<BaselineFeature, number | null>; // medians over the calibration utterances
+  utterances: number;
+  speechMs: number;
+  capturedAt: string;
+}
+
+const BASELINE_FEATURES: BaselineFeature[] = ["energy", "pitchMean", "pitchStd", "jitter", "shimmer", "centroid", "flux", "speakingRate"];
+
+// The Rainbow Passage opening, a standard phonetically balanced reading text
+export const READING_PASSAGE =
+  "When the sunlight strikes raindrops in the air, they act as a prism and form a rainbow. " +
+  "The rainbow is a division of white light into many beautiful colors. These take the shape of a long round arch, " +
+  "with its path high above, and its two ends apparently beyond the horizon.";
+
+export const CALIBRATION_SPEECH = 10000; // ms of reading captured by the wizard
+export const MIN_BASELINE_UTTERANCES = 2;
+export const MIN_BASELINE_SPEECH = 6000; // ms
+
+const MIN_RATIO = 0.25; // limits on how far a baseline may rescale a ratio feature
+const MAX_RATIO = 4;
+
+export function computeVoiceBaseline(
+  utterances: Utterance[],
+  device: { id: string; label: string },
+  capturedAt: Date = new Date()
+): VoiceBaseline | null {
+  const speechMs = utterances.reduce((total, utterance) => total + utterance.end - utterance.start, 0);
+  if (utterances.length < MIN_BASELINE_UTTERANCES || speechMs < MIN_BASELINE_SPEECH) return null;
+
+  const features = {} as Record<BaselineFeature, number | null>;
+  BASELINE_FEATURES.forEach(name => {
+    const values = utterances
+      .map(utterance => utterance.features[name])
+      .filter((value): value is number => value !== null);
+    features[name] = values.length > 0 ? median(values) : null;
+  });
+
+  return {
+    deviceId: device.id,
+    deviceLabel: device.label,
+    features,
+    utterances: utterances.length,
+    speechMs,
+    capturedAt: capturedAt.toISOString()
+  };
+}
+
+// Re-expresses an utterance as if the speaker's neutral voice sat at the model's
+// reference point: loudness moves by the dB difference, and every other feature
+// scales by the ratio of the reference to the speaker's neutral value.
+export function applyVoiceBaseline(features: VoiceFeatures, baseline: VoiceBaseline | null, model: VoiceModel): VoiceFeatures {
+  if (!baseline) return features;
+
+  const adjusted = { ...features };
+  model.features.forEach((name, i) => {
+    const value = features[name];
+    const rest = baseline.features[name];
+    if (value === null || rest === null || rest === undefined) return;
+    if (name === "energy") {
+      adjusted.energy = value - rest + model.mean[i];
+    } else if (rest > 0) {
+      adjusted[name] = value * Math.max(MIN_RATIO, Math.min(MAX_RATIO, model.mean[i] / rest));
+    }
+  });
+  return adjusted;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import type { VoiceBaseline } from './voiceBaseline';
+
+const STORAGE_KEY = "smart_care_voice_baselines";
+
+// One baseline per microphone, keyed by the browser's device id, since a headset
+// and a laptop mic hear the same voice very differently
+class VoiceBaselineStore {
+  private baselines: Record<string, VoiceBaseline> = {};
+  private userId: string | null = null;
+  public ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.init();
+  }
+
+  private async init() {
+    if (typeof window !== "undefined") {
+      const { data: { user } } = await supabase.auth.getUser();
+      this.userId = user?.id || null;
+
+      if (this.userId) {
+        const { data } = await supabase
+          .from('user_preferences')
+          .select('voice_baselines')
+          .eq('user_id', this.userId)
+          .single();
+        this.setIfValid(data?.voice_baselines);
+      } else {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) this.setIfValid(JSON.parse(saved));
+      }
+    }
+  }
+
+  private setIfValid(candidate: unknown) {
+    if (!candidate || typeof candidate !== "object") return;
+    Object.entries(candidate as Record<string, Partial<VoiceBaseline>>).forEach(([deviceId, saved]) => {
+      if (!saved?.features || typeof saved.utterances !== "number") return;
+      this.baselines[deviceId] = { deviceLabel: "", speechMs: 0, capturedAt: "", ...saved, deviceId } as VoiceBaseline;
+    });
+  }
+
+  private async persist() {
+    if (typeof window === "undefined") return;
+
+    if (this.userId) {
+      await supabase
+        .from('user_preferences')
+        .upsert({ user_id: this.userId, voice_baselines: this.baselines }, { onConflict: 'user_id' });
+    } else if (Object.keys(this.baselines).length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.baselines));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  public getBaseline(deviceId: string): VoiceBaseline | null {
+    return this.baselines[deviceId] ?? null;
+  }
+
+  public list(): VoiceBaseline[] {
+    return Object.values(this.baselines);
+  }
+
+  public async save(baseline: VoiceBaseline) {
+    this.baselines = { ...this.baselines, [baseline.deviceId]: baseline };
+    await this.persist();
+  }
+
+  public async clear(deviceId: string) {
+    const rest = { ...this.baselines };
+    delete rest[deviceId];
+    this.baselines = rest;
+    await this.persist();
+  }
+}
+
+export const voiceBaselineStore = new VoiceBaselineStore();
@@ -0,0 +1,361 @@
+// Acoustic features of speech from raw Web Audio frames: YIN pitch, cycle-level
+// jitter and shimmer, spectral centroid and flux, MFCCs and a syllable-rate
+// estimate. Everything is plain math on Float32Arrays so it runs in tests too.
+
+export interface FrameFeatures {
+  t: number;
+  energy: number; // dBFS
+  f0: number | null; // Hz, null when unvoiced
+  periodicity: number; // 0..1, YIN confidence that the frame is periodic
+  jitter: number | null; // relative mean difference of consecutive glottal periods
+  shimmer: number | null; // relative mean difference of consecutive cycle amplitudes
+  centroid: number; // Hz
+  flux: number; // 0..1, rise of the normalised spectrum since the previous frame
+  mfcc: number[];
+  melEnergies: number[]; // log mel band energies, for display
+}
+
+export interface VoiceFeatures {
+  energy: number; // mean dBFS of speech frames
+  voicedRatio: number; // share of frames with a pitch
+  pitchMean: number | null; // Hz
+  pitchStd: number | null; // semitones
+  jitter: number | null;
+  shimmer: number | null;
+  centroid: number; // Hz
+  flux: number;
+  mfcc: number[];
+  speakingRate: number; // syllable nuclei per second of speech
+}
+
+export const MIN_F0 = 75; // Hz
+export const MAX_F0 = 500; // Hz
+export const SPEECH_GATE = -50; // dBFS; quieter frames are treated as silence
+export const MFCC_COEFFICIENTS = 13;
+export const MEL_FILTERS = 26;
+
+const YIN_THRESHOLD = 0.15;
+const PITCH_RATE = 16000; // Hz the frame is decimated to before YIN
+const MAX_MEL_FREQUENCY = 8000; // Hz
+const SYLLABLE_PROMINENCE = 4; // dB an energy peak must rise above the dip before it
+const MIN_SYLLABLE_GAP = 100; // ms
+
+export function rmsDb(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return 20 * Math.log10(Math.sqrt(sum / Math.max(1, frame.length)) + 1e-10);
+}
+
+// YIN (de Cheveigné & Kawahara, 2002) on a copy decimated to ~16 kHz; speech F0
+// needs no more and it keeps the difference function cheap per animation frame.
+export function estimatePitch(frame: Float32Array, sampleRate: number): { f0: number | null; periodicity: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / PITCH_RATE));
+  const rate = sampleRate / factor;
+  const x = decimate(frame, factor);
+
+  const tauMin = Math.max(2, Math.floor(rate / MAX_F0));
+  const tauMax = Math.min(Math.floor(rate / MIN_F0), Math.floor(x.length / 2));
+  const width = x.length - tauMax;
+  if (tauMax <= tauMin || width <= 0) return { f0: null, periodicity: 0 };
+
+  const cmnd = new Float32Array(tauMax + 1);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let d = 0;
+    for (let j = 0; j < width; j++) {
+      const diff = x[j] - x[j + tau];
+      d += diff * diff;
+    }
+    running += d;
+    cmnd[tau] = running > 0 ? (d * tau) / running : 1;
+  }
+
+  let tau = -1;
+  for (let t = tauMin; t <= tauMax; t++) {
+    if (cmnd[t] < YIN_THRESHOLD) {
+      while (t + 1 <= tauMax && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau < 0) {
+    let best = tauMin;
+    for (let t = tauMin + 1; t <= tauMax; t++) if (cmnd[t] < cmnd[best]) best = t;
+    return { f0: null, periodicity: Math.max(0, 1 - cmnd[best]) };
+  }
+
+  const refined = tau > 0 && tau < tauMax ? tau + parabolicOffset(cmnd[tau - 1], cmnd[tau], cmnd[tau + 1]) : tau;
+  return { f0: rate / refined, periodicity: Math.max(0, 1 - cmnd[tau]) };
+}
+
+// Walks the waveform one pitch period at a time, picking the peak of each glottal
+// cycle at full sample rate, and compares consecutive cycles.
+export function measurePerturbation(
+  frame: Float32Array,
+  sampleRate: number,
+  f0: number
+): { jitter: number | null; shimmer: number | null } {
+  const period = sampleRate / f0;
+  const positions: number[] = [];
+  const amplitudes: number[] = [];
+
+  let peak = argmax(frame, 0, Math.round(period));
+  while (peak >= 0) {
+    const offset = peak > 0 && peak < frame.length - 1 ? parabolicOffset(-frame[peak - 1], -frame[peak], -frame[peak + 1]) : 0;
+    positions.push(peak + offset);
+    amplitudes.push(frame[peak]);
+    const start = peak + Math.round(0.75 * period);
+    const end = peak + Math.round(1.25 * period);
+    if (end >= frame.length) break;
+    peak = argmax(frame, start, end);
+  }
+
+  if (positions.length < 3) return { jitter: null, shimmer: null };
+  const periods = positions.slice(1).map((position, i) => position - positions[i]);
+  return {
+    jitter: meanAbsoluteDifference(periods) / mean(periods),
+    shimmer: meanAbsoluteDifference(amplitudes) / Math.max(1e-6, mean(amplitudes.map(Math.abs)))
+  };
+}
+
+// Magnitude spectrum of a Hann-windowed frame; the length must be a power of two
+export function magnitudeSpectrum(frame: Float32Array): Float32Array {
+  const n = frame.length;
+  const re = new Float32Array(n);
+  const im = new Float32Array(n);
+  for (let i = 0; i < n; i++) re[i] = frame[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+
+  const magnitudes = new Float32Array(n / 2 + 1);
+  for (let i = 0; i <= n / 2; i++) magnitudes[i] = Math.hypot(re[i], im[i]);
+  return magnitudes;
+}
+
+export function spectralCentroid(magnitudes: Float32Array, sampleRate: number): number {
+  const binWidth = sampleRate / (2 * (magnitudes.length - 1));
+  let weighted = 0;
+  let total = 0;
+  for (let i = 0; i < magnitudes.length; i++) {
+    weighted += i * binWidth * magnitudes[i];
+    total += magnitudes[i];
+  }
+  return total > 0 ? weighted / total : 0;
+}
+
+// Half-wave rectified difference of the two spectra, each normalised to unit sum
+export function spectralFlux(magnitudes: Float32Array, previous: Float32Array | null): number {
+  if (!previous || previous.length !== magnitudes.length) return 0;
+  const total = sum(magnitudes);
+  const previousTotal = sum(previous);
+  if (total <= 0 || previousTotal <= 0) return 0;
+  let flux = 0;
+  for (let i = 0; i < magnitudes.length; i++) {
+    flux += Math.max(0, magnitudes[i] / total - previous[i] / previousTotal);
+  }
+  return flux;
+}
+
+// Log mel filterbank energies and their DCT-II, the usual 13 MFCCs
+export function melCepstrum(magnitudes: Float32Array, sampleRate: number): { mfcc: number[]; melEnergies: number[] } {
+  const bank = melFilterbank(magnitudes.length, sampleRate);
+  const melEnergies = bank.map(filter => {
+    let energy = 0;
+    filter.forEach(([bin, weight]) => { energy += weight * magnitudes[bin] * magnitudes[bin]; });
+    return Math.log(energy + 1e-10);
+  });
+
+  const mfcc: number[] = [];
+  for (let k = 0; k < MFCC_COEFFICIENTS; k++) {
+    let value = 0;
+    for (let m = 0; m < MEL_FILTERS; m++) value += melEnergies[m] * Math.cos((Math.PI * k * (m + 0.5)) / MEL_FILTERS);
+    mfcc.push(value);
+  }
+  return { mfcc, melEnergies };
+}
+
+// Syllable nuclei as prominent peaks of the energy envelope
+export function countSyllables(envelope: { t: number; energy: number }[]): number {
+  let count = 0;
+  let lastPeak = -Infinity;
+  let dip = Infinity;
+  for (let i = 1; i < envelope.length - 1; i++) {
+    const { t, energy } = envelope[i];
+    dip = Math.min(dip, energy);
+    const isPeak = energy >= envelope[i - 1].energy && energy > envelope[i + 1].energy;
+    if (isPeak && energy > SPEECH_GATE && energy - dip >= SYLLABLE_PROMINENCE && t - lastPeak >= MIN_SYLLABLE_GAP) {
+      count += 1;
+      lastPeak = t;
+      dip = energy;
+    }
+  }
+  return count;
+}
+
+// Keeps per-frame features over a rolling window and summarises them
+export class VoiceFeatureExtractor {
+  private frames: FrameFeatures[] = [];
+  private previousSpectrum: Float32Array | null = null;
+
+  constructor(private sampleRate: number, private windowMs: number = 2000) {}
+
+  public push(frame: Float32Array, timestamp: number): FrameFeatures {
+    const energy = rmsDb(frame);
+    const spectrum = magnitudeSpectrum(frame);
+    const speech = energy > SPEECH_GATE;
+    const { f0, periodicity } = speech ? estimatePitch(frame, this.sampleRate) : { f0: null, periodicity: 0 };
+    const perturbation = f0 ? measurePerturbation(frame, this.sampleRate, f0) : { jitter: null, shimmer: null };
+
+    const features: FrameFeatures = {
+      t: timestamp,
+      energy,
+      f0,
+      periodicity,
+      ...perturbation,
+      centroid: spectralCentroid(spectrum, this.sampleRate),
+      flux: spectralFlux(spectrum, this.previousSpectrum),
+      ...melCepstrum(spectrum, this.sampleRate)
+    };
+    this.previousSpectrum = spectrum;
+
+    this.frames.push(features);
+    while (this.frames.length > 0 && this.frames[0].t < timestamp - this.windowMs) this.frames.shift();
+    return features;
+  }
+
+  public summary(): VoiceFeatures | null {
+    return summarizeFrames(this.frames);
+  }
+
+  public reset() {
+    this.frames = [];
+    this.previousSpectrum = null;
+  }
+}
+
+export function summarizeFrames(frames: FrameFeatures[]): VoiceFeatures | null {
+  const speech = frames.filter(frame => frame.energy > SPEECH_GATE);
+  if (speech.length === 0) return null;
+
+  const voiced = speech.filter(frame => frame.f0 !== null);
+  const semitones = voiced.map(frame => 12 * Math.log2(frame.f0! / 100));
+  const jitters = voiced.map(frame => frame.jitter).filter((value): value is number => value !== null);
+  const shimmers = voiced.map(frame => frame.shimmer).filter((value): value is number => value !== null);
+  const speechTime = speech.length > 1 ? (frames[frames.length - 1].t - frames[0].t) * (speech.length / frames.length) : 0;
+
+  return {
+    energy: mean(speech.map(frame => frame.energy)),
+    voicedRatio: voiced.length / speech.length,
+    pitchMean: voiced.length > 0 ? mean(voiced.map(frame => frame.f0!)) : null,
+    pitchStd: semitones.length > 1 ? standardDeviation(semitones) : null,
+    jitter: jitters.length > 0 ? median(jitters) : null,
+    shimmer: shimmers.length > 0 ? median(shimmers) : null,
+    centroid: mean(speech.map(frame => frame.centroid)),
+    flux: mean(speech.map(frame => frame.flux)),
+    mfcc: Array.from({ length: MFCC_COEFFICIENTS }, (_, k) => mean(speech.map(frame => frame.mfcc[k]))),
+    speakingRate: speechTime > 0 ? countSyllables(frames) / (speechTime / 1000) : 0
+  };
+}
+
+const filterbanks = new Map<string, [number, number][][]>();
+
+// Triangular filters evenly spaced on the mel scale, as (bin, weight) pairs
+function melFilterbank(bins: number, sampleRate: number): [number, number][][] {
+  const key = `${bins}:${sampleRate}`;
+  const cached = filterbanks.get(key);
+  if (cached) return cached;
+
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const toHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+  const maxMel = toMel(Math.min(MAX_MEL_FREQUENCY, sampleRate / 2));
+  const binWidth = sampleRate / (2 * (bins - 1));
+  const edges = Array.from({ length: MEL_FILTERS + 2 }, (_, i) => toHz((maxMel * i) / (MEL_FILTERS + 1)) / binWidth);
+
+  const bank = Array.from({ length: MEL_FILTERS }, (_, m) => {
+    const [left, centre, right] = [edges[m], edges[m + 1], edges[m + 2]];
+    const filter: [number, number][] = [];
+    for (let bin = Math.floor(left); bin <= Math.ceil(right) && bin < bins; bin++) {
+      const weight = bin <= centre ? (bin - left) / (centre - left) : (right - bin) / (right - centre);
+      if (weight > 0) filter.push([bin, weight]);
+    }
+    return filter;
+  });
+  filterbanks.set(key, bank);
+  return bank;
+}
+
+function decimate(frame: Float32Array, factor: number): Float32Array {
+  if (factor === 1) return frame;
+  const out = new Float32Array(Math.floor(frame.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let total = 0;
+    for (let j = 0; j < factor; j++) total += frame[i * factor + j];
+    out[i] = total / factor;
+  }
+  return out;
+}
+
+// Vertex of the parabola through three equally spaced points, relative to the middle one
+function parabolicOffset(a: number, b: number, c: number): number {
+  const denominator = a - 2 * b + c;
+  return denominator === 0 ? 0 : Math.max(-0.5, Math.min(0.5, (a - c) / (2 * denominator)));
+}
+
+function argmax(values: Float32Array, start: number, end: number): number {
+  let best = -1;
+  for (let i = Math.max(0, start); i < Math.min(values.length, end); i++) {
+    if (best < 0 || values[i] > values[best]) best = i;
+  }
+  return best;
+}
+
+function sum(values: ArrayLike<number>): number {
+  let total = 0;
+  for (let i = 0; i < values.length; i++) total += values[i];
+  return total;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+function meanAbsoluteDifference(values: number[]): number {
+  return mean(values.slice(1).map((value, i) => Math.abs(value - values[i])));
+}
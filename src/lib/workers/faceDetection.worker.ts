@@ -0,0 +1,57 @@
+import * as faceapi from "@vladmandic/face-api";
+import { analyzeFrame, loadFaceModels, loadFer } from "../faceInference";
+import type { FaceWorkerRequest, FaceWorkerResponse } from "../faceDetector";
+
+// face-api only recognises browser and Node environments; inside a worker it
+// gets an OffscreenCanvas-backed one. Frames arrive as ImageBitmaps and are read
+// into tensors, so the image and video constructors are never used.
+const unsupported = () => {
+  throw new Error("Not available in the face detection worker");
+};
+
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D,
+  Image: unsupported,
+  ImageData,
+  Video: unsupported,
+  createCanvasElement: () => new OffscreenCanvas(1, 1),
+  createImageElement: unsupported,
+  createVideoElement: unsupported,
+  fetch: (url: string, init?: RequestInit) => fetch(url, init),
+  readFile: unsupported
+} as unknown as faceapi.Environment);
+
+const scratch = new OffscreenCanvas(24, 24);
+
+const reply = (message: FaceWorkerResponse) => self.postMessage(message);
+
+self.addEventListener("message", async (event: MessageEvent<FaceWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "init":
+      try {
+        await loadFaceModels();
+        reply({ type: "ready" });
+      } catch (err) {
+        reply({ type: "error", message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+
+    case "loadFer":
+      reply({ type: "fer", available: await loadFer() });
+      break;
+
+    case "detect":
+      try {
+        const analysis = await analyzeFrame(request.frame, request.expressionModel, scratch);
+        reply({ type: "result", id: request.id, analysis });
+      } catch (err) {
+        reply({ type: "failed", id: request.id, message: err instanceof Error ? err.message : String(err) });
+      } finally {
+        request.frame.close();
+      }
+      break;
+  }
+});
@@ -0,0 +1,30 @@
+import { loadWhisper, transcribe } from "../speechInference";
+import type { SpeechWorkerRequest, SpeechWorkerResponse } from "../speechRecognizer";
+
+// Whisper decoding takes hundreds of milliseconds per utterance; off the main
+// thread it doesn't stall the audio meters or the rest of the check-in.
+
+const reply = (message: SpeechWorkerResponse) => self.postMessage(message);
+
+self.addEventListener("message", async (event: MessageEvent<SpeechWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "init":
+      try {
+        await loadWhisper();
+        reply({ type: "ready" });
+      } catch (err) {
+        reply({ type: "error", message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+
+    case "transcribe":
+      try {
+        reply({ type: "result", id: request.id, text: await transcribe(request.audio) });
+      } catch (err) {
+        reply({ type: "failed", id: request.id, message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+  }
+});
@@ -15,6 +15,9 @@ create table user_preferences (
   id uuid default gen_random_uuid() primary key,
   user_id uuid references auth.users on delete cascade not null unique,
   q_table jsonb default '{}'::jsonb,
+  fusion_weights jsonb default '{}'::jsonb,
+  face_baseline jsonb, -- resting-face expression and geometry baseline from the calibration step
+  voice_baselines jsonb default '{}'::jsonb, -- neutral-reading voice statistics, keyed by microphone device id
   preferred_genres text[] default '{}',
   music_tempo_pref float default 1.0,
   updated_at timestamp with time zone default now()
@@ -43,7 +46,15 @@ create table sessions (
   text_sentiment text,
   heart_rate float,
   final_emotion text,
-  confidence float,
+  confidence float, -- calibrated confidence shown to the user
+  raw_confidence float, -- fusion confidence before calibration
+  confirmed_emotion text, -- emotion the user confirmed or corrected to; null if no feedback
+  valence float,
+  arousal float,
+  agreement float,
+  conflict_pattern text,
+  modality_signals jsonb, -- { <modality id>: { label, confidence } } for every registered modality
+  action_units jsonb, -- facial action unit means, peaks and per-second timeline for session review
   created_at timestamp with time zone default now()
 );
 
@@ -83,6 +94,7 @@ using (exists (select 1 from therapy_sessions where therapy_sessions.id = sessio
 alter table sessions enable row level security;
 create policy "Users can view own active sessions" on sessions for select using (auth.uid() = user_id);
 create policy "Users can insert own active sessions" on sessions for insert with check (auth.uid() = user_id);
+create policy "Users can update own active sessions" on sessions for update using (auth.uid() = user_id);
 
 -- FUNCTIONS & TRIGGERS
 